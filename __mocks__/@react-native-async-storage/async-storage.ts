@@ -0,0 +1,2 @@
+// In-memory AsyncStorage for tests, as shipped by the package
+export { default } from "@react-native-async-storage/async-storage/jest/async-storage-mock";
@@ -0,0 +1,71 @@
+import type { Database, SqlValue } from "sql.js";
+
+// expo-sqlite for tests, backed by an in-memory SQLite database (sql.js).
+// Every call yields to the event loop first, like the native module does, so
+// writes that aren't queued can interleave as they would on a device.
+
+type Params = (SqlValue | undefined)[];
+
+// The asm.js build, as the test environment has no WebAssembly file loading
+const initSqlJs: typeof import("sql.js").default = require("sql.js/dist/sql-asm.js");
+const sqlJs = initSqlJs();
+
+function toBindings(params: Params | [Params]): SqlValue[] {
+  const values = params.length === 1 && Array.isArray(params[0]) ? params[0] : (params as Params);
+  return values.map((value) => value ?? null);
+}
+
+function nextTick(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+export class SQLiteDatabase {
+  constructor(private readonly db: Database) {}
+
+  async execAsync(source: string): Promise<void> {
+    await nextTick();
+    this.db.exec(source);
+  }
+
+  async runAsync(
+    source: string,
+    ...params: Params | [Params]
+  ): Promise<{ changes: number; lastInsertRowId: number }> {
+    await nextTick();
+    this.db.run(source, toBindings(params));
+    return { changes: this.db.getRowsModified(), lastInsertRowId: 0 };
+  }
+
+  async getAllAsync<T>(source: string, ...params: Params | [Params]): Promise<T[]> {
+    await nextTick();
+    const statement = this.db.prepare(source, toBindings(params));
+    const rows: T[] = [];
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as T);
+    }
+    statement.free();
+    return rows;
+  }
+
+  async getFirstAsync<T>(source: string, ...params: Params | [Params]): Promise<T | null> {
+    const rows = await this.getAllAsync<T>(source, ...params);
+    return rows[0] ?? null;
+  }
+
+  // Like expo-sqlite, not exclusive: other calls on the database can run in between
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    await this.execAsync("BEGIN");
+    try {
+      await task();
+      await this.execAsync("COMMIT");
+    } catch (error) {
+      await this.execAsync("ROLLBACK");
+      throw error;
+    }
+  }
+}
+
+export async function openDatabaseAsync(): Promise<SQLiteDatabase> {
+  const SQL = await sqlJs;
+  return new SQLiteDatabase(new SQL.Database());
+}
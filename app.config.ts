@@ -42,7 +42,8 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
         supportsTablet: true,
         infoPlist: {
             NSMicrophoneUsageDescription: "This app uses the microphone for AI Doctor voice input to help answer your medical questions.",
-            NSPhoneCallUsageDescription: "This app makes emergency calls to your emergency contacts and doctors."
+            NSPhoneCallUsageDescription: "This app makes emergency calls to your emergency contacts and doctors.",
+            UIBackgroundModes: ["fetch"]
         }
     },
     android: {
@@ -20,16 +20,63 @@ import {
   getMedications,
   Medication,
   getTodaysDoses,
+  getDoseHistory,
   recordDose,
+  recordAsNeededDose,
   DoseHistory,
+  DoseStatus,
+  getDoseStatus,
 } from "../../utils/storage";
+import {
+  DOSE_STATUS_DISPLAY,
+  SKIP_REASONS,
+  getMissedDoseGraceMinutes,
+  getSlotStatus,
+  isSlotResolved,
+} from "@/utils/doseStatus";
+import {
+  isAsNeeded,
+  isDoseDay,
+  isMedicationActiveOn,
+  isCourseEnded,
+  getDoseTimesForDate,
+  getDosageForDate,
+} from "@/utils/schedule";
+import { completeFinishedCourses } from "@/utils/course";
+import { purgeExpiredTrash } from "@/utils/trash";
+import {
+  AsNeededStatus,
+  OVER_LIMIT_REASON,
+  confirmAsNeededDose,
+  formatDoseMoment,
+  getAsNeededLimits,
+  getAsNeededStatus,
+} from "@/utils/asNeeded";
+import {
+  AdherenceStats,
+  getAdherenceColor,
+  getAdherenceReport,
+} from "@/utils/adherence";
+import { getRegimenInteractions } from "@/utils/interactions";
 import { useFocusEffect } from "@react-navigation/native";
-import * as Notifications from 'expo-notifications';
 import {
+  cancelSlotFollowUps,
+  replanAllReminders,
   requestNotificationPermissions,
-  scheduleMedicationReminder,
   sendTestNotification,
 } from "@/utils/notifications";
+import {
+  getActivePersonId,
+  getPeople,
+  getPersonKey,
+  Person,
+  setActivePersonId,
+} from "@/utils/people";
+import {
+  detectTimezoneChange,
+  describeTimezoneChange,
+  TimezoneChange,
+} from "@/utils/timezone";
 import {
   useHealthData
 } from '@/hooks/health';
@@ -157,6 +204,17 @@ export default function HomeScreen() {
   const [completedDoses, setCompletedDoses] = useState(0);
   const [doseHistory, setDoseHistory] = useState<DoseHistory[]>([]);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [activePersonId, setActivePersonIdState] = useState<string | null>(null);
+  const [adherence, setAdherence] = useState<AdherenceStats | null>(null);
+  const [interactionCount, setInteractionCount] = useState(0);
+  const [asNeededMedications, setAsNeededMedications] = useState<
+    { medication: Medication; status: AsNeededStatus }[]
+  >([]);
+  const [skipTarget, setSkipTarget] = useState<{
+    medication: Medication;
+    timeSlot?: string;
+  } | null>(null);
 
   const {
     hasPermissions: hasHealthPermissions,
@@ -167,50 +225,64 @@ export default function HomeScreen() {
 
   const loadMedications = useCallback(async () => {
     try {
-      const [allMedications, todaysDoses] = await Promise.all([
+      const [allMedications, todaysDoses, allDoses, graceMinutes] = await Promise.all([
         getMedications(),
         getTodaysDoses(),
+        getDoseHistory(),
+        getMissedDoseGraceMinutes(),
       ]);
 
+      // Archived courses no longer count towards interactions
+      const currentMedications = allMedications.filter((med) => !isCourseEnded(med));
+
       setDoseHistory(todaysDoses);
-      setMedications(allMedications);
+      setMedications(currentMedications);
+      setAdherence(getAdherenceReport(allMedications, allDoses, graceMinutes).overall);
+      setInteractionCount(getRegimenInteractions(currentMedications).length);
 
       // Filter medications for today
       const today = new Date();
-      const todayMeds = allMedications.filter((med) => {
-        const startDate = new Date(med.startDate);
-        const durationDays = parseInt(med.duration.split(" ")[0]);
-
-        // For ongoing medications or if within duration
-        if (
-          durationDays === -1 ||
-          (today >= startDate &&
-            today <=
-            new Date(
-              startDate.getTime() + durationDays * 24 * 60 * 60 * 1000
-            ))
-        ) {
-          return true;
-        }
-        return false;
-      });
+      const todayMeds = allMedications.filter(
+        (med) => !isAsNeeded(med) && isDoseDay(med, today)
+      );
 
       setTodaysMedications(todayMeds);
+      setAsNeededMedications(
+        allMedications
+          .filter((med) => isAsNeeded(med) && isMedicationActiveOn(med, today))
+          .map((medication) => ({
+            medication,
+            status: getAsNeededStatus(medication, allDoses, today),
+          }))
+      );
 
-      // Calculate completed doses
-      const completed = todaysDoses.filter((dose) => dose.taken).length;
+      // Calculate completed doses, as-needed ones aren't part of the schedule
+      const completed = todaysDoses.filter(
+        (dose) => !dose.asNeeded && getDoseStatus(dose) === "taken"
+      ).length;
       setCompletedDoses(completed);
     } catch (error) {
       console.error("Error loading medications:", error);
     }
   }, []);
 
+  const loadPeople = useCallback(async () => {
+    try {
+      const [allPeople, activeId] = await Promise.all([
+        getPeople(),
+        getActivePersonId(),
+      ]);
+      setPeople(allPeople);
+      setActivePersonIdState(activeId);
+    } catch (error) {
+      console.error('Error loading people:', error);
+    }
+  }, []);
+
   const loadUserProfile = useCallback(async () => {
     try {
-      const savedProfile = await AsyncStorage.getItem('userProfile');
-      if (savedProfile) {
-        setUserProfile(JSON.parse(savedProfile));
-      }
+      const savedProfile = await AsyncStorage.getItem(await getPersonKey('userProfile'));
+      setUserProfile(savedProfile ? JSON.parse(savedProfile) : null);
     } catch (error) {
       console.error('Error loading user profile:', error);
     }
@@ -274,33 +346,63 @@ export default function HomeScreen() {
         return;
       }
 
-      // IMPORTANT: Cancel ALL existing notifications first to prevent duplicates
-      // This ensures we only have one set of notifications scheduled at any time
-      const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
-      console.log(`Found ${scheduledNotifications.length} existing scheduled notifications - clearing all`);
-      await Notifications.cancelAllScheduledNotificationsAsync();
-
-      // Now schedule fresh notifications
-      const medications = await getMedications();
-      for (const medication of medications) {
-        if (medication.reminderEnabled) {
-          await scheduleMedicationReminder(medication);
-        }
+      // Courses past their end date are archived first, so they aren't re-planned
+      const completed = await completeFinishedCourses();
+      if (completed.length > 0) {
+        loadMedications();
       }
+      await purgeExpiredTrash();
+
+      // Fresh notifications for everyone managed on this phone
+      await replanAllReminders();
     } catch (error) {
       console.error("Error setting up notifications:", error);
     }
   };
 
+  const promptTimezoneReview = async (change: TimezoneChange) => {
+    const medications = (
+      await Promise.all((await getPeople()).map((person) => getMedications(person.id)))
+    ).flat();
+    Alert.alert(
+      "Time zone changed",
+      describeTimezoneChange(change, medications),
+      [
+        { text: "Later", style: "cancel" },
+        { text: "Review schedule", onPress: () => router.push("/calendar") },
+      ]
+    );
+  };
+
+  // Reminders are re-planned in the new zone before the user is asked to review them
+  const checkTimezoneChange = async (): Promise<boolean> => {
+    const change = await detectTimezoneChange();
+    if (!change) return false;
+    await setupNotifications();
+    await promptTimezoneReview(change);
+    return true;
+  };
+
+  const switchPerson = async (personId: string) => {
+    await setActivePersonId(personId);
+    setActivePersonIdState(personId);
+    loadMedications();
+    loadUserProfile();
+  };
+
   useEffect(() => {
+    loadPeople();
     loadMedications();
     loadUserProfile();
-    setupNotifications();
+    checkTimezoneChange().then((replanned) => {
+      if (!replanned) setupNotifications();
+    });
 
     const subscription = AppState.addEventListener("change", (nextAppState) => {
       if (nextAppState === "active") {
         loadMedications();
         loadUserProfile();
+        checkTimezoneChange();
       }
     });
 
@@ -315,6 +417,7 @@ export default function HomeScreen() {
         // Cleanup if needed
       };
 
+      loadPeople();
       loadMedications();
       loadUserProfile();
 
@@ -324,16 +427,22 @@ export default function HomeScreen() {
       }
 
       return () => unsubscribe();
-    }, [loadMedications, loadUserProfile, hasHealthPermissions, loadDailyData])
+    }, [loadPeople, loadMedications, loadUserProfile, hasHealthPermissions, loadDailyData])
   );
 
-  const handleTakeDose = async (medication: Medication, timeSlot?: string) => {
+  const handleLogDose = async (
+    medication: Medication,
+    status: DoseStatus,
+    timeSlot?: string,
+    reason?: string
+  ) => {
     try {
       const now = new Date();
       const currentTime = `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`;
       const scheduledTime = timeSlot || currentTime;
 
-      await recordDose(medication.id, true, now.toISOString(), scheduledTime);
+      await recordDose(medication.id, status, now.toISOString(), scheduledTime, reason);
+      await cancelSlotFollowUps(medication.id, scheduledTime);
       await loadMedications();
     } catch (error) {
       console.error("Error recording dose:", error);
@@ -341,57 +450,69 @@ export default function HomeScreen() {
     }
   };
 
-  const isDoseTaken = (medicationId: string, timeSlot?: string) => {
-    if (timeSlot) {
-      return doseHistory.some(
-        (dose) =>
-          dose.medicationId === medicationId &&
-          dose.taken &&
-          (dose.scheduledTime === timeSlot ||
-            new Date(dose.timestamp).toTimeString().slice(0, 5) === timeSlot)
+  const handleTakeAsNeeded = async (medication: Medication) => {
+    try {
+      const now = new Date();
+      const status = getAsNeededStatus(medication, await getDoseHistory(), now);
+      if (!(await confirmAsNeededDose(status))) return;
+
+      await recordAsNeededDose(
+        medication.id,
+        now.toISOString(),
+        status.warnings.length > 0 ? OVER_LIMIT_REASON : undefined
       );
+      await loadMedications();
+    } catch (error) {
+      console.error("Error recording as-needed dose:", error);
+      Alert.alert("Error", "Failed to record dose. Please try again.");
     }
-    return doseHistory.some(
-      (dose) => dose.medicationId === medicationId && dose.taken
-    );
   };
 
-  const getNextDueTime = (medication: Medication) => {
-    if (!medication.times || medication.times.length === 0) return null;
+  const getDoseSlotStatus = (medicationId: string, timeSlot?: string) => {
+    if (timeSlot) {
+      return getSlotStatus(doseHistory, medicationId, new Date(), timeSlot);
+    }
+    const doses = doseHistory.filter((dose) => dose.medicationId === medicationId);
+    return doses.length > 0 ? getDoseStatus(doses[doses.length - 1]) : undefined;
+  };
 
+  const getNextDueTime = (medication: Medication) => {
     const now = new Date();
+    const todaysTimes = getDoseTimesForDate(medication, now);
+    if (todaysTimes.length === 0) return null;
+
     const currentTime = now.getHours() * 60 + now.getMinutes();
 
-    for (const time of medication.times) {
+    for (const time of todaysTimes) {
       const [hours, minutes] = time.split(':').map(Number);
       const timeInMinutes = hours * 60 + minutes;
 
-      const isTaken = isDoseTaken(medication.id, time);
+      const isResolved = isSlotResolved(getDoseSlotStatus(medication.id, time));
 
-      if (timeInMinutes >= currentTime && !isTaken) {
+      if (timeInMinutes >= currentTime && !isResolved) {
         return time;
       }
     }
 
-    for (const time of medication.times) {
-      if (!isDoseTaken(medication.id, time)) {
+    for (const time of todaysTimes) {
+      if (!isSlotResolved(getDoseSlotStatus(medication.id, time))) {
         return time;
       }
     }
 
-    return medication.times[0];
+    return todaysTimes[0];
   };
 
   const getTotalDosesForToday = (medications: Medication[]) => {
+    const today = new Date();
     return medications.reduce((total, medication) => {
-      return total + (medication.times?.length || 0);
+      return total + getDoseTimesForDate(medication, today).length;
     }, 0);
   };
 
+  const totalDosesToday = getTotalDosesForToday(todaysMedications);
   const progress =
-    todaysMedications.length > 0
-      ? completedDoses / getTotalDosesForToday(todaysMedications)
-      : 0;
+    totalDosesToday > 0 ? Math.min(completedDoses / totalDosesToday, 1) : 0;
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -424,9 +545,46 @@ export default function HomeScreen() {
               )}
             </TouchableOpacity>
           </View>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.personSwitcher}
+          >
+            {people.map((person) => {
+              const isActive = person.id === activePersonId;
+              return (
+                <TouchableOpacity
+                  key={person.id}
+                  style={[styles.personChip, isActive && styles.activePersonChip]}
+                  onPress={() => switchPerson(person.id)}
+                >
+                  <View
+                    style={[styles.personDot, { backgroundColor: person.color }]}
+                  />
+                  <Text
+                    style={[
+                      styles.personChipText,
+                      isActive && styles.activePersonChipText,
+                    ]}
+                  >
+                    {person.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+            <TouchableOpacity
+              style={styles.personChip}
+              onPress={() => router.push("/people")}
+            >
+              <Ionicons name="people-outline" size={16} color="white" />
+              <Text style={styles.personChipText}>
+                {people.length > 1 ? "Manage" : "Add person"}
+              </Text>
+            </TouchableOpacity>
+          </ScrollView>
           <CircularProgress
             progress={progress}
-            totalDoses={todaysMedications.length * 2}
+            totalDoses={totalDosesToday}
             completedDoses={completedDoses}
           />
         </View>
@@ -520,6 +678,72 @@ export default function HomeScreen() {
           </TouchableOpacity>
         </View> */}
 
+        {adherence && adherence.due > 0 && (
+          <TouchableOpacity
+            style={styles.adherenceCard}
+            onPress={() => router.push("/adherence")}
+          >
+            <View style={styles.adherenceStat}>
+              <Text
+                style={[
+                  styles.adherenceValue,
+                  { color: getAdherenceColor(adherence.percentages[7]) },
+                ]}
+              >
+                {adherence.percentages[7] === null
+                  ? "—"
+                  : `${adherence.percentages[7]}%`}
+              </Text>
+              <Text style={styles.adherenceLabel}>7-day adherence</Text>
+            </View>
+            <View style={styles.adherenceStat}>
+              <Text
+                style={[
+                  styles.adherenceValue,
+                  { color: getAdherenceColor(adherence.percentages[30]) },
+                ]}
+              >
+                {adherence.percentages[30] === null
+                  ? "—"
+                  : `${adherence.percentages[30]}%`}
+              </Text>
+              <Text style={styles.adherenceLabel}>30-day adherence</Text>
+            </View>
+            <View style={styles.adherenceStat}>
+              <View style={styles.adherenceStreak}>
+                <Ionicons name="flame" size={18} color="#FF5722" />
+                <Text style={styles.adherenceValue}>
+                  {adherence.currentStreak}
+                </Text>
+              </View>
+              <Text style={styles.adherenceLabel}>Day streak</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#999" />
+          </TouchableOpacity>
+        )}
+
+        {medications.length > 1 && (
+          <TouchableOpacity
+            style={[
+              styles.interactionBanner,
+              interactionCount > 0 && styles.interactionBannerWarning,
+            ]}
+            onPress={() => router.push("/interactions")}
+          >
+            <Ionicons
+              name={interactionCount > 0 ? "warning" : "shield-checkmark"}
+              size={20}
+              color={interactionCount > 0 ? "#EF6C00" : "#1a8e2d"}
+            />
+            <Text style={styles.interactionBannerText}>
+              {interactionCount > 0
+                ? `${interactionCount} possible drug interaction${interactionCount === 1 ? "" : "s"}`
+                : "No known drug interactions"}
+            </Text>
+            <Ionicons name="chevron-forward" size={18} color="#999" />
+          </TouchableOpacity>
+        )}
+
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Today's Schedule</Text>
@@ -546,61 +770,195 @@ export default function HomeScreen() {
           ) : (
             todaysMedications.map((medication) => {
               const nextDueTime = getNextDueTime(medication);
-              const taken = nextDueTime ? isDoseTaken(medication.id, nextDueTime) : false;
-
+              const status = nextDueTime
+                ? getDoseSlotStatus(medication.id, nextDueTime)
+                : undefined;
+              const statusDisplay = status ? DOSE_STATUS_DISPLAY[status] : null;
               return (
                 <View key={medication.id} style={styles.doseCard}>
-                  <View
+                  <TouchableOpacity
                     style={[
                       styles.doseBadge,
                       { backgroundColor: `${medication.color}15` },
                     ]}
+                    onPress={() =>
+                      router.push({
+                        pathname: "/medications/edit",
+                        params: { id: medication.id },
+                      })
+                    }
                   >
                     <Ionicons
-                      name="medical"
+                      name="create-outline"
                       size={24}
                       color={medication.color}
                     />
-                  </View>
+                  </TouchableOpacity>
                   <View style={styles.doseInfo}>
                     <View>
                       <Text style={styles.medicineName}>{medication.name}</Text>
-                      <Text style={styles.dosageInfo}>{medication.dosage}</Text>
+                      <Text style={styles.dosageInfo}>
+                        {getDosageForDate(medication, new Date())}
+                      </Text>
                     </View>
                     <View style={styles.doseTime}>
                       <Ionicons name="time-outline" size={16} color="#666" />
                       <Text style={styles.timeText}>
                         {nextDueTime || "No scheduled times"}
                       </Text>
+                      {statusDisplay && !isSlotResolved(status) && (
+                        <Text
+                          style={[styles.slotStatusText, { color: statusDisplay.color }]}
+                        >
+                          {statusDisplay.label}
+                        </Text>
+                      )}
                     </View>
                   </View>
-                  {taken ? (
-                    <View style={[styles.takenBadge]}>
+                  {statusDisplay && isSlotResolved(status) ? (
+                    <View
+                      style={[
+                        styles.takenBadge,
+                        { backgroundColor: statusDisplay.backgroundColor },
+                      ]}
+                    >
                       <Ionicons
-                        name="checkmark-circle"
+                        name={statusDisplay.icon}
                         size={20}
-                        color="#4CAF50"
+                        color={statusDisplay.color}
                       />
-                      <Text style={styles.takenText}>Taken</Text>
+                      <Text style={[styles.takenText, { color: statusDisplay.color }]}>
+                        {statusDisplay.label}
+                      </Text>
                     </View>
                   ) : (
-                    <TouchableOpacity
-                      style={[
-                        styles.takeDoseButton,
-                        { backgroundColor: medication.color },
-                      ]}
-                      onPress={() => handleTakeDose(medication, nextDueTime || undefined)}
-                    >
-                      <Text style={styles.takeDoseText}>Take</Text>
-                    </TouchableOpacity>
+                    <>
+                      <TouchableOpacity
+                        style={[
+                          styles.takeDoseButton,
+                          { backgroundColor: medication.color },
+                        ]}
+                        onPress={() => handleLogDose(medication, "taken", nextDueTime || undefined)}
+                      >
+                        <Text style={styles.takeDoseText}>Take</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.skipDoseButton}
+                        onPress={() =>
+                          setSkipTarget({ medication, timeSlot: nextDueTime || undefined })
+                        }
+                      >
+                        <Ionicons name="play-skip-forward" size={18} color="#757575" />
+                      </TouchableOpacity>
+                    </>
                   )}
                 </View>
               );
             })
           )}
         </View>
+
+        {asNeededMedications.length > 0 && (
+          <View style={[styles.section, styles.asNeededSection]}>
+            <Text style={styles.sectionTitle}>As Needed</Text>
+            {asNeededMedications.map(({ medication, status }) => {
+              const { maxDosesPer24h } = getAsNeededLimits(medication);
+              const overLimit = status.warnings.length > 0;
+              return (
+                <View key={medication.id} style={styles.doseCard}>
+                  <TouchableOpacity
+                    style={[
+                      styles.doseBadge,
+                      { backgroundColor: `${medication.color}15` },
+                    ]}
+                    onPress={() =>
+                      router.push({
+                        pathname: "/medications/edit",
+                        params: { id: medication.id },
+                      })
+                    }
+                  >
+                    <Ionicons
+                      name="create-outline"
+                      size={24}
+                      color={medication.color}
+                    />
+                  </TouchableOpacity>
+                  <View style={styles.doseInfo}>
+                    <View>
+                      <Text style={styles.medicineName}>{medication.name}</Text>
+                      <Text style={styles.dosageInfo}>{medication.dosage}</Text>
+                    </View>
+                    <View style={styles.doseTime}>
+                      <Ionicons name="time-outline" size={16} color="#666" />
+                      <Text style={styles.timeText}>
+                        {status.lastDoseAt
+                          ? `Last ${formatDoseMoment(status.lastDoseAt)}`
+                          : "None in 24h"}
+                        {maxDosesPer24h
+                          ? ` · ${status.dosesLast24h}/${maxDosesPer24h} in 24h`
+                          : ""}
+                      </Text>
+                    </View>
+                    {overLimit && status.nextAllowedAt && (
+                      <Text style={[styles.slotStatusText, styles.asNeededWait]}>
+                        Wait until {formatDoseMoment(status.nextAllowedAt)}
+                      </Text>
+                    )}
+                  </View>
+                  <TouchableOpacity
+                    style={[
+                      styles.takeDoseButton,
+                      { backgroundColor: overLimit ? "#BDBDBD" : medication.color },
+                    ]}
+                    onPress={() => handleTakeAsNeeded(medication)}
+                  >
+                    <Text style={styles.takeDoseText}>Take now</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </View>
+        )}
       </View>
 
+      <Modal
+        visible={skipTarget !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setSkipTarget(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                Skip {skipTarget?.medication.name}?
+              </Text>
+              <TouchableOpacity
+                onPress={() => setSkipTarget(null)}
+                style={styles.closeButton}
+              >
+                <Ionicons name="close" size={24} color="#333" />
+              </TouchableOpacity>
+            </View>
+            {SKIP_REASONS.map((reason) => (
+              <TouchableOpacity
+                key={reason}
+                style={styles.notificationItem}
+                onPress={async () => {
+                  if (!skipTarget) return;
+                  const { medication, timeSlot } = skipTarget;
+                  setSkipTarget(null);
+                  await handleLogDose(medication, "skipped", timeSlot, reason);
+                }}
+              >
+                <Text style={styles.notificationTitle}>{reason}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </Modal>
+
       <Modal
         visible={showNotifications}
         animationType="slide"
@@ -631,7 +989,7 @@ export default function HomeScreen() {
                     {medication.dosage}
                   </Text>
                   <Text style={styles.notificationTime}>
-                    {medication.times[0]}
+                    {getDoseTimesForDate(medication, new Date()).join(", ")}
                   </Text>
                 </View>
               </View>
@@ -664,6 +1022,35 @@ const styles = StyleSheet.create({
     width: "100%",
     marginBottom: 20,
   },
+  personSwitcher: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  personChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "rgba(255, 255, 255, 0.15)",
+  },
+  activePersonChip: {
+    backgroundColor: "white",
+  },
+  personDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  personChipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "white",
+  },
+  activePersonChipText: {
+    color: "#1a8e2d",
+  },
   greeting: {
     fontSize: 18,
     fontWeight: "600",
@@ -715,6 +1102,66 @@ const styles = StyleSheet.create({
   section: {
     paddingHorizontal: 20,
   },
+  adherenceCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  asNeededSection: {
+    marginTop: 20,
+  },
+  asNeededWait: {
+    color: "#EF6C00",
+    marginLeft: 0,
+    marginTop: 4,
+  },
+  interactionBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#E8F5E9",
+    borderRadius: 12,
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 14,
+  },
+  interactionBannerWarning: {
+    backgroundColor: "#FFF3E0",
+  },
+  interactionBannerText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  adherenceStat: {
+    flex: 1,
+    alignItems: "center",
+  },
+  adherenceStreak: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  adherenceValue: {
+    fontSize: 20,
+    fontWeight: "700",
+    color: "#333",
+  },
+  adherenceLabel: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
   sectionHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -787,6 +1234,17 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     fontSize: 14,
   },
+  skipDoseButton: {
+    padding: 8,
+    borderRadius: 15,
+    marginLeft: 6,
+    backgroundColor: "#F5F5F5",
+  },
+  slotStatusText: {
+    marginLeft: 8,
+    fontSize: 12,
+    fontWeight: "600",
+  },
   progressContainer: {
     alignItems: "center",
     justifyContent: "center",
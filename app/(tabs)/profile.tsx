@@ -26,6 +26,9 @@ const { width } = Dimensions.get('window');
 
 
 import CryptoJS from 'crypto-js';
+import { useFocusEffect } from '@react-navigation/native';
+import { getPersonKey } from '@/utils/people';
+import { router } from 'expo-router';
 const WEBHOOK_SECRET = 'nammamedic';
 
 const GENDER_OPTIONS = [
@@ -188,11 +191,17 @@ export default function ProfileScreen() {
 
 
     useEffect(() => {
-        loadProfile();
         loadShareableAccountData();
         initializeHealthData();
     }, []);
 
+    // The profile shown follows the person picked on the home screen
+    useFocusEffect(
+        useCallback(() => {
+            loadProfile();
+        }, [])
+    );
+
     const initializeHealthData = useCallback(async () => {
         try {
             if (!hasPermissions) {
@@ -277,10 +286,8 @@ export default function ProfileScreen() {
 
     const loadProfile = async () => {
         try {
-            const savedProfile = await AsyncStorage.getItem('userProfile');
-            if (savedProfile) {
-                setProfile(JSON.parse(savedProfile));
-            }
+            const savedProfile = await AsyncStorage.getItem(await getPersonKey('userProfile'));
+            setProfile(savedProfile ? JSON.parse(savedProfile) : defaultProfile);
         } catch (error) {
             console.error('Error loading profile:', error);
         }
@@ -321,7 +328,7 @@ export default function ProfileScreen() {
 
     const saveProfile = async (updatedProfile: UserProfile) => {
         try {
-            await AsyncStorage.setItem('userProfile', JSON.stringify(updatedProfile));
+            await AsyncStorage.setItem(await getPersonKey('userProfile'), JSON.stringify(updatedProfile));
             setProfile(updatedProfile);
         } catch (error) {
             console.error('Error saving profile:', error);
@@ -1806,6 +1813,23 @@ For medical use, please consult your healthcare provider.
                                 </View>
                                 <Ionicons name="chevron-forward" size={20} color="#ccc" />
                             </TouchableOpacity>
+
+                            <TouchableOpacity
+                                style={styles.settingsOption}
+                                onPress={() => {
+                                    setSettingsModalVisible(false);
+                                    router.push('/diagnostics');
+                                }}
+                            >
+                                <View style={styles.settingsOptionContent}>
+                                    <Ionicons name="construct-outline" size={24} color="#8E24AA" />
+                                    <View style={styles.settingsOptionText}>
+                                        <Text style={styles.settingsOptionTitle}>Check & Repair Data</Text>
+                                        <Text style={styles.settingsOptionSubtitle}>Find and fix inconsistent records</Text>
+                                    </View>
+                                </View>
+                                <Ionicons name="chevron-forward" size={20} color="#ccc" />
+                            </TouchableOpacity>
                         </View>
                     </View>
                 </View>
@@ -8,6 +8,14 @@ import * as Notifications from 'expo-notifications';
 import { router } from 'expo-router';
 import * as Updates from 'expo-updates';
 import { useWidgetUpdates } from "@/hooks/useWidgetUpdates";
+import { useMissedDoseDetection } from "@/hooks/useMissedDoseDetection";
+import { useReminderReplanning } from "@/hooks/useReminderReplanning";
+import { useDoseEscalation } from "@/hooks/useDoseEscalation";
+import {
+  handleDoseNotificationAction,
+  registerNotificationCategories,
+} from "@/utils/notifications";
+import { registerBackgroundTasks } from "@/utils/backgroundTasks";
 
 const theme = {
   ...MD3LightTheme,
@@ -80,16 +88,27 @@ function useNotificationObserver() {
       }
     }
 
+    // Take / Snooze / Skip are logged without opening a screen
+    async function handleResponse(response: Notifications.NotificationResponse) {
+      const handled = await handleDoseNotificationAction(response);
+      if (!handled && isMounted) {
+        redirect(response.notification);
+      }
+    }
+
+    registerNotificationCategories();
+    registerBackgroundTasks();
+
     Notifications.getLastNotificationResponseAsync()
       .then(response => {
         if (!isMounted || !response?.notification) {
           return;
         }
-        redirect(response?.notification);
+        handleResponse(response);
       });
 
     const subscription = Notifications.addNotificationResponseReceivedListener(response => {
-      redirect(response.notification);
+      handleResponse(response);
     });
 
     return () => {
@@ -165,6 +184,9 @@ export default function Layout() {
   useNotificationObserver();
   useUpdateChecker();
   useWidgetUpdates(); // Auto-update widgets when app becomes active
+  useMissedDoseDetection();
+  useDoseEscalation();
+  useReminderReplanning();
 
   return (
     <PaperProvider theme={theme}>
@@ -209,6 +231,38 @@ export default function Layout() {
             headerBackVisible: true,
           }}
         />
+        <Stack.Screen
+          name="medications/edit"
+          options={{
+            headerShown: true,
+            title: "Edit Medication",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="prescriptions/index"
+          options={{
+            headerShown: true,
+            title: "Prescriptions",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="prescriptions/details"
+          options={{
+            headerShown: true,
+            title: "Prescription",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="prescriptions/review"
+          options={{
+            headerShown: true,
+            title: "Review Medications",
+            headerBackVisible: true,
+          }}
+        />
         <Stack.Screen
           name="refills/index"
           options={{
@@ -233,6 +287,62 @@ export default function Layout() {
             headerBackVisible: true,
           }}
         />
+        <Stack.Screen
+          name="adherence/index"
+          options={{
+            headerShown: true,
+            title: "Adherence",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="interactions/index"
+          options={{
+            headerShown: true,
+            title: "Interactions",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="people/index"
+          options={{
+            headerShown: true,
+            title: "People",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="archive/index"
+          options={{
+            headerShown: true,
+            title: "Course Archive",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="backup/index"
+          options={{
+            headerShown: true,
+            title: "Backup & Restore",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="trash/index"
+          options={{
+            headerShown: true,
+            title: "Trash",
+            headerBackVisible: true,
+          }}
+        />
+        <Stack.Screen
+          name="diagnostics/index"
+          options={{
+            headerShown: true,
+            title: "Data Check",
+            headerBackVisible: true,
+          }}
+        />
         <Stack.Screen
           name="test"
           options={{
@@ -0,0 +1,278 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { getDoseHistory, getMedications } from "../../utils/storage";
+import { getMissedDoseGraceMinutes } from "../../utils/doseStatus";
+import {
+  ADHERENCE_PERIODS,
+  AdherenceReport,
+  AdherenceStats,
+  formatDelay,
+  getAdherenceColor,
+  getAdherenceReport,
+} from "../../utils/adherence";
+
+function PercentageRow({ stats }: { stats: AdherenceStats }) {
+  return (
+    <View style={styles.percentageRow}>
+      {ADHERENCE_PERIODS.map((period) => (
+        <View key={period} style={styles.percentageTile}>
+          <Text
+            style={[
+              styles.percentageValue,
+              { color: getAdherenceColor(stats.percentages[period]) },
+            ]}
+          >
+            {stats.percentages[period] === null
+              ? "—"
+              : `${stats.percentages[period]}%`}
+          </Text>
+          <Text style={styles.percentageLabel}>{period} days</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export default function AdherenceScreen() {
+  const [report, setReport] = useState<AdherenceReport | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      const [medications, history, graceMinutes] = await Promise.all([
+        getMedications(),
+        getDoseHistory(),
+        getMissedDoseGraceMinutes(),
+      ]);
+      setReport(getAdherenceReport(medications, history, graceMinutes));
+    } catch (error) {
+      console.error("Error loading adherence:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReport();
+    }, [loadReport])
+  );
+
+  if (!report) {
+    return <View style={styles.container} />;
+  }
+
+  if (report.overall.due === 0) {
+    return (
+      <View style={[styles.container, styles.emptyState]}>
+        <Ionicons name="analytics-outline" size={48} color="#ccc" />
+        <Text style={styles.emptyStateText}>
+          Adherence appears once scheduled doses are due
+        </Text>
+      </View>
+    );
+  }
+
+  const { overall } = report;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Overall adherence</Text>
+        <PercentageRow stats={overall} />
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <Ionicons name="flame" size={20} color="#FF5722" />
+            <Text style={styles.statValue}>{overall.currentStreak}</Text>
+            <Text style={styles.statLabel}>Current streak</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Ionicons name="trophy" size={20} color="#FFC107" />
+            <Text style={styles.statValue}>{overall.longestStreak}</Text>
+            <Text style={styles.statLabel}>Longest streak</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Ionicons name="time" size={20} color="#2196F3" />
+            <Text style={styles.statValue}>
+              {formatDelay(overall.averageDelayMinutes)}
+            </Text>
+            <Text style={styles.statLabel}>Average timing</Text>
+          </View>
+        </View>
+        <Text style={styles.countsText}>
+          Last 90 days: {overall.taken} taken · {overall.skipped} skipped ·{" "}
+          {overall.missed} missed
+        </Text>
+      </View>
+
+      {report.insights.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Patterns</Text>
+          {report.insights.map((insight) => (
+            <View key={insight} style={styles.insightRow}>
+              <Ionicons name="bulb-outline" size={18} color="#1a8e2d" />
+              <Text style={styles.insightText}>{insight}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>By medication</Text>
+      {report.perMedication.map(({ medication, stats }) => (
+        <View key={medication.id} style={styles.medicationCard}>
+          <View
+            style={[
+              styles.medicationColor,
+              { backgroundColor: medication.color },
+            ]}
+          />
+          <View style={styles.medicationInfo}>
+            <Text style={styles.medicationName}>{medication.name}</Text>
+            <PercentageRow stats={stats} />
+            <Text style={styles.countsText}>
+              Streak {stats.currentStreak} days (best {stats.longestStreak}) ·{" "}
+              {formatDelay(stats.averageDelayMinutes)}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  emptyState: {
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 30,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: "#666",
+    marginTop: 10,
+    textAlign: "center",
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1a1a1a",
+    marginBottom: 12,
+  },
+  percentageRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  percentageTile: {
+    flex: 1,
+    alignItems: "center",
+  },
+  percentageValue: {
+    fontSize: 22,
+    fontWeight: "700",
+  },
+  percentageLabel: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 2,
+  },
+  statsRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#f0f0f0",
+  },
+  statItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 4,
+  },
+  statLabel: {
+    fontSize: 11,
+    color: "#666",
+    marginTop: 2,
+  },
+  countsText: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 10,
+  },
+  insightRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginBottom: 8,
+  },
+  insightText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#333",
+    marginLeft: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1a1a1a",
+    marginBottom: 12,
+    marginTop: 4,
+  },
+  medicationCard: {
+    flexDirection: "row",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 15,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  medicationColor: {
+    width: 12,
+    borderRadius: 6,
+    marginRight: 15,
+  },
+  medicationInfo: {
+    flex: 1,
+  },
+  medicationName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 10,
+  },
+});
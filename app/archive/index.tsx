@@ -0,0 +1,261 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { router } from "expo-router";
+import { getMedications, Medication } from "../../utils/storage";
+import { getCourseStatus, isCourseEnded } from "../../utils/schedule";
+import {
+  COURSE_STATUS_DISPLAY,
+  restartCourse,
+  resumeCourse,
+} from "../../utils/course";
+
+export default function CourseArchiveScreen() {
+  const [paused, setPaused] = useState<Medication[]>([]);
+  const [archived, setArchived] = useState<Medication[]>([]);
+
+  const loadCourses = useCallback(async () => {
+    try {
+      const medications = await getMedications();
+      setPaused(medications.filter((med) => getCourseStatus(med) === "paused"));
+      setArchived(
+        medications
+          .filter(isCourseEnded)
+          .sort(
+            (a, b) =>
+              new Date(b.endedAt ?? 0).getTime() - new Date(a.endedAt ?? 0).getTime()
+          )
+      );
+    } catch (error) {
+      console.error("Error loading courses:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCourses();
+    }, [loadCourses])
+  );
+
+  const handleResume = async (medication: Medication) => {
+    try {
+      await resumeCourse(medication.id);
+      await loadCourses();
+    } catch (error) {
+      console.error("Error resuming course:", error);
+      Alert.alert("Error", "Failed to resume the course. Please try again.");
+    }
+  };
+
+  const handleRestart = (medication: Medication) => {
+    Alert.alert(
+      `Restart ${medication.name}?`,
+      "The course starts again from today with the same dosage and times. Reminders are turned back on.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Restart",
+          onPress: async () => {
+            try {
+              await restartCourse(medication.id);
+              await loadCourses();
+            } catch (error) {
+              console.error("Error restarting course:", error);
+              Alert.alert("Error", "Failed to restart the course. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCourse = (medication: Medication) => {
+    const display = COURSE_STATUS_DISPLAY[getCourseStatus(medication)];
+    const ended = isCourseEnded(medication);
+    return (
+      <View key={medication.id} style={styles.courseCard}>
+        <TouchableOpacity
+          style={styles.courseInfo}
+          onPress={() =>
+            router.push({
+              pathname: "/medications/edit",
+              params: { id: medication.id },
+            })
+          }
+        >
+          <View style={[styles.medicationColor, { backgroundColor: medication.color }]} />
+          <View style={styles.flex1}>
+            <Text style={styles.medicationName}>{medication.name}</Text>
+            <Text style={styles.courseMeta}>
+              {medication.dosage} · {new Date(medication.startDate).toLocaleDateString()}
+              {ended && medication.endedAt
+                ? ` – ${new Date(medication.endedAt).toLocaleDateString()}`
+                : ""}
+            </Text>
+            <View style={styles.statusRow}>
+              <View style={[styles.statusBadge, { backgroundColor: display.backgroundColor }]}>
+                <Ionicons name={display.icon} size={14} color={display.color} />
+                <Text style={[styles.statusText, { color: display.color }]}>
+                  {display.label}
+                </Text>
+              </View>
+              {!!medication.discontinuedReason && (
+                <Text style={styles.reasonText}>{medication.discontinuedReason}</Text>
+              )}
+            </View>
+          </View>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => (ended ? handleRestart(medication) : handleResume(medication))}
+        >
+          <Ionicons name={ended ? "refresh" : "play"} size={16} color="white" />
+          <Text style={styles.actionButtonText}>{ended ? "Restart" : "Resume"}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      {paused.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Paused</Text>
+          {paused.map(renderCourse)}
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Finished courses</Text>
+      {archived.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="archive-outline" size={48} color="#ccc" />
+          <Text style={styles.emptyStateText}>
+            Completed and discontinued courses will appear here
+          </Text>
+        </View>
+      ) : (
+        archived.map(renderCourse)
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  courseCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  courseInfo: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  medicationColor: {
+    width: 12,
+    height: 40,
+    borderRadius: 6,
+    marginRight: 14,
+  },
+  flex1: {
+    flex: 1,
+  },
+  medicationName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  courseMeta: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 6,
+  },
+  statusBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  reasonText: {
+    fontSize: 12,
+    color: "#999",
+    fontStyle: "italic",
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    gap: 4,
+    marginLeft: 10,
+  },
+  actionButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 30,
+    backgroundColor: "white",
+    borderRadius: 16,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 10,
+    textAlign: "center",
+  },
+});
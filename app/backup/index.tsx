@@ -0,0 +1,402 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import {
+  BackupData,
+  exportBackup,
+  getBackupPreview,
+  MIN_BACKUP_PASSWORD_LENGTH,
+  readBackupFile,
+  restoreBackup,
+  RestoreMode,
+} from "../../utils/backup";
+
+export default function BackupScreen() {
+  const [exportPassword, setExportPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [exporting, setExporting] = useState(false);
+
+  const [file, setFile] = useState<{ uri: string; name: string } | null>(null);
+  const [importPassword, setImportPassword] = useState("");
+  const [backup, setBackup] = useState<BackupData | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const preview = backup ? getBackupPreview(backup) : null;
+
+  const handleExport = async () => {
+    if (exportPassword.length < MIN_BACKUP_PASSWORD_LENGTH) {
+      Alert.alert(
+        "Error",
+        `Use a password of at least ${MIN_BACKUP_PASSWORD_LENGTH} characters`
+      );
+      return;
+    }
+    if (exportPassword !== confirmPassword) {
+      Alert.alert("Error", "The passwords don't match");
+      return;
+    }
+
+    setExporting(true);
+    try {
+      await exportBackup(exportPassword);
+      setExportPassword("");
+      setConfirmPassword("");
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        error instanceof Error ? error.message : "Failed to create the backup."
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const resetRestore = () => {
+    setFile(null);
+    setImportPassword("");
+    setBackup(null);
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["application/json", "*/*"],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+      const asset = result.assets[0];
+      setFile({ uri: asset.uri, name: asset.name });
+      setBackup(null);
+    } catch (error) {
+      console.error("Error picking backup file:", error);
+      Alert.alert("Error", "Couldn't open the file. Please try again.");
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!file) return;
+    setBusy(true);
+    try {
+      setBackup(await readBackupFile(file.uri, importPassword));
+    } catch (error) {
+      Alert.alert(
+        "Couldn't open backup",
+        error instanceof Error ? error.message : "Please try again."
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runRestore = async (mode: RestoreMode) => {
+    if (!backup) return;
+    setBusy(true);
+    try {
+      await restoreBackup(backup, mode);
+      resetRestore();
+      Alert.alert("Restored", "Your backup has been restored.");
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      Alert.alert("Error", "Failed to restore the backup. Please try again.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (mode === "merge") {
+      Alert.alert(
+        "Merge backup?",
+        "Medications, doses and readings missing from this phone are added. Nothing already here is changed.",
+        [
+          { text: "Cancel", style: "cancel" },
+          { text: "Merge", onPress: () => runRestore("merge") },
+        ]
+      );
+      return;
+    }
+    Alert.alert(
+      "Replace everything?",
+      "All medications, dose history, vitals, profiles and goals on this phone are deleted and replaced with the backup. This can't be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Replace", style: "destructive", onPress: () => runRestore("replace") },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    >
+      <Text style={styles.summaryText}>
+        A backup holds everyone's medications, dose history, profiles, vitals
+        and goals in one file locked with a password. Keep the password safe:
+        the backup can't be opened without it.
+      </Text>
+
+      <Text style={styles.sectionTitle}>Create a backup</Text>
+      <View style={styles.card}>
+        <TextInput
+          style={styles.input}
+          placeholder="Password"
+          placeholderTextColor="#999"
+          secureTextEntry
+          autoCapitalize="none"
+          value={exportPassword}
+          onChangeText={setExportPassword}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Confirm password"
+          placeholderTextColor="#999"
+          secureTextEntry
+          autoCapitalize="none"
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+        />
+        <TouchableOpacity
+          style={[styles.primaryButton, exporting && styles.buttonDisabled]}
+          onPress={handleExport}
+          disabled={exporting}
+        >
+          {exporting ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <>
+              <Ionicons name="share-outline" size={18} color="white" />
+              <Text style={styles.primaryButtonText}>Export & Share</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.sectionTitle}>Restore a backup</Text>
+      <View style={styles.card}>
+        <TouchableOpacity style={styles.fileButton} onPress={handlePickFile}>
+          <Ionicons name="document-outline" size={20} color="#1a8e2d" />
+          <Text style={styles.fileButtonText} numberOfLines={1}>
+            {file ? file.name : "Choose backup file"}
+          </Text>
+        </TouchableOpacity>
+
+        {file && !backup && (
+          <>
+            <TextInput
+              style={styles.input}
+              placeholder="Backup password"
+              placeholderTextColor="#999"
+              secureTextEntry
+              autoCapitalize="none"
+              value={importPassword}
+              onChangeText={setImportPassword}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, busy && styles.buttonDisabled]}
+              onPress={handleUnlock}
+              disabled={busy || !importPassword}
+            >
+              {busy ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <>
+                  <Ionicons name="lock-open-outline" size={18} color="white" />
+                  <Text style={styles.primaryButtonText}>Open Backup</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        {preview && (
+          <>
+            <Text style={styles.previewTitle}>
+              Backup from {new Date(preview.createdAt).toLocaleString()}
+            </Text>
+            {preview.people.map((person, index) => (
+              <View key={index} style={styles.previewRow}>
+                <Ionicons name="person-circle-outline" size={20} color="#666" />
+                <Text style={styles.previewText}>
+                  {person.name}: {person.medications} medication
+                  {person.medications === 1 ? "" : "s"}, {person.doses} dose
+                  {person.doses === 1 ? "" : "s"}, {person.vitals} reading
+                  {person.vitals === 1 ? "" : "s"}
+                </Text>
+              </View>
+            ))}
+            {preview.firstDose && preview.lastDose && (
+              <Text style={styles.previewMeta}>
+                Dose history from {new Date(preview.firstDose).toLocaleDateString()} to{" "}
+                {new Date(preview.lastDose).toLocaleDateString()}
+              </Text>
+            )}
+
+            <View style={styles.restoreActions}>
+              <TouchableOpacity
+                style={[styles.secondaryButton, busy && styles.buttonDisabled]}
+                onPress={() => handleRestore("merge")}
+                disabled={busy}
+              >
+                <Text style={styles.secondaryButtonText}>Merge</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.dangerButton, busy && styles.buttonDisabled]}
+                onPress={() => handleRestore("replace")}
+                disabled={busy}
+              >
+                <Text style={styles.primaryButtonText}>Replace</Text>
+              </TouchableOpacity>
+            </View>
+            <TouchableOpacity style={styles.cancelButton} onPress={resetRestore}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: "#333",
+    backgroundColor: "#f8f9fa",
+    marginBottom: 12,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  fileButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    borderWidth: 1,
+    borderColor: "#1a8e2d",
+    borderStyle: "dashed",
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  fileButtonText: {
+    flex: 1,
+    fontSize: 15,
+    color: "#1a8e2d",
+    fontWeight: "600",
+  },
+  previewTitle: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 8,
+  },
+  previewRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginBottom: 6,
+  },
+  previewText: {
+    flex: 1,
+    fontSize: 14,
+    color: "#333",
+  },
+  previewMeta: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 4,
+  },
+  restoreActions: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#1a8e2d",
+  },
+  secondaryButtonText: {
+    color: "#1a8e2d",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  dangerButton: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: "#F44336",
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
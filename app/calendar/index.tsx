@@ -6,26 +6,58 @@ import {
   TouchableOpacity,
   ScrollView,
   Platform,
+  Modal,
+  Alert,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
+import DateTimePicker from "@react-native-community/datetimepicker";
 import {
   getMedications,
   getDoseHistory,
+  getDoseStatus,
   recordDose,
+  updateDose,
+  deleteDose,
   Medication,
   DoseHistory,
+  DoseStatus,
 } from "../../utils/storage";
+import {
+  DOSE_STATUS_DISPLAY,
+  findSlotDose,
+  isSlotResolved,
+} from "../../utils/doseStatus";
+import {
+  formatTime,
+  parseTime,
+  startOfDay,
+  getDoseTimesForDate,
+  getDosageForDate,
+  getRegimenForDate,
+  isPastRegimen,
+  WEEKDAY_LABELS,
+} from "../../utils/schedule";
+import { cancelSlotFollowUps } from "../../utils/notifications";
 import { useFocusEffect } from "@react-navigation/native";
 
-const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+// Statuses a dose can be logged or corrected to; snoozing only makes sense from a reminder
+const EDITABLE_STATUSES: DoseStatus[] = ["taken", "skipped", "missed"];
 
 export default function CalendarScreen() {
   const router = useRouter();
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [medications, setMedications] = useState<Medication[]>([]);
   const [doseHistory, setDoseHistory] = useState<DoseHistory[]>([]);
+  const [doseEditor, setDoseEditor] = useState<{
+    medication: Medication;
+    time?: string; // The scheduled slot, missing for as-needed doses
+    dose?: DoseHistory; // The entry being corrected, missing when logging a new one
+  } | null>(null);
+  const [editorStatus, setEditorStatus] = useState<DoseStatus>("taken");
+  const [editorTime, setEditorTime] = useState(new Date());
+  const [showTimePicker, setShowTimePicker] = useState(false);
 
   const loadData = useCallback(async () => {
     try {
@@ -56,6 +88,79 @@ export default function CalendarScreen() {
 
   const { days, firstDay } = getDaysInMonth(selectedDate);
 
+  const openDoseEditor = (medication: Medication, time?: string, dose?: DoseHistory) => {
+    let moment = new Date();
+    if (dose) {
+      moment = new Date(dose.timestamp);
+    } else if (time) {
+      const { hours, minutes } = parseTime(time);
+      const slot = new Date(selectedDate);
+      slot.setHours(hours, minutes, 0, 0);
+      if (slot < moment) moment = slot;
+    }
+
+    const status = dose ? getDoseStatus(dose) : "taken";
+    setEditorStatus(EDITABLE_STATUSES.includes(status) ? status : "taken");
+    setEditorTime(moment);
+    setShowTimePicker(false);
+    setDoseEditor({ medication, time, dose });
+  };
+
+  const handleSaveDose = async () => {
+    if (!doseEditor) return;
+    if (editorTime > new Date()) {
+      Alert.alert("Error", "A dose can't be logged for a time that hasn't come yet");
+      return;
+    }
+
+    const { medication, time, dose } = doseEditor;
+    try {
+      if (dose) {
+        await updateDose(medication.id, dose.id, {
+          status: editorStatus,
+          timestamp: editorTime.toISOString(),
+        });
+      } else {
+        await recordDose(medication.id, editorStatus, editorTime.toISOString(), time);
+      }
+      if (time && isSlotResolved(editorStatus)) {
+        await cancelSlotFollowUps(medication.id, time, selectedDate);
+      }
+      setDoseEditor(null);
+      loadData();
+    } catch (error) {
+      console.error("Error saving dose:", error);
+      Alert.alert("Error", "Failed to save the dose. Please try again.");
+    }
+  };
+
+  const handleDeleteDose = () => {
+    if (!doseEditor?.dose) return;
+    const { medication, dose } = doseEditor;
+
+    Alert.alert(
+      "Delete Entry",
+      `Remove this ${medication.name} entry from your history?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteDose(medication.id, dose.id);
+              setDoseEditor(null);
+              loadData();
+            } catch (error) {
+              console.error("Error deleting dose:", error);
+              Alert.alert("Error", "Failed to delete the entry. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const renderCalendar = () => {
     const calendar: JSX.Element[] = [];
     let week: JSX.Element[] = [];
@@ -117,8 +222,8 @@ export default function CalendarScreen() {
   const renderMedicationsForDate = () => {
     const dateStr = selectedDate.toDateString();
     const isToday = new Date().toDateString() === dateStr;
-    const isPastOrFuture = !isToday;
-    
+    const isFuture = startOfDay(selectedDate) > startOfDay(new Date());
+
     const dayDoses = doseHistory.filter(
       (dose) => new Date(dose.timestamp).toDateString() === dateStr
     );
@@ -126,21 +231,20 @@ export default function CalendarScreen() {
     const medicationCards: JSX.Element[] = [];
 
     medications.forEach((medication) => {
-      // Skip "As needed" medications or medications with no scheduled times
-      if (!medication.times || medication.times.length === 0) {
-        return;
-      }
+      // Days before an edit use the regimen that was active back then
+      const regimen = getRegimenForDate(medication, selectedDate);
+      const earlierRegimen = isPastRegimen(medication, selectedDate);
+
+      // Skips "As needed" medications and days the schedule has no doses on
+      const times = getDoseTimesForDate(regimen, selectedDate);
+      const dosage = getDosageForDate(regimen, selectedDate);
 
       // Create a card for each scheduled time
-      medication.times.forEach((time, timeIndex) => {
+      times.forEach((time) => {
         const timeSlotId = `${medication.id}-${time}`;
-        const taken = dayDoses.some(
-          (dose) => 
-            dose.medicationId === medication.id && 
-            dose.taken &&
-            (dose.scheduledTime === time || 
-             new Date(dose.timestamp).toTimeString().slice(0, 5) === time)
-        );
+        const slotDose = findSlotDose(dayDoses, medication.id, selectedDate, time);
+        const status = slotDose ? getDoseStatus(slotDose) : undefined;
+        const statusDisplay = status ? DOSE_STATUS_DISPLAY[status] : null;
 
         medicationCards.push(
           <View key={timeSlotId} style={styles.medicationCard}>
@@ -152,23 +256,43 @@ export default function CalendarScreen() {
             />
             <View style={styles.medicationInfo}>
               <Text style={styles.medicationName}>{medication.name}</Text>
-              <Text style={styles.medicationDosage}>{medication.dosage}</Text>
+              <Text style={styles.medicationDosage}>{dosage}</Text>
+              {earlierRegimen && (
+                <Text style={styles.regimenNote}>Earlier regimen</Text>
+              )}
               <View style={styles.timeContainer}>
                 <Ionicons name="time-outline" size={16} color="#666" />
                 <Text style={styles.medicationTime}>{time}</Text>
               </View>
             </View>
-            {taken ? (
-              <View style={styles.takenBadge}>
-                <Ionicons name="checkmark-circle" size={20} color="#4CAF50" />
-                <Text style={styles.takenText}>Taken</Text>
-              </View>
-            ) : isPastOrFuture ? (
-              <View style={styles.disabledBadge}>
-                <Text style={styles.disabledText}>
-                  {new Date(dateStr) < new Date() ? "Past" : "Future"}
+            {slotDose && statusDisplay && (!isToday || isSlotResolved(status)) ? (
+              <TouchableOpacity
+                style={[
+                  styles.takenBadge,
+                  { backgroundColor: statusDisplay.backgroundColor },
+                ]}
+                onPress={() => openDoseEditor(medication, time, slotDose)}
+              >
+                <Ionicons
+                  name={statusDisplay.icon}
+                  size={20}
+                  color={statusDisplay.color}
+                />
+                <Text style={[styles.takenText, { color: statusDisplay.color }]}>
+                  {statusDisplay.label}
                 </Text>
+              </TouchableOpacity>
+            ) : isFuture ? (
+              <View style={styles.disabledBadge}>
+                <Text style={styles.disabledText}>Future</Text>
               </View>
+            ) : !isToday ? (
+              <TouchableOpacity
+                style={[styles.logDoseButton, { borderColor: medication.color }]}
+                onPress={() => openDoseEditor(medication, time)}
+              >
+                <Text style={[styles.logDoseText, { color: medication.color }]}>Log</Text>
+              </TouchableOpacity>
             ) : (
               <TouchableOpacity
                 style={[
@@ -181,11 +305,14 @@ export default function CalendarScreen() {
                   const [hours, minutes] = time.split(':').map(Number);
                   const scheduledTime = new Date(today.getFullYear(), today.getMonth(), today.getDate(), hours, minutes);
                   
-                  await recordDose(medication.id, true, scheduledTime.toISOString(), time);
+                  await recordDose(medication.id, "taken", scheduledTime.toISOString(), time);
+                  await cancelSlotFollowUps(medication.id, time);
                   loadData();
                 }}
               >
-                <Text style={styles.takeDoseText}>Take</Text>
+                <Text style={styles.takeDoseText}>
+                  {statusDisplay ? `Take (${statusDisplay.label})` : "Take"}
+                </Text>
               </TouchableOpacity>
             )}
           </View>
@@ -193,6 +320,42 @@ export default function CalendarScreen() {
       });
     });
 
+    // As-needed doses have no slot, list each one that was logged on this day
+    dayDoses
+      .filter((dose) => dose.asNeeded)
+      .forEach((dose) => {
+        const medication = medications.find((med) => med.id === dose.medicationId);
+        if (!medication) return;
+
+        medicationCards.push(
+          <View key={dose.id} style={styles.medicationCard}>
+            <View
+              style={[
+                styles.medicationColor,
+                { backgroundColor: medication.color },
+              ]}
+            />
+            <View style={styles.medicationInfo}>
+              <Text style={styles.medicationName}>{medication.name}</Text>
+              <Text style={styles.medicationDosage}>{medication.dosage}</Text>
+              <View style={styles.timeContainer}>
+                <Ionicons name="time-outline" size={16} color="#666" />
+                <Text style={styles.medicationTime}>
+                  {formatTime(new Date(dose.timestamp))}
+                </Text>
+              </View>
+            </View>
+            <TouchableOpacity
+              style={styles.asNeededBadge}
+              onPress={() => openDoseEditor(medication, undefined, dose)}
+            >
+              <Ionicons name="hand-left-outline" size={18} color="#1976D2" />
+              <Text style={styles.asNeededText}>As needed</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      });
+
     if (medicationCards.length === 0) {
       return (
         <View style={styles.noMedicationsContainer}>
@@ -246,7 +409,7 @@ export default function CalendarScreen() {
         </View>
 
         <View style={styles.weekdayHeader}>
-          {WEEKDAYS.map((day) => (
+          {WEEKDAY_LABELS.map((day) => (
             <Text key={day} style={styles.weekdayText}>
               {day}
             </Text>
@@ -268,6 +431,109 @@ export default function CalendarScreen() {
           {renderMedicationsForDate()}
         </ScrollView>
       </View>
+
+      <Modal
+        visible={doseEditor !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setDoseEditor(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {doseEditor?.dose ? "Edit Dose" : "Log Dose"}
+              </Text>
+              <TouchableOpacity
+                onPress={() => setDoseEditor(null)}
+                style={styles.closeButton}
+              >
+                <Ionicons name="close" size={24} color="#333" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalSubtitle}>
+              {doseEditor?.medication.name}
+              {doseEditor?.time ? ` · scheduled ${doseEditor.time}` : " · as needed"}
+            </Text>
+
+            {!doseEditor?.dose?.asNeeded && (
+              <View style={styles.statusOptions}>
+                {EDITABLE_STATUSES.map((status) => {
+                  const display = DOSE_STATUS_DISPLAY[status];
+                  const selected = editorStatus === status;
+                  return (
+                    <TouchableOpacity
+                      key={status}
+                      style={[
+                        styles.statusOption,
+                        selected && {
+                          backgroundColor: display.backgroundColor,
+                          borderColor: display.color,
+                        },
+                      ]}
+                      onPress={() => setEditorStatus(status)}
+                    >
+                      <Ionicons
+                        name={display.icon}
+                        size={18}
+                        color={selected ? display.color : "#999"}
+                      />
+                      <Text
+                        style={[
+                          styles.statusOptionText,
+                          selected && { color: display.color },
+                        ]}
+                      >
+                        {display.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={styles.timeButton}
+              onPress={() => setShowTimePicker(true)}
+            >
+              <Ionicons name="time-outline" size={20} color="#1a8e2d" />
+              <Text style={styles.timeButtonText}>
+                {editorStatus === "taken" ? "Taken at" : "Logged at"}{" "}
+                {formatTime(editorTime)}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color="#666" />
+            </TouchableOpacity>
+            {showTimePicker && (
+              <DateTimePicker
+                value={editorTime}
+                mode="time"
+                onChange={(event, date) => {
+                  setShowTimePicker(false);
+                  if (date) {
+                    // Only the time changes, the dose stays on the selected day
+                    const moment = new Date(editorTime);
+                    moment.setHours(date.getHours(), date.getMinutes(), 0, 0);
+                    setEditorTime(moment);
+                  }
+                }}
+              />
+            )}
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveDose}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+            {doseEditor?.dose && (
+              <TouchableOpacity
+                style={styles.deleteButton}
+                onPress={handleDeleteDose}
+              >
+                <Ionicons name="trash-outline" size={18} color="#F44336" />
+                <Text style={styles.deleteButtonText}>Delete entry</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -434,6 +700,12 @@ const styles = StyleSheet.create({
     color: "#333",
     marginBottom: 4,
   },
+  regimenNote: {
+    fontSize: 12,
+    color: "#FF9800",
+    fontStyle: "italic",
+    marginBottom: 4,
+  },
   medicationDosage: {
     fontSize: 14,
     color: "#666",
@@ -473,6 +745,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginLeft: 4,
   },
+  asNeededBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#E3F2FD",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  asNeededText: {
+    color: "#1976D2",
+    fontWeight: "600",
+    fontSize: 14,
+    marginLeft: 4,
+  },
   disabledBadge: {
     backgroundColor: "#f5f5f5",
     paddingHorizontal: 12,
@@ -486,6 +772,106 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     fontSize: 14,
   },
+  logDoseButton: {
+    paddingVertical: 7,
+    paddingHorizontal: 15,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  logDoseText: {
+    fontWeight: "600",
+    fontSize: 14,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: "80%",
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 20,
+  },
+  closeButton: {
+    padding: 5,
+  },
+  statusOptions: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 15,
+  },
+  statusOption: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  statusOptionText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    marginLeft: 4,
+  },
+  timeButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: 15,
+    borderRadius: 12,
+    backgroundColor: "#f8f9fa",
+    marginBottom: 20,
+  },
+  timeButtonText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#333",
+    marginLeft: 10,
+  },
+  saveButton: {
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  deleteButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 14,
+    marginTop: 4,
+  },
+  deleteButtonText: {
+    color: "#F44336",
+    fontSize: 15,
+    fontWeight: "600",
+    marginLeft: 6,
+  },
   noMedicationsContainer: {
     alignItems: "center",
     justifyContent: "center",
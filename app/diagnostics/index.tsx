@@ -0,0 +1,253 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import {
+  checkIntegrity,
+  describeIssue,
+  describeRepair,
+  IntegrityIssue,
+  IntegrityReport,
+  repairIssues,
+} from "../../utils/diagnostics";
+
+const ISSUE_ICONS: Record<IntegrityIssue["type"], keyof typeof Ionicons.glyphMap> = {
+  orphanedDoses: "document-text-outline",
+  orphanedNotifications: "notifications-off-outline",
+  supplyOutOfRange: "cube-outline",
+  staleHealthRecordIds: "fitness-outline",
+};
+
+export default function DiagnosticsScreen() {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [repairing, setRepairing] = useState(false);
+
+  const runCheck = useCallback(async () => {
+    setChecking(true);
+    try {
+      setReport(await checkIntegrity());
+    } catch (error) {
+      console.error("Error checking data:", error);
+      Alert.alert("Error", "Failed to check your data. Please try again.");
+    } finally {
+      setChecking(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      runCheck();
+    }, [runCheck])
+  );
+
+  const handleRepair = async () => {
+    if (!report) return;
+    setRepairing(true);
+    try {
+      const repaired = await repairIssues(report.issues);
+      const failed = report.issues.length - repaired;
+      await runCheck();
+      Alert.alert(
+        failed === 0 ? "Repaired" : "Partly repaired",
+        failed === 0
+          ? `Fixed ${repaired} issue${repaired === 1 ? "" : "s"}.`
+          : `Fixed ${repaired} of ${report.issues.length} issues. Try again to fix the rest.`
+      );
+    } finally {
+      setRepairing(false);
+    }
+  };
+
+  const issues = report?.issues ?? [];
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      <Text style={styles.summaryText}>
+        Checks medications, dose history, scheduled reminders and saved Health
+        Connect records for everyone on this phone, and fixes what doesn't add
+        up. Dose logs removed by a repair go to the trash.
+      </Text>
+
+      {checking && !report ? (
+        <View style={styles.emptyState}>
+          <ActivityIndicator color="#1a8e2d" />
+          <Text style={styles.emptyStateText}>Checking your data…</Text>
+        </View>
+      ) : issues.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="checkmark-circle-outline" size={48} color="#1a8e2d" />
+          <Text style={styles.emptyStateText}>No problems found</Text>
+        </View>
+      ) : (
+        <>
+          <Text style={styles.sectionTitle}>
+            {issues.length} problem{issues.length === 1 ? "" : "s"} found
+          </Text>
+          {issues.map((issue, index) => (
+            <View key={index} style={styles.issueCard}>
+              <View style={styles.iconContainer}>
+                <Ionicons name={ISSUE_ICONS[issue.type]} size={20} color="#FF9800" />
+              </View>
+              <View style={styles.flex1}>
+                <Text style={styles.issueText}>{describeIssue(issue)}</Text>
+                <Text style={styles.repairText}>{describeRepair(issue)}</Text>
+              </View>
+            </View>
+          ))}
+          <TouchableOpacity
+            style={[styles.primaryButton, (repairing || checking) && styles.buttonDisabled]}
+            onPress={handleRepair}
+            disabled={repairing || checking}
+          >
+            {repairing ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <>
+                <Ionicons name="construct-outline" size={18} color="white" />
+                <Text style={styles.primaryButtonText}>Repair All</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+
+      {report && report.skipped.length > 0 && (
+        <View style={styles.noteCard}>
+          <Ionicons name="information-circle-outline" size={18} color="#666" />
+          <Text style={styles.noteText}>Not checked: {report.skipped.join("; ")}</Text>
+        </View>
+      )}
+
+      {report && (
+        <TouchableOpacity
+          style={styles.recheckButton}
+          onPress={runCheck}
+          disabled={checking || repairing}
+        >
+          <Text style={styles.recheckButtonText}>
+            {checking ? "Checking…" : "Check again"}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginBottom: 10,
+  },
+  issueCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: "#FFF3E0",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  flex1: {
+    flex: 1,
+  },
+  issueText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  repairText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 30,
+    backgroundColor: "white",
+    borderRadius: 16,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 10,
+    textAlign: "center",
+  },
+  noteCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 16,
+  },
+  noteText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#666",
+  },
+  recheckButton: {
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  recheckButtonText: {
+    color: "#1a8e2d",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -22,6 +22,7 @@ import {
 } from "@/utils/healthUtils"
 import { Appbar } from "react-native-paper"
 import { router } from "expo-router"
+import { getVital, saveVital } from "@/utils/vitals"
 
 const { width, height } = Dimensions.get("window")
 
@@ -106,11 +107,6 @@ export default function HeartRateScreen() {
   const [selectedDayData, setSelectedDayData] = useState<DayDetailData | null>(null)
   const [loadingDayDetail, setLoadingDayDetail] = useState(false)
 
-  const getTodayKey = () => {
-    const today = new Date()
-    return `hr_${today.getFullYear()}_${today.getMonth()}_${today.getDate()}`
-  }
-
   // Check if we can write heart rate data
   const canWriteHeartRate = (): boolean => {
     return healthPermissions.some(
@@ -587,11 +583,9 @@ export default function HeartRateScreen() {
   // Load saved heart rate for today
   const loadHeartRate = async () => {
     try {
-      const todayKey = getTodayKey()
-      const savedHR = await AsyncStorage.getItem(todayKey)
-      if (savedHR) {
-        const hrData = JSON.parse(savedHR)
-        setHeartRate(hrData.heartRate || 72)
+      const savedHR = await getVital("heartRate")
+      if (savedHR !== null) {
+        setHeartRate(savedHR || 72)
       }
     } catch (error) {
       console.error("Error loading heart rate:", error)
@@ -601,9 +595,7 @@ export default function HeartRateScreen() {
   // Save heart rate
   const saveHeartRate = async (bpm: number) => {
     try {
-      const todayKey = getTodayKey()
-      const hrData = { heartRate: bpm }
-      await AsyncStorage.setItem(todayKey, JSON.stringify(hrData))
+      await saveVital("heartRate", bpm)
     } catch (error) {
       console.error("Error saving heart rate:", error)
     }
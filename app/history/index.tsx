@@ -9,34 +9,69 @@ import {
 } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect } from "@react-navigation/native";
+import { router } from "expo-router";
 import {
   getDoseHistory,
   getMedications,
   DoseHistory,
   Medication,
   clearAllData,
+  getDoseStatus,
+  getEscalationLog,
+  EscalationEntry,
 } from "../../utils/storage";
+import {
+  DOSE_STATUS_DISPLAY,
+  GRACE_MINUTE_OPTIONS,
+  getMissedDoseGraceMinutes,
+  setMissedDoseGraceMinutes,
+} from "../../utils/doseStatus";
+import { getDosageForDate, getRegimenForDate } from "../../utils/schedule";
+import { describeEscalation } from "../../utils/escalation";
+import { cancelMedicationReminders } from "../../utils/notifications";
+import { TRASH_RETENTION_DAYS } from "../../utils/trash";
+
+type EnrichedDoseHistory = DoseHistory & {
+  medication?: Medication;
+  escalations: EscalationEntry[];
+};
+type HistoryFilter = "all" | "taken" | "skipped" | "missed";
 
-type EnrichedDoseHistory = DoseHistory & { medication?: Medication };
+const FILTERS: { value: HistoryFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "taken", label: "Taken" },
+  { value: "skipped", label: "Skipped" },
+  { value: "missed", label: "Missed" },
+];
 
 export default function HistoryScreen() {
   const [history, setHistory] = useState<EnrichedDoseHistory[]>([]);
-  const [selectedFilter, setSelectedFilter] = useState<"all" | "taken" | "missed">("all");
+  const [selectedFilter, setSelectedFilter] = useState<HistoryFilter>("all");
+  const [graceMinutes, setGraceMinutes] = useState<number | null>(null);
 
   const loadHistory = useCallback(async () => {
     try {
-      const [doseHistory, medications] = await Promise.all([
+      const [doseHistory, medications, escalationLog] = await Promise.all([
         getDoseHistory(),
         getMedications(),
+        getEscalationLog(),
       ]);
 
-      // Combine history with medication details
+      // Combine history with medication details and the escalations of each slot
       const enrichedHistory = doseHistory.map((dose) => ({
         ...dose,
         medication: medications.find((med) => med.id === dose.medicationId),
+        escalations: escalationLog.filter(
+          (entry) =>
+            entry.medicationId === dose.medicationId &&
+            entry.scheduledTime === dose.scheduledTime &&
+            new Date(entry.slot).toDateString() ===
+              new Date(dose.timestamp).toDateString()
+        ),
       }));
 
       setHistory(enrichedHistory);
+      setGraceMinutes(await getMissedDoseGraceMinutes());
     } catch (error) {
       console.error("Error loading history:", error);
     }
@@ -48,8 +83,13 @@ export default function HistoryScreen() {
     }, [loadHistory])
   );
 
+  const filteredHistory = history.filter((dose) => {
+    if (selectedFilter === "all") return true;
+    return getDoseStatus(dose) === selectedFilter;
+  });
+
   const groupHistoryByDate = () => {
-    const grouped = history.reduce((acc, dose) => {
+    const grouped = filteredHistory.reduce((acc, dose) => {
       const date = new Date(dose.timestamp).toDateString();
       if (!acc[date]) {
         acc[date] = [];
@@ -63,19 +103,17 @@ export default function HistoryScreen() {
     );
   };
 
-  // const filteredHistory = history.filter((dose) => {
-  //   if (selectedFilter === "all") return true;
-  //   if (selectedFilter === "taken") return dose.taken;
-  //   if (selectedFilter === "missed") return !dose.taken;
-  //   return true;
-  // });
+  const handleGraceChange = async (minutes: number) => {
+    setGraceMinutes(minutes);
+    await setMissedDoseGraceMinutes(minutes);
+  };
 
   const groupedHistory = groupHistoryByDate();
 
   const handleClearAllData = () => {
     Alert.alert(
       "Clear All Data",
-      "Are you sure you want to clear all medication data? This action cannot be undone.",
+      `All medications and dose history are moved to the trash. You can restore them from there for ${TRASH_RETENTION_DAYS} days.`,
       [
         {
           text: "Cancel",
@@ -86,9 +124,12 @@ export default function HistoryScreen() {
           style: "destructive",
           onPress: async () => {
             try {
+              for (const medication of await getMedications()) {
+                await cancelMedicationReminders(medication.id);
+              }
               await clearAllData();
               await loadHistory();
-              Alert.alert("Success", "All data has been cleared successfully");
+              Alert.alert("Success", "All data has been moved to the trash");
             } catch (error) {
               console.error("Error clearing data:", error);
               Alert.alert("Error", "Failed to clear data. Please try again.");
@@ -108,57 +149,73 @@ export default function HistoryScreen() {
             showsHorizontalScrollIndicator={false}
             style={styles.filtersScroll}
           >
-            <TouchableOpacity
-              style={[
-                styles.filterButton,
-                selectedFilter === "all" && styles.filterButtonActive,
-              ]}
-              onPress={() => setSelectedFilter("all")}
-            >
-              <Text
-                style={[
-                  styles.filterText,
-                  selectedFilter === "all" && styles.filterTextActive,
-                ]}
-              >
-                All
-              </Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.filterButton,
-                selectedFilter === "taken" && styles.filterButtonActive,
-              ]}
-              onPress={() => setSelectedFilter("taken")}
-            >
-              <Text
-                style={[
-                  styles.filterText,
-                  selectedFilter === "taken" && styles.filterTextActive,
-                ]}
-              >
-                Taken
-              </Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.filterButton,
-                selectedFilter === "missed" && styles.filterButtonActive,
-              ]}
-              onPress={() => setSelectedFilter("missed")}
-            >
-              <Text
+            {FILTERS.map((filter) => (
+              <TouchableOpacity
+                key={filter.value}
                 style={[
-                  styles.filterText,
-                  selectedFilter === "missed" && styles.filterTextActive,
+                  styles.filterButton,
+                  selectedFilter === filter.value && styles.filterButtonActive,
                 ]}
+                onPress={() => setSelectedFilter(filter.value)}
               >
-                Missed
-              </Text>
-            </TouchableOpacity>
+                <Text
+                  style={[
+                    styles.filterText,
+                    selectedFilter === filter.value && styles.filterTextActive,
+                  ]}
+                >
+                  {filter.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </ScrollView>
         </View>
 
+        <TouchableOpacity
+          style={styles.adherenceButton}
+          onPress={() => router.push("/adherence")}
+        >
+          <Ionicons name="analytics-outline" size={20} color="#1a8e2d" />
+          <Text style={styles.adherenceButtonText}>View adherence</Text>
+          <Ionicons name="chevron-forward" size={18} color="#1a8e2d" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.adherenceButton}
+          onPress={() => router.push("/archive")}
+        >
+          <Ionicons name="archive-outline" size={20} color="#1a8e2d" />
+          <Text style={styles.adherenceButtonText}>Course archive</Text>
+          <Ionicons name="chevron-forward" size={18} color="#1a8e2d" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.adherenceButton}
+          onPress={() => router.push("/prescriptions")}
+        >
+          <Ionicons name="document-text-outline" size={20} color="#1a8e2d" />
+          <Text style={styles.adherenceButtonText}>Prescriptions</Text>
+          <Ionicons name="chevron-forward" size={18} color="#1a8e2d" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.adherenceButton}
+          onPress={() => router.push("/backup")}
+        >
+          <Ionicons name="cloud-download-outline" size={20} color="#1a8e2d" />
+          <Text style={styles.adherenceButtonText}>Backup & restore</Text>
+          <Ionicons name="chevron-forward" size={18} color="#1a8e2d" />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.adherenceButton}
+          onPress={() => router.push("/trash")}
+        >
+          <Ionicons name="trash-bin-outline" size={20} color="#1a8e2d" />
+          <Text style={styles.adherenceButtonText}>Trash</Text>
+          <Ionicons name="chevron-forward" size={18} color="#1a8e2d" />
+        </TouchableOpacity>
+
         <ScrollView
           style={styles.historyContainer}
           showsVerticalScrollIndicator={false}
@@ -185,55 +242,90 @@ export default function HistoryScreen() {
                       {dose.medication?.name || "Unknown Medication"}
                     </Text>
                     <Text style={styles.medicationDosage}>
-                      {dose.medication?.dosage}
+                      {dose.medication &&
+                        getDosageForDate(
+                          getRegimenForDate(dose.medication, new Date(dose.timestamp)),
+                          new Date(dose.timestamp)
+                        )}
                     </Text>
                     <Text style={styles.timeText}>
                       {new Date(dose.timestamp).toLocaleTimeString("default", {
                         hour: "2-digit",
                         minute: "2-digit",
                       })}
+                      {dose.scheduledTime ? ` · scheduled ${dose.scheduledTime}` : ""}
+                      {dose.asNeeded ? " · as needed" : ""}
                     </Text>
-                  </View>
-                  <View style={styles.statusContainer}>
-                    {dose.taken ? (
-                      <View
-                        style={[
-                          styles.statusBadge,
-                          { backgroundColor: "#E8F5E9" },
-                        ]}
-                      >
-                        <Ionicons
-                          name="checkmark-circle"
-                          size={16}
-                          color="#4CAF50"
-                        />
-                        <Text style={[styles.statusText, { color: "#4CAF50" }]}>
-                          Taken
-                        </Text>
-                      </View>
-                    ) : (
-                      <View
-                        style={[
-                          styles.statusBadge,
-                          { backgroundColor: "#FFEBEE" },
-                        ]}
-                      >
+                    {!!dose.reason && (
+                      <Text style={styles.reasonText}>{dose.reason}</Text>
+                    )}
+                    {dose.escalations.map((entry) => (
+                      <View key={entry.id} style={styles.escalationRow}>
                         <Ionicons
-                          name="close-circle"
-                          size={16}
-                          color="#F44336"
+                          name={entry.step === "renotify" ? "notifications-outline" : "chatbubble-outline"}
+                          size={12}
+                          color="#E65100"
                         />
-                        <Text style={[styles.statusText, { color: "#F44336" }]}>
-                          Missed
+                        <Text style={styles.escalationText}>
+                          {describeEscalation(entry)}
                         </Text>
                       </View>
-                    )}
+                    ))}
+                  </View>
+                  <View style={styles.statusContainer}>
+                    {(() => {
+                      const display = DOSE_STATUS_DISPLAY[getDoseStatus(dose)];
+                      return (
+                        <View
+                          style={[
+                            styles.statusBadge,
+                            { backgroundColor: display.backgroundColor },
+                          ]}
+                        >
+                          <Ionicons
+                            name={display.icon}
+                            size={16}
+                            color={display.color}
+                          />
+                          <Text style={[styles.statusText, { color: display.color }]}>
+                            {display.label}
+                          </Text>
+                        </View>
+                      );
+                    })()}
                   </View>
                 </View>
               ))}
             </View>
           ))}
 
+          {graceMinutes !== null && (
+            <View style={styles.graceContainer}>
+              <Text style={styles.graceTitle}>Mark doses as missed after</Text>
+              <View style={styles.graceOptions}>
+                {GRACE_MINUTE_OPTIONS.map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[
+                      styles.filterButton,
+                      graceMinutes === minutes && styles.filterButtonActive,
+                    ]}
+                    onPress={() => handleGraceChange(minutes)}
+                  >
+                    <Text
+                      style={[
+                        styles.filterText,
+                        graceMinutes === minutes && styles.filterTextActive,
+                      ]}
+                    >
+                      {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          )}
+
           <View style={styles.clearDataContainer}>
             <TouchableOpacity
               style={styles.clearDataButton}
@@ -288,6 +380,22 @@ const styles = StyleSheet.create({
   filterTextActive: {
     color: "white",
   },
+  adherenceButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: "#E8F5E9",
+  },
+  adherenceButtonText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1a8e2d",
+  },
   historyContainer: {
     flex: 1,
     paddingHorizontal: 20,
@@ -341,6 +449,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "#666",
   },
+  reasonText: {
+    fontSize: 12,
+    color: "#999",
+    fontStyle: "italic",
+    marginTop: 2,
+  },
+  escalationRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 2,
+  },
+  escalationText: {
+    fontSize: 12,
+    color: "#E65100",
+    marginLeft: 4,
+  },
   statusContainer: {
     alignItems: "flex-end",
   },
@@ -356,6 +480,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
+  graceContainer: {
+    paddingHorizontal: 20,
+    marginTop: 20,
+  },
+  graceTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    marginBottom: 10,
+  },
+  graceOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
   clearDataContainer: {
     padding: 20,
     alignItems: "center",
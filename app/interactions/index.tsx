@@ -0,0 +1,216 @@
+import React, { useState, useCallback } from "react";
+import { View, Text, StyleSheet, ScrollView } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { getMedications } from "../../utils/storage";
+import {
+  DrugInteraction,
+  SEVERITY_DISPLAY,
+  SEVERITY_ORDER,
+  getActiveIngredients,
+  getRegimenInteractions,
+} from "../../utils/interactions";
+
+export default function InteractionsScreen() {
+  const [interactions, setInteractions] = useState<DrugInteraction[] | null>(
+    null
+  );
+  const [unrecognized, setUnrecognized] = useState<string[]>([]);
+
+  const loadInteractions = useCallback(async () => {
+    try {
+      const medications = await getMedications();
+      setInteractions(getRegimenInteractions(medications));
+      setUnrecognized(
+        medications
+          .filter((med) => getActiveIngredients(med.name).length === 0)
+          .map((med) => med.name)
+      );
+    } catch (error) {
+      console.error("Error loading interactions:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadInteractions();
+    }, [loadInteractions])
+  );
+
+  if (!interactions) {
+    return <View style={styles.container} />;
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      <View style={styles.summaryCard}>
+        <Ionicons
+          name={interactions.length > 0 ? "warning" : "shield-checkmark"}
+          size={32}
+          color={interactions.length > 0 ? "#EF6C00" : "#1a8e2d"}
+        />
+        <View style={styles.summaryInfo}>
+          <Text style={styles.summaryTitle}>
+            {interactions.length > 0
+              ? `${interactions.length} possible interaction${interactions.length === 1 ? "" : "s"}`
+              : "No known interactions"}
+          </Text>
+          <Text style={styles.summaryText}>
+            Checked against a built-in list of common interactions. Always
+            confirm with your doctor or pharmacist.
+          </Text>
+        </View>
+      </View>
+
+      {SEVERITY_ORDER.map((severity) => {
+        const group = interactions.filter((item) => item.severity === severity);
+        if (group.length === 0) return null;
+        const display = SEVERITY_DISPLAY[severity];
+
+        return (
+          <View key={severity}>
+            <Text style={styles.sectionTitle}>{display.label}</Text>
+            {group.map((interaction) => (
+              <View
+                key={`${interaction.medications[0].id}-${interaction.medications[1].id}-${interaction.ingredients.join("-")}`}
+                style={[styles.interactionCard, { borderLeftColor: display.color }]}
+              >
+                <View style={styles.pairRow}>
+                  <Text style={styles.medicationName}>
+                    {interaction.medications[0].name}
+                  </Text>
+                  <Ionicons name="swap-horizontal" size={16} color="#999" />
+                  <Text style={styles.medicationName}>
+                    {interaction.medications[1].name}
+                  </Text>
+                </View>
+                <View
+                  style={[
+                    styles.severityBadge,
+                    { backgroundColor: display.backgroundColor },
+                  ]}
+                >
+                  <Text style={[styles.severityText, { color: display.color }]}>
+                    {display.label} · {interaction.ingredients.join(" + ")}
+                  </Text>
+                </View>
+                <Text style={styles.description}>{interaction.description}</Text>
+              </View>
+            ))}
+          </View>
+        );
+      })}
+
+      {unrecognized.length > 0 && (
+        <View style={styles.noteCard}>
+          <Ionicons name="information-circle-outline" size={20} color="#666" />
+          <Text style={styles.noteText}>
+            Could not recognise the active ingredient in: {unrecognized.join(", ")}.
+            These were not checked.
+          </Text>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  summaryInfo: {
+    flex: 1,
+    marginLeft: 14,
+  },
+  summaryTitle: {
+    fontSize: 17,
+    fontWeight: "700",
+    color: "#1a1a1a",
+    marginBottom: 4,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: "#666",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1a1a1a",
+    marginBottom: 12,
+  },
+  interactionCard: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    borderLeftWidth: 5,
+    padding: 15,
+    marginBottom: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  pairRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+  medicationName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  severityBadge: {
+    alignSelf: "flex-start",
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+    marginBottom: 8,
+  },
+  severityText: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+  description: {
+    fontSize: 14,
+    color: "#444",
+  },
+  noteCard: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    backgroundColor: "#f0f0f0",
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+  },
+  noteText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#666",
+    marginLeft: 8,
+  },
+});
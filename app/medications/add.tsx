@@ -10,47 +10,129 @@ import {
   Dimensions,
   Platform,
   Alert,
+  Modal,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import DateTimePicker from "@react-native-community/datetimepicker";
 import { LinearGradient } from "expo-linear-gradient";
-import { addMedication } from "../../utils/storage";
+import {
+  addMedication,
+  DosageForm,
+  getMedications,
+  EscalationRule,
+  Medication,
+  MedicationSchedule,
+  ScheduleType,
+  TimezonePolicy,
+} from "../../utils/storage";
+import { WEEKDAY_LABELS } from "../../utils/schedule";
+import { DOSAGE_FORMS, formatUnit, getDefaultUnit } from "../../utils/dosage";
+import { TIMEZONE_POLICIES } from "../../utils/timezone";
+import {
+  DEFAULT_ESCALATION_RULE,
+  ESCALATION_CHANNELS,
+  ESCALATION_WINDOW_OPTIONS,
+  describeEscalationRule,
+  formatWindow,
+} from "../../utils/escalation";
 import {
   scheduleMedicationReminder,
   scheduleRefillReminder,
 } from "@/utils/notifications";
+import {
+  checkMedicationInteractions,
+  confirmInteractions,
+} from "@/utils/interactions";
+import {
+  CONTRAINDICATION_DISPLAY,
+  Contraindication,
+  checkContraindications,
+  getHealthProfile,
+  hasBlockingContraindication,
+  toContraindicationOverrides,
+} from "@/utils/contraindications";
+import {
+  DEFAULT_MAX_DOSES_PER_24H,
+  DEFAULT_MIN_HOURS_BETWEEN,
+} from "@/utils/asNeeded";
 
 const { width } = Dimensions.get("window");
 
-const FREQUENCIES = [
+const FREQUENCIES: {
+  id: string;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  count: number;
+  schedule: ScheduleType;
+}[] = [
   {
     id: "1",
     label: "Once daily",
-    icon: "sunny-outline" as const,
+    icon: "sunny-outline",
     count: 1,
+    schedule: "daily",
   },
   {
     id: "2",
     label: "Twice daily",
-    icon: "sync-outline" as const,
+    icon: "sync-outline",
     count: 2,
+    schedule: "daily",
   },
   {
     id: "3",
     label: "Three times daily",
-    icon: "time-outline" as const,
+    icon: "time-outline",
     count: 3,
+    schedule: "daily",
   },
   {
     id: "4",
     label: "Four times daily",
-    icon: "repeat-outline" as const,
+    icon: "repeat-outline",
     count: 4,
+    schedule: "daily",
+  },
+  {
+    id: "5",
+    label: "As needed",
+    icon: "calendar-outline",
+    count: 0,
+    schedule: "prn",
+  },
+  {
+    id: "6",
+    label: "Every few hours",
+    icon: "hourglass-outline",
+    count: 1,
+    schedule: "interval",
+  },
+  {
+    id: "7",
+    label: "Specific days",
+    icon: "calendar-number-outline",
+    count: 1,
+    schedule: "weekdays",
+  },
+  {
+    id: "8",
+    label: "On/off cycle",
+    icon: "refresh-circle-outline",
+    count: 1,
+    schedule: "cyclic",
+  },
+  {
+    id: "9",
+    label: "Tapering dose",
+    icon: "trending-down-outline",
+    count: 1,
+    schedule: "taper",
   },
-  { id: "5", label: "As needed", icon: "calendar-outline" as const, count: 0 },
 ];
 
+const MAX_TIMES_PER_DAY = 4;
+
 const DURATIONS = [
   { id: "1", label: "7 days", value: 7 },
   { id: "2", label: "14 days", value: 14 },
@@ -73,6 +155,21 @@ export default function AddMedicationScreen() {
     refillReminder: false,
     currentSupply: "",
     refillAt: "",
+    timezonePolicy: "wallClock" as TimezonePolicy,
+    escalation: DEFAULT_ESCALATION_RULE as EscalationRule,
+  });
+  const [doseForm, setDoseForm] = useState<{ amount: string; form: DosageForm }>({
+    amount: "1",
+    form: "tablet",
+  });
+  const [scheduleForm, setScheduleForm] = useState({
+    intervalHours: "8",
+    weekdays: [1, 4],
+    daysOn: "21",
+    daysOff: "7",
+    taperSteps: [{ dosage: "", days: "5" }],
+    maxDosesPer24h: String(DEFAULT_MAX_DOSES_PER_24H),
+    minHoursBetween: String(DEFAULT_MIN_HOURS_BETWEEN),
   });
 
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
@@ -82,6 +179,46 @@ export default function AddMedicationScreen() {
   const [selectedDuration, setSelectedDuration] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [editingTimeIndex, setEditingTimeIndex] = useState<number>(-1);
+  const [pendingSave, setPendingSave] = useState<{
+    medication: Medication;
+    contraindications: Contraindication[];
+  } | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const scheduleType =
+    FREQUENCIES.find((f) => f.label === form.frequency)?.schedule ?? "daily";
+  const doseUnit = getDefaultUnit(doseForm.form);
+
+  const buildSchedule = (): MedicationSchedule => {
+    switch (scheduleType) {
+      case "interval":
+        return { type: "interval", intervalHours: Number(scheduleForm.intervalHours) };
+      case "weekdays":
+        return { type: "weekdays", weekdays: [...scheduleForm.weekdays].sort((a, b) => a - b) };
+      case "cyclic":
+        return {
+          type: "cyclic",
+          daysOn: Number(scheduleForm.daysOn),
+          daysOff: Number(scheduleForm.daysOff),
+        };
+      case "taper":
+        return {
+          type: "taper",
+          steps: scheduleForm.taperSteps.map((step) => ({
+            dosage: step.dosage.trim(),
+            days: Number(step.days),
+          })),
+        };
+      case "prn":
+        return {
+          type: "prn",
+          maxDosesPer24h: Number(scheduleForm.maxDosesPer24h),
+          minHoursBetween: Number(scheduleForm.minHoursBetween),
+        };
+      default:
+        return { type: "daily" };
+    }
+  };
 
   const validateForm = () => {
     const newErrors: { [key: string]: string } = {};
@@ -94,14 +231,50 @@ export default function AddMedicationScreen() {
       newErrors.dosage = "Dosage is required";
     }
 
+    if (!Number(doseForm.amount) || Number(doseForm.amount) <= 0) {
+      newErrors.doseAmount = `Enter how many ${formatUnit(doseUnit)} per dose`;
+    }
+
     if (!form.frequency) {
       newErrors.frequency = "Frequency is required";
     }
 
-    if (!form.duration) {
+    if (!form.duration && scheduleType !== "taper") {
       newErrors.duration = "Duration is required";
     }
 
+    if (scheduleType === "interval") {
+      const hours = Number(scheduleForm.intervalHours);
+      if (!hours || hours < 1 || hours > 72) {
+        newErrors.schedule = "Enter hours between doses (1-72)";
+      }
+    } else if (scheduleType === "weekdays") {
+      if (scheduleForm.weekdays.length === 0) {
+        newErrors.schedule = "Pick at least one day";
+      }
+    } else if (scheduleType === "cyclic") {
+      if (!Number(scheduleForm.daysOn) || Number(scheduleForm.daysOn) < 1) {
+        newErrors.schedule = "Days on must be at least 1";
+      } else if (scheduleForm.daysOff === "" || Number(scheduleForm.daysOff) < 0) {
+        newErrors.schedule = "Days off is required";
+      }
+    } else if (scheduleType === "taper") {
+      const invalidStep = scheduleForm.taperSteps.some(
+        (step) => !step.dosage.trim() || !Number(step.days) || Number(step.days) < 1
+      );
+      if (invalidStep) {
+        newErrors.schedule = "Each step needs a dosage and number of days";
+      }
+    } else if (scheduleType === "prn") {
+      const maxDoses = Number(scheduleForm.maxDosesPer24h);
+      const minHours = Number(scheduleForm.minHoursBetween);
+      if (!maxDoses || maxDoses < 1) {
+        newErrors.schedule = "Enter the most doses allowed in 24 hours";
+      } else if (scheduleForm.minHoursBetween === "" || minHours < 0 || minHours > 24) {
+        newErrors.schedule = "Enter hours between doses (0-24)";
+      }
+    }
+
     if (form.refillReminder) {
       if (!form.currentSupply) {
         newErrors.currentSupply =
@@ -119,6 +292,40 @@ export default function AddMedicationScreen() {
     return Object.keys(newErrors).length === 0;
   };
 
+  const saveMedication = async (medicationData: Medication) => {
+    await addMedication(medicationData);
+
+    // Schedule reminders if enabled
+    if (medicationData.reminderEnabled) {
+      await scheduleMedicationReminder(medicationData);
+    }
+    if (medicationData.refillReminder) {
+      await scheduleRefillReminder(medicationData);
+    }
+
+    Alert.alert(
+      "Success",
+      "Medication added successfully",
+      [
+        {
+          text: "OK",
+          onPress: () => router.back(),
+        },
+      ],
+      { cancelable: false }
+    );
+  };
+
+  const showSaveError = (error: unknown) => {
+    console.error("Save error:", error);
+    Alert.alert(
+      "Error",
+      "Failed to save medication. Please try again.",
+      [{ text: "OK" }],
+      { cancelable: false }
+    );
+  };
+
   const handleSave = async () => {
     try {
       if (!validateForm()) {
@@ -133,9 +340,20 @@ export default function AddMedicationScreen() {
       const colors = ["#4CAF50", "#2196F3", "#FF9800", "#E91E63", "#9C27B0"];
       const randomColor = colors[Math.floor(Math.random() * colors.length)];
 
-      const medicationData = {
+      const schedule = buildSchedule();
+      const medicationData: Medication = {
         id: Math.random().toString(36).substr(2, 9),
         ...form,
+        dose: {
+          amount: Number(doseForm.amount),
+          unit: doseUnit,
+          form: doseForm.form,
+        },
+        schedule,
+        duration:
+          schedule.type === "taper"
+            ? `${schedule.steps.reduce((total, step) => total + step.days, 0)} days`
+            : form.duration,
         currentSupply: form.currentSupply ? Number(form.currentSupply) : 0,
         totalSupply: form.currentSupply ? Number(form.currentSupply) : 0,
         refillAt: form.refillAt ? Number(form.refillAt) : 0,
@@ -143,35 +361,46 @@ export default function AddMedicationScreen() {
         color: randomColor,
       };
 
-      await addMedication(medicationData);
+      const interactions = checkMedicationInteractions(
+        medicationData,
+        await getMedications()
+      );
+      if (!(await confirmInteractions(interactions))) return;
 
-      // Schedule reminders if enabled
-      if (medicationData.reminderEnabled) {
-        await scheduleMedicationReminder(medicationData);
-      }
-      if (medicationData.refillReminder) {
-        await scheduleRefillReminder(medicationData);
+      const contraindications = checkContraindications(
+        medicationData.name,
+        await getHealthProfile()
+      );
+      if (contraindications.length > 0) {
+        setOverrideReason("");
+        setPendingSave({ medication: medicationData, contraindications });
+        return;
       }
 
-      Alert.alert(
-        "Success",
-        "Medication added successfully",
-        [
-          {
-            text: "OK",
-            onPress: () => router.back(),
-          },
-        ],
-        { cancelable: false }
-      );
+      await saveMedication(medicationData);
     } catch (error) {
-      console.error("Save error:", error);
-      Alert.alert(
-        "Error",
-        "Failed to save medication. Please try again.",
-        [{ text: "OK" }],
-        { cancelable: false }
-      );
+      showSaveError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOverride = async () => {
+    if (!pendingSave || !overrideReason.trim()) return;
+    const { medication, contraindications } = pendingSave;
+    setPendingSave(null);
+
+    try {
+      setIsSubmitting(true);
+      await saveMedication({
+        ...medication,
+        contraindicationOverrides: toContraindicationOverrides(
+          contraindications,
+          overrideReason.trim()
+        ),
+      });
+    } catch (error) {
+      showSaveError(error);
     } finally {
       setIsSubmitting(false);
     }
@@ -183,7 +412,11 @@ export default function AddMedicationScreen() {
 
     // Create default times based on frequency count
     let defaultTimes: string[] = [];
-    if (selectedFreq && selectedFreq.count > 0) {
+    if (selectedFreq?.schedule === "prn") {
+      defaultTimes = [];
+    } else if (selectedFreq && selectedFreq.schedule !== "daily") {
+      defaultTimes = ["09:00"];
+    } else if (selectedFreq && selectedFreq.count > 0) {
       // Create default times spread throughout the day
       const timeSlots = {
         1: ["09:00"],
@@ -199,11 +432,52 @@ export default function AddMedicationScreen() {
       frequency: freq,
       times: defaultTimes,
     }));
-    if (errors.frequency) {
-      setErrors((prev) => ({ ...prev, frequency: "" }));
+    if (errors.frequency || errors.schedule) {
+      setErrors((prev) => ({ ...prev, frequency: "", schedule: "" }));
+    }
+  };
+
+  const clearScheduleError = () => {
+    if (errors.schedule) {
+      setErrors((prev) => ({ ...prev, schedule: "" }));
     }
   };
 
+  const toggleWeekday = (day: number) => {
+    setScheduleForm((prev) => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day)
+        ? prev.weekdays.filter((d) => d !== day)
+        : [...prev.weekdays, day],
+    }));
+    clearScheduleError();
+  };
+
+  const updateTaperStep = (
+    index: number,
+    field: "dosage" | "days",
+    value: string
+  ) => {
+    setScheduleForm((prev) => ({
+      ...prev,
+      taperSteps: prev.taperSteps.map((step, i) =>
+        i === index ? { ...step, [field]: value } : step
+      ),
+    }));
+    clearScheduleError();
+  };
+
+  const addTime = () => {
+    setForm((prev) => ({ ...prev, times: [...prev.times, "21:00"] }));
+  };
+
+  const removeTime = (index: number) => {
+    setForm((prev) => ({
+      ...prev,
+      times: prev.times.filter((_, i) => i !== index),
+    }));
+  };
+
   const handleDurationSelect = (dur: string) => {
     setSelectedDuration(dur);
     setForm((prev) => ({ ...prev, duration: dur }));
@@ -252,6 +526,189 @@ export default function AddMedicationScreen() {
     );
   };
 
+  const renderScheduleOptions = () => {
+    switch (scheduleType) {
+      case "prn":
+        return (
+          <View style={styles.scheduleOptions}>
+            <Text style={styles.timesSubtitle}>
+              No reminders. You will be warned when a dose goes over these limits
+            </Text>
+            <View style={styles.inputRow}>
+              <View style={[styles.inputContainer, styles.flex1]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Max doses per 24h"
+                  placeholderTextColor="#999"
+                  value={scheduleForm.maxDosesPer24h}
+                  onChangeText={(text) => {
+                    setScheduleForm({ ...scheduleForm, maxDosesPer24h: text });
+                    clearScheduleError();
+                  }}
+                  keyboardType="numeric"
+                />
+              </View>
+              <View style={[styles.inputContainer, styles.flex1]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Min hours between"
+                  placeholderTextColor="#999"
+                  value={scheduleForm.minHoursBetween}
+                  onChangeText={(text) => {
+                    setScheduleForm({ ...scheduleForm, minHoursBetween: text });
+                    clearScheduleError();
+                  }}
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+            <Text style={styles.timesSubtitle}>
+              Max doses per 24 hours · minimum hours between doses
+            </Text>
+          </View>
+        );
+      case "interval":
+        return (
+          <View style={styles.scheduleOptions}>
+            <Text style={styles.timesSubtitle}>
+              Doses repeat every few hours from the first dose time below
+            </Text>
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={styles.input}
+                placeholder="Hours between doses"
+                placeholderTextColor="#999"
+                value={scheduleForm.intervalHours}
+                onChangeText={(text) => {
+                  setScheduleForm({ ...scheduleForm, intervalHours: text });
+                  clearScheduleError();
+                }}
+                keyboardType="numeric"
+              />
+            </View>
+          </View>
+        );
+      case "weekdays":
+        return (
+          <View style={styles.scheduleOptions}>
+            <Text style={styles.timesSubtitle}>Take on these days</Text>
+            <View style={styles.chipRow}>
+              {WEEKDAY_LABELS.map((label, day) => {
+                const selected = scheduleForm.weekdays.includes(day);
+                return (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.chip, selected && styles.selectedChip]}
+                    onPress={() => toggleWeekday(day)}
+                  >
+                    <Text
+                      style={[styles.chipText, selected && styles.selectedChipText]}
+                    >
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        );
+      case "cyclic":
+        return (
+          <View style={styles.scheduleOptions}>
+            <Text style={styles.timesSubtitle}>
+              Take for a number of days, then pause, and repeat
+            </Text>
+            <View style={styles.inputRow}>
+              <View style={[styles.inputContainer, styles.flex1]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Days on"
+                  placeholderTextColor="#999"
+                  value={scheduleForm.daysOn}
+                  onChangeText={(text) => {
+                    setScheduleForm({ ...scheduleForm, daysOn: text });
+                    clearScheduleError();
+                  }}
+                  keyboardType="numeric"
+                />
+              </View>
+              <View style={[styles.inputContainer, styles.flex1]}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Days off"
+                  placeholderTextColor="#999"
+                  value={scheduleForm.daysOff}
+                  onChangeText={(text) => {
+                    setScheduleForm({ ...scheduleForm, daysOff: text });
+                    clearScheduleError();
+                  }}
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+          </View>
+        );
+      case "taper":
+        return (
+          <View style={styles.scheduleOptions}>
+            <Text style={styles.timesSubtitle}>
+              Steps run one after another from the start date
+            </Text>
+            {scheduleForm.taperSteps.map((step, index) => (
+              <View key={index} style={styles.inputRow}>
+                <View style={[styles.inputContainer, styles.flex1]}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={`Step ${index + 1} dosage`}
+                    placeholderTextColor="#999"
+                    value={step.dosage}
+                    onChangeText={(text) => updateTaperStep(index, "dosage", text)}
+                  />
+                </View>
+                <View style={[styles.inputContainer, styles.flex1]}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Days"
+                    placeholderTextColor="#999"
+                    value={step.days}
+                    onChangeText={(text) => updateTaperStep(index, "days", text)}
+                    keyboardType="numeric"
+                  />
+                </View>
+                {scheduleForm.taperSteps.length > 1 && (
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() =>
+                      setScheduleForm((prev) => ({
+                        ...prev,
+                        taperSteps: prev.taperSteps.filter((_, i) => i !== index),
+                      }))
+                    }
+                  >
+                    <Ionicons name="close-circle" size={24} color="#FF5252" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addRowButton}
+              onPress={() =>
+                setScheduleForm((prev) => ({
+                  ...prev,
+                  taperSteps: [...prev.taperSteps, { dosage: "", days: "5" }],
+                }))
+              }
+            >
+              <Ionicons name="add-circle-outline" size={20} color="#1a8e2d" />
+              <Text style={styles.addRowButtonText}>Add step</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      default:
+        return null;
+    }
+  };
+
   const renderDurationOptions = () => {
     return (
       <View style={styles.optionsGrid}>
@@ -331,6 +788,46 @@ export default function AddMedicationScreen() {
               <Text style={styles.errorText}>{errors.dosage}</Text>
             )}
           </View>
+          <View style={styles.chipRow}>
+            {DOSAGE_FORMS.map((option) => {
+              const selected = doseForm.form === option.form;
+              return (
+                <TouchableOpacity
+                  key={option.form}
+                  style={[styles.chip, selected && styles.selectedChip]}
+                  onPress={() => setDoseForm({ ...doseForm, form: option.form })}
+                >
+                  <Text
+                    style={[styles.chipText, selected && styles.selectedChipText]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={[styles.inputContainer, styles.doseAmountContainer]}>
+            <TextInput
+              style={[styles.input, errors.doseAmount && styles.inputError]}
+              placeholder="Amount per dose"
+              placeholderTextColor="#999"
+              value={doseForm.amount}
+              onChangeText={(text) => {
+                setDoseForm({ ...doseForm, amount: text });
+                if (errors.doseAmount) {
+                  setErrors({ ...errors, doseAmount: "" });
+                }
+              }}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.timesSubtitle}>
+              {formatUnit(doseUnit, Number(doseForm.amount))} per dose · supply
+              is counted in {formatUnit(doseUnit)}
+            </Text>
+            {errors.doseAmount && (
+              <Text style={styles.errorText}>{errors.doseAmount}</Text>
+            )}
+          </View>
         </View>
 
         {/* Schedule */}
@@ -340,12 +837,20 @@ export default function AddMedicationScreen() {
             <Text style={styles.errorText}>{errors.frequency}</Text>
           )}
           {renderFrequencyOptions()}
+          {renderScheduleOptions()}
+          {errors.schedule && (
+            <Text style={styles.errorText}>{errors.schedule}</Text>
+          )}
 
-          <Text style={styles.sectionTitle}>For how long?</Text>
-          {errors.duration && (
-            <Text style={styles.errorText}>{errors.duration}</Text>
+          {scheduleType !== "taper" && (
+            <>
+              <Text style={styles.sectionTitle}>For how long?</Text>
+              {errors.duration && (
+                <Text style={styles.errorText}>{errors.duration}</Text>
+              )}
+              {renderDurationOptions()}
+            </>
           )}
-          {renderDurationOptions()}
 
           <TouchableOpacity
             style={styles.dateButton}
@@ -371,9 +876,11 @@ export default function AddMedicationScreen() {
             />
           )}
 
-          {form.frequency && form.frequency !== "As needed" && (
+          {form.frequency && scheduleType !== "prn" && (
             <View style={styles.timesContainer}>
-              <Text style={styles.timesTitle}>Medication Times</Text>
+              <Text style={styles.timesTitle}>
+                {scheduleType === "interval" ? "First Dose Time" : "Medication Times"}
+              </Text>
               <Text style={styles.timesSubtitle}>
                 Tap on each time to customize
               </Text>
@@ -392,9 +899,25 @@ export default function AddMedicationScreen() {
                   <Text style={styles.timeButtonText}>
                     Time {index + 1}: {time}
                   </Text>
-                  <Ionicons name="chevron-forward" size={20} color="#666" />
+                  {scheduleType !== "daily" &&
+                  scheduleType !== "interval" &&
+                  form.times.length > 1 ? (
+                    <TouchableOpacity onPress={() => removeTime(index)}>
+                      <Ionicons name="close-circle" size={20} color="#FF5252" />
+                    </TouchableOpacity>
+                  ) : (
+                    <Ionicons name="chevron-forward" size={20} color="#666" />
+                  )}
                 </TouchableOpacity>
               ))}
+              {scheduleType !== "daily" &&
+                scheduleType !== "interval" &&
+                form.times.length < MAX_TIMES_PER_DAY && (
+                  <TouchableOpacity style={styles.addRowButton} onPress={addTime}>
+                    <Ionicons name="add-circle-outline" size={20} color="#1a8e2d" />
+                    <Text style={styles.addRowButtonText}>Add time</Text>
+                  </TouchableOpacity>
+                )}
             </View>
           )}
 
@@ -455,6 +978,120 @@ export default function AddMedicationScreen() {
                 thumbColor="white"
               />
             </View>
+            {form.reminderEnabled && scheduleType !== "prn" && (
+              <>
+                <View style={styles.timezoneOptions}>
+                  <Text style={styles.switchLabel}>When travelling</Text>
+                  <View style={styles.chipRow}>
+                    {TIMEZONE_POLICIES.map((option) => {
+                      const selected = form.timezonePolicy === option.policy;
+                      return (
+                        <TouchableOpacity
+                          key={option.policy}
+                          style={[styles.chip, selected && styles.selectedChip]}
+                          onPress={() =>
+                            setForm({ ...form, timezonePolicy: option.policy })
+                          }
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              selected && styles.selectedChipText,
+                            ]}
+                          >
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  <Text style={styles.switchSubLabel}>
+                    {
+                      TIMEZONE_POLICIES.find(
+                        (option) => option.policy === form.timezonePolicy
+                      )?.description
+                    }
+                  </Text>
+                </View>
+                <View style={styles.timezoneOptions}>
+                  <View style={styles.switchRow}>
+                    <View style={styles.flex1}>
+                      <Text style={styles.switchLabel}>Critical medication</Text>
+                      <Text style={styles.switchSubLabel}>
+                        Escalate when a dose isn't logged in time
+                      </Text>
+                    </View>
+                    <Switch
+                      value={form.escalation.enabled}
+                      onValueChange={(value) =>
+                        setForm({ ...form, escalation: { ...form.escalation, enabled: value } })
+                      }
+                      trackColor={{ false: "#ddd", true: "#1a8e2d" }}
+                      thumbColor="white"
+                    />
+                  </View>
+                  {form.escalation.enabled && (
+                    <>
+                      <View style={styles.chipRow}>
+                        {ESCALATION_WINDOW_OPTIONS.map((minutes) => {
+                          const selected = form.escalation.windowMinutes === minutes;
+                          return (
+                            <TouchableOpacity
+                              key={minutes}
+                              style={[styles.chip, selected && styles.selectedChip]}
+                              onPress={() =>
+                                setForm({
+                                  ...form,
+                                  escalation: { ...form.escalation, windowMinutes: minutes },
+                                })
+                              }
+                            >
+                              <Text
+                                style={[
+                                  styles.chipText,
+                                  selected && styles.selectedChipText,
+                                ]}
+                              >
+                                {formatWindow(minutes)}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                      <View style={styles.chipRow}>
+                        {ESCALATION_CHANNELS.map((option) => {
+                          const selected = form.escalation.channel === option.channel;
+                          return (
+                            <TouchableOpacity
+                              key={option.channel}
+                              style={[styles.chip, selected && styles.selectedChip]}
+                              onPress={() =>
+                                setForm({
+                                  ...form,
+                                  escalation: { ...form.escalation, channel: option.channel },
+                                })
+                              }
+                            >
+                              <Text
+                                style={[
+                                  styles.chipText,
+                                  selected && styles.selectedChipText,
+                                ]}
+                              >
+                                {option.label}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </View>
+                      <Text style={styles.switchSubLabel}>
+                        {describeEscalationRule(form.escalation)}
+                      </Text>
+                    </>
+                  )}
+                </View>
+              </>
+            )}
           </View>
         </View>
 
@@ -498,7 +1135,7 @@ export default function AddMedicationScreen() {
                         styles.input,
                         errors.currentSupply && styles.inputError,
                       ]}
-                      placeholder="Current Supply"
+                      placeholder={`Current supply (${formatUnit(doseUnit)})`}
                       placeholderTextColor="#999"
                       value={form.currentSupply}
                       onChangeText={(text) => {
@@ -521,7 +1158,7 @@ export default function AddMedicationScreen() {
                         styles.input,
                         errors.refillAt && styles.inputError,
                       ]}
-                      placeholder="Alert at"
+                      placeholder={`Alert at (${formatUnit(doseUnit)})`}
                       placeholderTextColor="#999"
                       value={form.refillAt}
                       onChangeText={(text) => {
@@ -587,6 +1224,76 @@ export default function AddMedicationScreen() {
           <Text style={styles.cancelButtonText}>Cancel</Text>
         </TouchableOpacity>
       </View>
+
+      <Modal
+        visible={pendingSave !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setPendingSave(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {pendingSave &&
+              hasBlockingContraindication(pendingSave.contraindications)
+                ? "Not recommended for you"
+                : "Check before adding"}
+            </Text>
+            <ScrollView style={styles.conflictList}>
+              {pendingSave?.contraindications.map((item) => {
+                const display = CONTRAINDICATION_DISPLAY[item.level];
+                return (
+                  <View
+                    key={`${item.trigger}-${item.ingredient}`}
+                    style={[
+                      styles.conflictItem,
+                      { backgroundColor: display.backgroundColor },
+                    ]}
+                  >
+                    <Text style={[styles.conflictLabel, { color: display.color }]}>
+                      {display.label} · {item.ingredient} and your{" "}
+                      {item.source === "allergy" ? "allergy" : "condition"}:{" "}
+                      {item.trigger}
+                    </Text>
+                    <Text style={styles.conflictDescription}>
+                      {item.description}
+                    </Text>
+                  </View>
+                );
+              })}
+            </ScrollView>
+            <Text style={styles.timesSubtitle}>
+              To add it anyway, note why (e.g. prescribed by your doctor
+              knowing this)
+            </Text>
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={styles.input}
+                placeholder="Reason for overriding"
+                placeholderTextColor="#999"
+                value={overrideReason}
+                onChangeText={setOverrideReason}
+              />
+            </View>
+            <TouchableOpacity
+              style={[
+                styles.overrideButton,
+                !overrideReason.trim() && styles.saveButtonDisabled,
+              ]}
+              onPress={handleOverride}
+              disabled={!overrideReason.trim()}
+            >
+              <Text style={styles.overrideButtonText}>Add Anyway</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setPendingSave(null)}
+            >
+              <Text style={styles.cancelButtonText}>Don't Add</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -867,6 +1574,53 @@ const styles = StyleSheet.create({
   saveButtonDisabled: {
     opacity: 0.7,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+    marginBottom: 15,
+  },
+  conflictList: {
+    marginBottom: 10,
+  },
+  conflictItem: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  conflictLabel: {
+    fontSize: 14,
+    fontWeight: "700",
+    marginBottom: 4,
+  },
+  conflictDescription: {
+    fontSize: 14,
+    color: "#444",
+  },
+  overrideButton: {
+    backgroundColor: "#C62828",
+    paddingVertical: 15,
+    borderRadius: 16,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  overrideButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "700",
+  },
   refillInputs: {
     marginTop: 15,
   },
@@ -914,4 +1668,54 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: "#333",
   },
+  scheduleOptions: {
+    marginTop: 15,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: "white",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  selectedChip: {
+    backgroundColor: "#1a8e2d",
+    borderColor: "#1a8e2d",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  selectedChipText: {
+    color: "white",
+  },
+  timezoneOptions: {
+    marginTop: 15,
+    gap: 10,
+  },
+  doseAmountContainer: {
+    marginTop: 15,
+  },
+  removeButton: {
+    justifyContent: "center",
+    paddingBottom: 12,
+  },
+  addRowButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 10,
+  },
+  addRowButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1a8e2d",
+  },
 });
@@ -0,0 +1,1187 @@
+import { useState, useEffect } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useRouter, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { LinearGradient } from "expo-linear-gradient";
+import {
+  DosageForm,
+  getMedications,
+  editMedication,
+  deleteMedication,
+  EscalationRule,
+  Medication,
+  TimezonePolicy,
+} from "../../utils/storage";
+import {
+  describeSchedule,
+  getCourseEndDate,
+  getCourseStatus,
+  getSchedule,
+  isCourseEnded,
+  startOfDay,
+} from "../../utils/schedule";
+import {
+  COURSE_STATUS_DISPLAY,
+  DISCONTINUE_REASONS,
+  completeCourse,
+  discontinueCourse,
+  pauseCourse,
+  restartCourse,
+  resumeCourse,
+} from "../../utils/course";
+import {
+  DOSAGE_FORMS,
+  formatQuantity,
+  formatUnit,
+  getDefaultUnit,
+  getStructuredDosage,
+} from "../../utils/dosage";
+import { TIMEZONE_POLICIES, getTimezonePolicy } from "../../utils/timezone";
+import {
+  DEFAULT_ESCALATION_RULE,
+  ESCALATION_CHANNELS,
+  ESCALATION_WINDOW_OPTIONS,
+  describeEscalationRule,
+  formatWindow,
+} from "../../utils/escalation";
+import {
+  cancelMedicationReminders,
+  updateMedicationReminders,
+} from "@/utils/notifications";
+import { TRASH_RETENTION_DAYS } from "@/utils/trash";
+import {
+  checkMedicationInteractions,
+  confirmInteractions,
+} from "@/utils/interactions";
+
+const MAX_TIMES_PER_DAY = 4;
+
+export default function EditMedicationScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [medication, setMedication] = useState<Medication | null>(null);
+  const [form, setForm] = useState({
+    name: "",
+    dosage: "",
+    doseAmount: "",
+    doseForm: "tablet" as DosageForm,
+    times: [] as string[],
+    reminderEnabled: true,
+    timezonePolicy: "wallClock" as TimezonePolicy,
+    escalation: DEFAULT_ESCALATION_RULE as EscalationRule,
+    refillReminder: false,
+    currentSupply: "",
+    totalSupply: "",
+    refillAt: "",
+    maxDosesPer24h: "",
+    minHoursBetween: "",
+  });
+  const [effectiveDate, setEffectiveDate] = useState(new Date());
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [showTimePicker, setShowTimePicker] = useState(false);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [editingTimeIndex, setEditingTimeIndex] = useState<number>(-1);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDiscontinueReasons, setShowDiscontinueReasons] = useState(false);
+
+  useEffect(() => {
+    const loadMedication = async () => {
+      const medications = await getMedications();
+      const found = medications.find((med) => med.id === id);
+      if (!found) {
+        Alert.alert("Not Found", "This medication no longer exists.", [
+          { text: "OK", onPress: () => router.back() },
+        ]);
+        return;
+      }
+
+      setMedication(found);
+      const schedule = getSchedule(found);
+      const dose = getStructuredDosage(found);
+      setForm({
+        name: found.name,
+        dosage: found.dosage,
+        doseAmount: dose.amount.toString(),
+        doseForm: dose.form,
+        times: [...found.times],
+        reminderEnabled: found.reminderEnabled,
+        timezonePolicy: getTimezonePolicy(found),
+        escalation: found.escalation ?? DEFAULT_ESCALATION_RULE,
+        refillReminder: found.refillReminder,
+        currentSupply: found.currentSupply.toString(),
+        totalSupply: found.totalSupply.toString(),
+        refillAt: found.refillAt.toString(),
+        maxDosesPer24h:
+          schedule.type === "prn" ? schedule.maxDosesPer24h.toString() : "",
+        minHoursBetween:
+          schedule.type === "prn" ? schedule.minHoursBetween.toString() : "",
+      });
+    };
+
+    loadMedication();
+  }, [id, router]);
+
+  if (!medication) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color="#1a8e2d" />
+      </View>
+    );
+  }
+
+  const scheduleType = getSchedule(medication).type;
+  const doseUnit = getDefaultUnit(form.doseForm);
+  const currentUnit = getStructuredDosage(medication).unit;
+  const regimenStart = new Date(medication.effectiveFrom ?? medication.startDate);
+  const versions = [...(medication.versions ?? [])].reverse();
+
+  const validateForm = () => {
+    const newErrors: { [key: string]: string } = {};
+
+    if (!form.name.trim()) {
+      newErrors.name = "Medication name is required";
+    }
+
+    if (!form.dosage.trim()) {
+      newErrors.dosage = "Dosage is required";
+    }
+
+    if (!Number(form.doseAmount) || Number(form.doseAmount) <= 0) {
+      newErrors.doseAmount = `Enter how many ${formatUnit(doseUnit)} per dose`;
+    }
+
+    if (form.refillReminder) {
+      if (!form.currentSupply) {
+        newErrors.currentSupply =
+          "Current supply is required for refill tracking";
+      }
+      if (!form.refillAt) {
+        newErrors.refillAt = "Refill alert threshold is required";
+      }
+    }
+
+    if (scheduleType === "prn") {
+      if (!Number(form.maxDosesPer24h) || Number(form.maxDosesPer24h) < 1) {
+        newErrors.schedule = "Enter the most doses allowed in 24 hours";
+      } else if (
+        form.minHoursBetween === "" ||
+        Number(form.minHoursBetween) < 0 ||
+        Number(form.minHoursBetween) > 24
+      ) {
+        newErrors.schedule = "Enter hours between doses (0-24)";
+      }
+    }
+
+    if (Number(form.currentSupply) > Number(form.totalSupply)) {
+      newErrors.totalSupply = "Total supply can't be less than current supply";
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    try {
+      if (!validateForm()) {
+        Alert.alert("Error", "Please fill in all required fields correctly");
+        return;
+      }
+
+      if (isSubmitting) return;
+      setIsSubmitting(true);
+
+      const updatedMedication: Medication = {
+        ...medication,
+        name: form.name.trim(),
+        dosage: form.dosage.trim(),
+        dose: {
+          amount: Number(form.doseAmount),
+          unit: doseUnit,
+          form: form.doseForm,
+        },
+        times: [...form.times].sort(),
+        reminderEnabled: form.reminderEnabled,
+        timezonePolicy: form.timezonePolicy,
+        escalation: form.escalation,
+        refillReminder: form.refillReminder,
+        currentSupply: form.currentSupply ? Number(form.currentSupply) : 0,
+        totalSupply: form.totalSupply ? Number(form.totalSupply) : 0,
+        refillAt: form.refillAt ? Number(form.refillAt) : 0,
+        ...(scheduleType === "prn" && {
+          schedule: {
+            type: "prn",
+            maxDosesPer24h: Number(form.maxDosesPer24h),
+            minHoursBetween: Number(form.minHoursBetween),
+          },
+        }),
+      };
+
+      // Interactions depend only on the name, so unchanged names were already checked
+      if (updatedMedication.name !== medication.name) {
+        const interactions = checkMedicationInteractions(
+          updatedMedication,
+          await getMedications()
+        );
+        if (!(await confirmInteractions(interactions))) return;
+      }
+
+      const saved = await editMedication(
+        updatedMedication,
+        startOfDay(effectiveDate)
+      );
+      await updateMedicationReminders(saved);
+
+      Alert.alert(
+        "Success",
+        "Medication updated successfully",
+        [
+          {
+            text: "OK",
+            onPress: () => router.back(),
+          },
+        ],
+        { cancelable: false }
+      );
+    } catch (error) {
+      console.error("Save error:", error);
+      Alert.alert(
+        "Error",
+        "Failed to update medication. Please try again.",
+        [{ text: "OK" }],
+        { cancelable: false }
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCourseAction = async (
+    action: (medicationId: string) => Promise<Medication>,
+    message?: string
+  ) => {
+    try {
+      setMedication(await action(medication.id));
+      setShowDiscontinueReasons(false);
+      if (message) Alert.alert("Course Updated", message);
+    } catch (error) {
+      console.error("Error updating course:", error);
+      Alert.alert("Error", "Failed to update the course. Please try again.");
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      `Delete ${medication.name}?`,
+      `It moves to the trash with its dose history, and can be restored for ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await cancelMedicationReminders(medication.id);
+              await deleteMedication(medication.id);
+              router.back();
+            } catch (error) {
+              console.error("Error deleting medication:", error);
+              Alert.alert("Error", "Failed to delete the medication. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const courseStatus = getCourseStatus(medication);
+  const courseDisplay = COURSE_STATUS_DISPLAY[courseStatus];
+  const courseEnd = getCourseEndDate(medication);
+
+  const canEditTimeCount =
+    scheduleType !== "interval" && form.times.length > 0;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.formContainer}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.formContentContainer}
+      >
+        <View style={styles.section}>
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.mainInput, errors.name && styles.inputError]}
+              placeholder="Medication Name"
+              placeholderTextColor="#999"
+              value={form.name}
+              onChangeText={(text) => {
+                setForm({ ...form, name: text });
+                if (errors.name) {
+                  setErrors({ ...errors, name: "" });
+                }
+              }}
+            />
+            {errors.name && (
+              <Text style={styles.errorText}>{errors.name}</Text>
+            )}
+          </View>
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.mainInput, errors.dosage && styles.inputError]}
+              placeholder="Dosage (e.g., 500mg)"
+              placeholderTextColor="#999"
+              value={form.dosage}
+              onChangeText={(text) => {
+                setForm({ ...form, dosage: text });
+                if (errors.dosage) {
+                  setErrors({ ...errors, dosage: "" });
+                }
+              }}
+            />
+            {errors.dosage && (
+              <Text style={styles.errorText}>{errors.dosage}</Text>
+            )}
+          </View>
+          <View style={styles.chipRow}>
+            {DOSAGE_FORMS.map((option) => {
+              const selected = form.doseForm === option.form;
+              return (
+                <TouchableOpacity
+                  key={option.form}
+                  style={[styles.chip, selected && styles.selectedChip]}
+                  onPress={() => setForm({ ...form, doseForm: option.form })}
+                >
+                  <Text
+                    style={[styles.chipText, selected && styles.selectedChipText]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>
+              {formatUnit(doseUnit)} per dose
+            </Text>
+            <TextInput
+              style={[styles.input, errors.doseAmount && styles.inputError]}
+              value={form.doseAmount}
+              onChangeText={(text) => {
+                setForm({ ...form, doseAmount: text });
+                if (errors.doseAmount) {
+                  setErrors({ ...errors, doseAmount: "" });
+                }
+              }}
+              keyboardType="decimal-pad"
+            />
+            {errors.doseAmount && (
+              <Text style={styles.errorText}>{errors.doseAmount}</Text>
+            )}
+            {doseUnit !== currentUnit && (
+              <Text style={styles.errorText}>
+                Supply is now counted in {formatUnit(doseUnit)}. Update the
+                amounts below to match.
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {/* Schedule */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Schedule</Text>
+          <Text style={styles.subtitle}>{describeSchedule(medication)}</Text>
+
+          {scheduleType === "prn" && (
+            <View style={styles.inputRow}>
+              <View style={[styles.inputContainer, styles.flex1]}>
+                <Text style={styles.inputLabel}>Max doses per 24h</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.maxDosesPer24h}
+                  onChangeText={(text) =>
+                    setForm({ ...form, maxDosesPer24h: text })
+                  }
+                  keyboardType="numeric"
+                />
+              </View>
+              <View style={[styles.inputContainer, styles.flex1]}>
+                <Text style={styles.inputLabel}>Min hours between</Text>
+                <TextInput
+                  style={styles.input}
+                  value={form.minHoursBetween}
+                  onChangeText={(text) =>
+                    setForm({ ...form, minHoursBetween: text })
+                  }
+                  keyboardType="numeric"
+                />
+              </View>
+            </View>
+          )}
+          {errors.schedule && (
+            <Text style={styles.errorText}>{errors.schedule}</Text>
+          )}
+
+          {form.times.map((time, index) => (
+            <TouchableOpacity
+              key={index}
+              style={styles.rowButton}
+              onPress={() => {
+                setEditingTimeIndex(index);
+                setShowTimePicker(true);
+              }}
+            >
+              <View style={styles.iconContainer}>
+                <Ionicons name="time-outline" size={20} color="#1a8e2d" />
+              </View>
+              <Text style={styles.rowButtonText}>
+                {scheduleType === "interval" ? "First dose" : `Time ${index + 1}`}: {time}
+              </Text>
+              {canEditTimeCount && form.times.length > 1 ? (
+                <TouchableOpacity
+                  onPress={() =>
+                    setForm((prev) => ({
+                      ...prev,
+                      times: prev.times.filter((_, i) => i !== index),
+                    }))
+                  }
+                >
+                  <Ionicons name="close-circle" size={20} color="#FF5252" />
+                </TouchableOpacity>
+              ) : (
+                <Ionicons name="chevron-forward" size={20} color="#666" />
+              )}
+            </TouchableOpacity>
+          ))}
+          {canEditTimeCount && form.times.length < MAX_TIMES_PER_DAY && (
+            <TouchableOpacity
+              style={styles.addRowButton}
+              onPress={() =>
+                setForm((prev) => ({ ...prev, times: [...prev.times, "21:00"] }))
+              }
+            >
+              <Ionicons name="add-circle-outline" size={20} color="#1a8e2d" />
+              <Text style={styles.addRowButtonText}>Add time</Text>
+            </TouchableOpacity>
+          )}
+
+          {showTimePicker && editingTimeIndex >= 0 && (
+            <DateTimePicker
+              value={(() => {
+                const currentTime = form.times[editingTimeIndex] || "09:00";
+                const [hours, minutes] = currentTime.split(":").map(Number);
+                const date = new Date();
+                date.setHours(hours, minutes, 0, 0);
+                return date;
+              })()}
+              mode="time"
+              onChange={(event, date) => {
+                setShowTimePicker(false);
+                if (date && editingTimeIndex >= 0) {
+                  const newTime = date.toLocaleTimeString("default", {
+                    hour: "2-digit",
+                    minute: "2-digit",
+                    hour12: false,
+                  });
+                  setForm((prev) => {
+                    const newTimes = [...prev.times];
+                    newTimes[editingTimeIndex] = newTime;
+                    return { ...prev, times: newTimes };
+                  });
+                }
+                setEditingTimeIndex(-1);
+              }}
+            />
+          )}
+        </View>
+
+        {/* Supply */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Supply ({formatUnit(doseUnit)})</Text>
+          <View style={styles.inputRow}>
+            <View style={[styles.inputContainer, styles.flex1]}>
+              <Text style={styles.inputLabel}>Current</Text>
+              <TextInput
+                style={[styles.input, errors.currentSupply && styles.inputError]}
+                value={form.currentSupply}
+                onChangeText={(text) => {
+                  setForm({ ...form, currentSupply: text });
+                  if (errors.currentSupply) {
+                    setErrors({ ...errors, currentSupply: "" });
+                  }
+                }}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={[styles.inputContainer, styles.flex1]}>
+              <Text style={styles.inputLabel}>Total</Text>
+              <TextInput
+                style={[styles.input, errors.totalSupply && styles.inputError]}
+                value={form.totalSupply}
+                onChangeText={(text) => {
+                  setForm({ ...form, totalSupply: text });
+                  if (errors.totalSupply) {
+                    setErrors({ ...errors, totalSupply: "" });
+                  }
+                }}
+                keyboardType="numeric"
+              />
+            </View>
+            <View style={[styles.inputContainer, styles.flex1]}>
+              <Text style={styles.inputLabel}>Alert at</Text>
+              <TextInput
+                style={[styles.input, errors.refillAt && styles.inputError]}
+                value={form.refillAt}
+                onChangeText={(text) => {
+                  setForm({ ...form, refillAt: text });
+                  if (errors.refillAt) {
+                    setErrors({ ...errors, refillAt: "" });
+                  }
+                }}
+                keyboardType="numeric"
+              />
+            </View>
+          </View>
+          {(errors.currentSupply || errors.totalSupply || errors.refillAt) && (
+            <Text style={styles.errorText}>
+              {errors.currentSupply || errors.totalSupply || errors.refillAt}
+            </Text>
+          )}
+        </View>
+
+        {/* Reminders */}
+        <View style={styles.section}>
+          <View style={styles.card}>
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Reminders</Text>
+              <Switch
+                value={form.reminderEnabled}
+                onValueChange={(value) =>
+                  setForm({ ...form, reminderEnabled: value })
+                }
+                trackColor={{ false: "#ddd", true: "#1a8e2d" }}
+                thumbColor="white"
+              />
+            </View>
+            {form.reminderEnabled && scheduleType !== "prn" && (
+              <>
+                <Text style={[styles.switchLabel, styles.switchRowSpacing]}>
+                  When travelling
+                </Text>
+                <View style={[styles.chipRow, styles.timezoneChips]}>
+                  {TIMEZONE_POLICIES.map((option) => {
+                    const selected = form.timezonePolicy === option.policy;
+                    return (
+                      <TouchableOpacity
+                        key={option.policy}
+                        style={[styles.chip, selected && styles.selectedChip]}
+                        onPress={() =>
+                          setForm({ ...form, timezonePolicy: option.policy })
+                        }
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            selected && styles.selectedChipText,
+                          ]}
+                        >
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <View style={[styles.switchRow, styles.switchRowSpacing]}>
+                  <Text style={styles.switchLabel}>Critical medication</Text>
+                  <Switch
+                    value={form.escalation.enabled}
+                    onValueChange={(value) =>
+                      setForm({ ...form, escalation: { ...form.escalation, enabled: value } })
+                    }
+                    trackColor={{ false: "#ddd", true: "#1a8e2d" }}
+                    thumbColor="white"
+                  />
+                </View>
+                {form.escalation.enabled && (
+                  <>
+                    <View style={[styles.chipRow, styles.timezoneChips]}>
+                      {ESCALATION_WINDOW_OPTIONS.map((minutes) => {
+                        const selected = form.escalation.windowMinutes === minutes;
+                        return (
+                          <TouchableOpacity
+                            key={minutes}
+                            style={[styles.chip, selected && styles.selectedChip]}
+                            onPress={() =>
+                              setForm({
+                                ...form,
+                                escalation: { ...form.escalation, windowMinutes: minutes },
+                              })
+                            }
+                          >
+                            <Text
+                              style={[
+                                styles.chipText,
+                                selected && styles.selectedChipText,
+                              ]}
+                            >
+                              {formatWindow(minutes)}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    <View style={[styles.chipRow, styles.timezoneChips]}>
+                      {ESCALATION_CHANNELS.map((option) => {
+                        const selected = form.escalation.channel === option.channel;
+                        return (
+                          <TouchableOpacity
+                            key={option.channel}
+                            style={[styles.chip, selected && styles.selectedChip]}
+                            onPress={() =>
+                              setForm({
+                                ...form,
+                                escalation: { ...form.escalation, channel: option.channel },
+                              })
+                            }
+                          >
+                            <Text
+                              style={[
+                                styles.chipText,
+                                selected && styles.selectedChipText,
+                              ]}
+                            >
+                              {option.label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    <Text style={styles.escalationHint}>
+                      {describeEscalationRule(form.escalation)}
+                    </Text>
+                  </>
+                )}
+              </>
+            )}
+            <View style={[styles.switchRow, styles.switchRowSpacing]}>
+              <Text style={styles.switchLabel}>Refill Tracking</Text>
+              <Switch
+                value={form.refillReminder}
+                onValueChange={(value) =>
+                  setForm({ ...form, refillReminder: value })
+                }
+                trackColor={{ false: "#ddd", true: "#1a8e2d" }}
+                thumbColor="white"
+              />
+            </View>
+          </View>
+        </View>
+
+        {/* Effective date */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Changes take effect</Text>
+          <TouchableOpacity
+            style={styles.rowButton}
+            onPress={() => setShowDatePicker(true)}
+          >
+            <View style={styles.iconContainer}>
+              <Ionicons name="calendar" size={20} color="#1a8e2d" />
+            </View>
+            <Text style={styles.rowButtonText}>
+              From {effectiveDate.toLocaleDateString()}
+            </Text>
+            <Ionicons name="chevron-forward" size={20} color="#666" />
+          </TouchableOpacity>
+          {showDatePicker && (
+            <DateTimePicker
+              value={effectiveDate}
+              mode="date"
+              minimumDate={regimenStart}
+              maximumDate={new Date()}
+              onChange={(event, date) => {
+                setShowDatePicker(false);
+                if (date) setEffectiveDate(date);
+              }}
+            />
+          )}
+        </View>
+
+        {/* Course */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Course</Text>
+          <View
+            style={[styles.versionCard, { borderLeftColor: courseDisplay.color }]}
+          >
+            <View style={styles.courseStatusRow}>
+              <Ionicons name={courseDisplay.icon} size={18} color={courseDisplay.color} />
+              <Text style={[styles.versionDates, { color: courseDisplay.color }]}>
+                {courseDisplay.label}
+              </Text>
+            </View>
+            <Text style={styles.versionDetails}>
+              Started {new Date(medication.startDate).toLocaleDateString()}
+              {isCourseEnded(medication) && medication.endedAt
+                ? ` · ended ${new Date(medication.endedAt).toLocaleDateString()}`
+                : courseEnd
+                  ? ` · ends ${courseEnd.toLocaleDateString()}`
+                  : " · ongoing"}
+              {medication.discontinuedReason ? ` · ${medication.discontinuedReason}` : ""}
+            </Text>
+          </View>
+          {courseStatus === "active" && (
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={() =>
+                handleCourseAction(
+                  pauseCourse,
+                  "Reminders are off until you resume the course."
+                )
+              }
+            >
+              <View style={styles.iconContainer}>
+                <Ionicons name="pause" size={20} color="#FF9800" />
+              </View>
+              <Text style={styles.rowButtonText}>Pause course</Text>
+            </TouchableOpacity>
+          )}
+          {courseStatus === "paused" && (
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={() => handleCourseAction(resumeCourse)}
+            >
+              <View style={styles.iconContainer}>
+                <Ionicons name="play" size={20} color="#1a8e2d" />
+              </View>
+              <Text style={styles.rowButtonText}>Resume course</Text>
+            </TouchableOpacity>
+          )}
+          {!isCourseEnded(medication) && (
+            <>
+              <TouchableOpacity
+                style={styles.rowButton}
+                onPress={() =>
+                  handleCourseAction(
+                    completeCourse,
+                    `${medication.name} has been moved to the archive.`
+                  )
+                }
+              >
+                <View style={styles.iconContainer}>
+                  <Ionicons name="checkmark-done" size={20} color="#2196F3" />
+                </View>
+                <Text style={styles.rowButtonText}>Mark as completed</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.rowButton}
+                onPress={() => setShowDiscontinueReasons(!showDiscontinueReasons)}
+              >
+                <View style={styles.iconContainer}>
+                  <Ionicons name="stop" size={20} color="#757575" />
+                </View>
+                <Text style={styles.rowButtonText}>Discontinue</Text>
+                <Ionicons
+                  name={showDiscontinueReasons ? "chevron-up" : "chevron-down"}
+                  size={20}
+                  color="#666"
+                />
+              </TouchableOpacity>
+              {showDiscontinueReasons && (
+                <View style={styles.chipRow}>
+                  {DISCONTINUE_REASONS.map((reason) => (
+                    <TouchableOpacity
+                      key={reason}
+                      style={styles.chip}
+                      onPress={() =>
+                        handleCourseAction(
+                          (medicationId) => discontinueCourse(medicationId, reason),
+                          `${medication.name} has been moved to the archive.`
+                        )
+                      }
+                    >
+                      <Text style={styles.chipText}>{reason}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+          {isCourseEnded(medication) && (
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={() =>
+                handleCourseAction(
+                  restartCourse,
+                  `${medication.name} starts again from today.`
+                )
+              }
+            >
+              <View style={styles.iconContainer}>
+                <Ionicons name="refresh" size={20} color="#1a8e2d" />
+              </View>
+              <Text style={styles.rowButtonText}>Restart course</Text>
+            </TouchableOpacity>
+          )}
+          {medication.prescriptionId && (
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={() =>
+                router.push({
+                  pathname: "/prescriptions/details",
+                  params: { id: medication.prescriptionId },
+                })
+              }
+            >
+              <View style={styles.iconContainer}>
+                <Ionicons name="document-text-outline" size={20} color="#1a8e2d" />
+              </View>
+              <Text style={styles.rowButtonText}>View prescription</Text>
+              <Ionicons name="chevron-forward" size={20} color="#666" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.rowButton} onPress={handleDelete}>
+            <View style={styles.iconContainer}>
+              <Ionicons name="trash-outline" size={20} color="#F44336" />
+            </View>
+            <Text style={styles.rowButtonText}>Delete medication</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Version history */}
+        {versions.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Change History</Text>
+            <View style={styles.versionCard}>
+              <Text style={styles.versionDates}>
+                Since {regimenStart.toLocaleDateString()} (current)
+              </Text>
+              <Text style={styles.versionDetails}>
+                {medication.dosage} · {medication.times.join(", ")} ·{" "}
+                {medication.currentSupply}/
+                {formatQuantity(medication.totalSupply, currentUnit)}
+              </Text>
+            </View>
+            {versions.map((version) => (
+              <View key={version.effectiveTo} style={styles.versionCard}>
+                <Text style={styles.versionDates}>
+                  {new Date(version.effectiveFrom).toLocaleDateString()} –{" "}
+                  {new Date(version.effectiveTo).toLocaleDateString()}
+                </Text>
+                <Text style={styles.versionDetails}>
+                  {version.dosage} · {version.times.join(", ")} ·{" "}
+                  {version.currentSupply}/
+                  {formatQuantity(
+                    version.totalSupply,
+                    version.dose?.unit ?? currentUnit
+                  )}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {!!medication.contraindicationOverrides?.length && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Overridden Warnings</Text>
+            {medication.contraindicationOverrides.map((item) => (
+              <View
+                key={`${item.trigger}-${item.ingredient}`}
+                style={[styles.versionCard, styles.overrideCard]}
+              >
+                <Text style={styles.versionDates}>
+                  {item.ingredient} · {item.source}: {item.trigger}
+                </Text>
+                <Text style={styles.versionDetails}>
+                  "{item.reason}" ·{" "}
+                  {new Date(item.overriddenAt).toLocaleDateString()}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.saveButton,
+            isSubmitting && styles.saveButtonDisabled,
+          ]}
+          onPress={handleSave}
+          disabled={isSubmitting}
+        >
+          <LinearGradient
+            colors={["#1a8e2d", "#146922"]}
+            style={styles.saveButtonGradient}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 0 }}
+          >
+            <Text style={styles.saveButtonText}>
+              {isSubmitting ? "Saving..." : "Save Changes"}
+            </Text>
+          </LinearGradient>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.cancelButton}
+          onPress={() => router.back()}
+          disabled={isSubmitting}
+        >
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  formContainer: {
+    flex: 1,
+  },
+  formContentContainer: {
+    padding: 20,
+  },
+  section: {
+    marginBottom: 25,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1a1a1a",
+    marginBottom: 15,
+    marginTop: 10,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 15,
+    fontStyle: "italic",
+  },
+  mainInput: {
+    fontSize: 20,
+    color: "#333",
+    padding: 15,
+  },
+  inputContainer: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: "#666",
+    marginTop: 10,
+    marginLeft: 15,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 15,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: "white",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  selectedChip: {
+    backgroundColor: "#1a8e2d",
+    borderColor: "#1a8e2d",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  selectedChipText: {
+    color: "white",
+  },
+  inputRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  flex1: {
+    flex: 1,
+  },
+  input: {
+    paddingHorizontal: 15,
+    paddingBottom: 12,
+    paddingTop: 4,
+    fontSize: 16,
+    color: "#333",
+  },
+  rowButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 15,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: "#f5f5f5",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 10,
+  },
+  rowButtonText: {
+    flex: 1,
+    fontSize: 16,
+    color: "#333",
+  },
+  addRowButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 10,
+  },
+  addRowButtonText: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1a8e2d",
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  timezoneChips: {
+    marginTop: 10,
+    marginBottom: 0,
+  },
+  switchRowSpacing: {
+    marginTop: 15,
+  },
+  escalationHint: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 10,
+  },
+  switchLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  versionCard: {
+    backgroundColor: "white",
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+    borderLeftWidth: 4,
+    borderLeftColor: "#1a8e2d",
+  },
+  versionDates: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  courseStatusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  overrideCard: {
+    borderLeftColor: "#EF6C00",
+  },
+  versionDetails: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 4,
+  },
+  footer: {
+    padding: 20,
+    backgroundColor: "white",
+    borderTopWidth: 1,
+    borderTopColor: "#e0e0e0",
+  },
+  saveButton: {
+    borderRadius: 16,
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  saveButtonGradient: {
+    paddingVertical: 15,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  cancelButton: {
+    paddingVertical: 15,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "white",
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  inputError: {
+    borderColor: "#FF5252",
+  },
+  errorText: {
+    color: "#FF5252",
+    fontSize: 12,
+    marginTop: 4,
+    marginLeft: 12,
+  },
+});
@@ -0,0 +1,318 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { getMedications } from "../../utils/storage";
+import { cancelMedicationReminders } from "../../utils/notifications";
+import {
+  addPerson,
+  getActivePersonId,
+  getPeople,
+  Person,
+  removePerson,
+  SELF_PERSON_ID,
+  setActivePersonId,
+  updatePerson,
+} from "../../utils/people";
+
+export default function PeopleScreen() {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [medicationCounts, setMedicationCounts] = useState<Record<string, number>>({});
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: "", relationship: "" });
+
+  const loadPeople = useCallback(async () => {
+    try {
+      const [allPeople, active] = await Promise.all([getPeople(), getActivePersonId()]);
+      const counts: Record<string, number> = {};
+      for (const person of allPeople) {
+        counts[person.id] = (await getMedications(person.id)).length;
+      }
+      setPeople(allPeople);
+      setMedicationCounts(counts);
+      setActiveId(active);
+    } catch (error) {
+      console.error("Error loading people:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPeople();
+    }, [loadPeople])
+  );
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm({ name: "", relationship: "" });
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      Alert.alert("Error", "Enter a name");
+      return;
+    }
+
+    try {
+      const existing = people.find((person) => person.id === editingId);
+      if (existing) {
+        await updatePerson({
+          ...existing,
+          name,
+          relationship: form.relationship.trim() || undefined,
+        });
+      } else {
+        await addPerson(name, form.relationship.trim() || undefined);
+      }
+      resetForm();
+      await loadPeople();
+    } catch (error) {
+      console.error("Error saving person:", error);
+      Alert.alert("Error", "Failed to save. Please try again.");
+    }
+  };
+
+  const handleSwitch = async (personId: string) => {
+    await setActivePersonId(personId);
+    setActiveId(personId);
+  };
+
+  const handleRemove = (person: Person) => {
+    Alert.alert(
+      `Remove ${person.name}?`,
+      "Their medications, dose history, vitals and profile will be deleted from this phone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              for (const medication of await getMedications(person.id)) {
+                await cancelMedicationReminders(medication.id);
+              }
+              await removePerson(person.id);
+              if (editingId === person.id) resetForm();
+              await loadPeople();
+            } catch (error) {
+              console.error("Error removing person:", error);
+              Alert.alert("Error", "Failed to remove. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      <Text style={styles.summaryText}>
+        Manage medications for family members on this phone. Each person has
+        their own medications, history, vitals and emergency contacts, and
+        reminders say who they are for.
+      </Text>
+
+      {people.map((person) => {
+        const isActive = person.id === activeId;
+        const count = medicationCounts[person.id] ?? 0;
+        return (
+          <View
+            key={person.id}
+            style={[styles.personCard, isActive && { borderColor: person.color }]}
+          >
+            <TouchableOpacity
+              style={styles.personInfo}
+              onPress={() => handleSwitch(person.id)}
+            >
+              <View style={[styles.avatar, { backgroundColor: person.color }]}>
+                <Text style={styles.avatarText}>
+                  {person.name.charAt(0).toUpperCase()}
+                </Text>
+              </View>
+              <View style={styles.flex1}>
+                <Text style={styles.personName}>
+                  {person.name}
+                  {person.relationship ? ` · ${person.relationship}` : ""}
+                </Text>
+                <Text style={styles.personMeta}>
+                  {count} medication{count === 1 ? "" : "s"}
+                  {isActive ? " · Showing now" : ""}
+                </Text>
+              </View>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => {
+                setEditingId(person.id);
+                setForm({ name: person.name, relationship: person.relationship ?? "" });
+              }}
+            >
+              <Ionicons name="create-outline" size={20} color="#666" />
+            </TouchableOpacity>
+            {person.id !== SELF_PERSON_ID && (
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => handleRemove(person)}
+              >
+                <Ionicons name="trash-outline" size={20} color="#F44336" />
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+
+      <Text style={styles.sectionTitle}>
+        {editingId ? "Edit person" : "Add a person"}
+      </Text>
+      <View style={styles.formCard}>
+        <TextInput
+          style={styles.input}
+          placeholder="Name (e.g. Amma)"
+          placeholderTextColor="#999"
+          value={form.name}
+          onChangeText={(text) => setForm({ ...form, name: text })}
+        />
+        <TextInput
+          style={styles.input}
+          placeholder="Relationship (optional)"
+          placeholderTextColor="#999"
+          value={form.relationship}
+          onChangeText={(text) => setForm({ ...form, relationship: text })}
+        />
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <Text style={styles.saveButtonText}>
+            {editingId ? "Save" : "Add Person"}
+          </Text>
+        </TouchableOpacity>
+        {editingId && (
+          <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  personCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: "transparent",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  personInfo: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  avatarText: {
+    color: "white",
+    fontSize: 18,
+    fontWeight: "700",
+  },
+  flex1: {
+    flex: 1,
+  },
+  personName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  personMeta: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  formCard: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: "#333",
+    backgroundColor: "#f8f9fa",
+    marginBottom: 12,
+  },
+  saveButton: {
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -17,42 +17,10 @@ import {
 import { Appbar } from 'react-native-paper';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import * as ImagePicker from 'expo-image-picker';
+import { PrescriptionData, savePrescription } from '@/utils/prescriptions';
 
 const GEMINI_KEY = process.env.EXPO_PUBLIC_GEMINI_API_KEY || ''
 
-interface DoctorInfo {
-    name: string;
-    degree: string;
-    specialization: string;
-    clinic_name: string;
-    clinic_address: string;
-    clinic_hours: string;
-    holiday: string;
-    phone: string[];
-}
-
-interface PatientInfo {
-    name: string;
-    date: string;
-    age: string;
-    weight: string;
-    body_temperature: string;
-}
-
-interface PrescriptionItem {
-    sl_no: number;
-    medicine: string;
-    dosage_pattern: string;
-}
-
-interface PrescriptionData {
-    doctor: DoctorInfo;
-    patient: PatientInfo;
-    prescription: PrescriptionItem[];
-    note: string;
-    signature_present: boolean;
-}
-
 interface ApiResponse {
     fullResponse: any;
     prescriptionData: PrescriptionData | null;
@@ -67,6 +35,7 @@ export default function PrescriptionScreen() {
     const [showUrlModal, setShowUrlModal] = useState(false);
     const [imageUrl, setImageUrl] = useState('');
     const [showRawResponse, setShowRawResponse] = useState(false);
+    const [savedPrescriptionId, setSavedPrescriptionId] = useState<string | null>(null);
 
     const SYSTEM_PROMPT = `
             You are an expert medical prescription analyzer. Analyze the prescription image and extract all relevant information into a structured JSON format.
@@ -308,11 +277,19 @@ export default function PrescriptionScreen() {
                 Alert.alert('Warning', 'Could not parse structured data, showing raw response');
             }
 
-            setApiResponse({
+            const scan: ApiResponse = {
                 fullResponse: result,
                 prescriptionData: prescriptionData,
                 rawText: text,
-            });
+            };
+            setApiResponse(scan);
+            setSavedPrescriptionId(null);
+
+            try {
+                await saveScan(selectedImage, scan);
+            } catch (error) {
+                console.error('Error saving prescription:', error);
+            }
 
         } catch (error) {
             console.error('Error calling Gemini API:', error);
@@ -322,6 +299,29 @@ export default function PrescriptionScreen() {
         }
     };
 
+    // Each scan is saved once, so leaving the screen doesn't lose it and
+    // going back and forth doesn't store it twice
+    const saveScan = async (imageUri: string, scan: ApiResponse): Promise<string> => {
+        const saved = await savePrescription({
+            imageUri,
+            data: scan.prescriptionData,
+            rawText: scan.rawText,
+        });
+        setSavedPrescriptionId(saved.id);
+        return saved.id;
+    };
+
+    const reviewMedications = async () => {
+        if (!apiResponse?.prescriptionData || !selectedImage) return;
+        try {
+            const prescriptionId = savedPrescriptionId ?? (await saveScan(selectedImage, apiResponse));
+            router.push({ pathname: '/prescriptions/review', params: { id: prescriptionId } });
+        } catch (error) {
+            console.error('Error saving prescription:', error);
+            Alert.alert('Error', 'Failed to save the prescription. Please try again.');
+        }
+    };
+
     return (
         <ScrollView style={styles.container}>
             <LinearGradient colors={["#0288D1", "#0277BD", "#01579B"]} style={styles.header}>
@@ -336,6 +336,13 @@ export default function PrescriptionScreen() {
                         <Text style={styles.title}>Prescription</Text>
                         <Text style={styles.subtitle}>Analyze prescription using AI-powered Gemini Vision</Text>
                     </View>
+                    <Appbar.Action
+                        icon="folder-open-outline"
+                        onPress={() => router.push('/prescriptions')}
+                        color="#ffffff"
+                        size={24}
+                        style={{ backgroundColor: 'rgba(255, 255, 255, 0.2)', margin: 0 }}
+                    />
                 </View>
             </LinearGradient>
 
@@ -385,6 +392,11 @@ export default function PrescriptionScreen() {
 
                 {apiResponse && (
                     <View style={styles.resultSection}>
+                        {savedPrescriptionId && (
+                            <TouchableOpacity onPress={() => router.push('/prescriptions')}>
+                                <Text style={styles.savedText}>✅ Saved to your prescriptions</Text>
+                            </TouchableOpacity>
+                        )}
                         {apiResponse.prescriptionData ? (
                             <View>
                                 <Text style={styles.resultTitle}>Prescription Analysis:</Text>
@@ -441,6 +453,14 @@ export default function PrescriptionScreen() {
                                     ) : (
                                         <Text style={styles.noDataText}>No prescription items found</Text>
                                     )}
+                                    {apiResponse.prescriptionData.prescription.length > 0 && (
+                                        <TouchableOpacity
+                                            style={[styles.button, styles.addMedicationsButton]}
+                                            onPress={reviewMedications}
+                                        >
+                                            <Text style={styles.buttonText}>💊 Add to My Medications</Text>
+                                        </TouchableOpacity>
+                                    )}
                                 </View>
 
                                 {/* Notes */}
@@ -545,6 +565,12 @@ const styles = StyleSheet.create({
         borderWidth: 2,
         borderColor: '#ddd',
     },
+    savedText: {
+        fontSize: 14,
+        color: '#1a8e2d',
+        fontWeight: '600',
+        marginBottom: 12,
+    },
     imageSourceText: {
         textAlign: 'center',
         marginTop: 8,
@@ -580,6 +606,10 @@ const styles = StyleSheet.create({
     extractButton: {
         backgroundColor: '#28a745',
     },
+    addMedicationsButton: {
+        backgroundColor: '#1a8e2d',
+        marginTop: 12,
+    },
     disabledButton: {
         backgroundColor: '#ccc',
     },
@@ -0,0 +1,339 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { router, useLocalSearchParams } from "expo-router";
+import { getMedications, Medication } from "../../utils/storage";
+import {
+  deletePrescription,
+  getPrescription,
+  SavedPrescription,
+} from "../../utils/prescriptions";
+
+export default function PrescriptionDetailsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [prescription, setPrescription] = useState<SavedPrescription | null>(null);
+  const [medications, setMedications] = useState<Medication[]>([]);
+  const [showRawText, setShowRawText] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      (async () => {
+        const saved = id ? await getPrescription(id) : undefined;
+        if (!saved) {
+          Alert.alert("Error", "Prescription not found");
+          router.back();
+          return;
+        }
+        setPrescription(saved);
+        // Medications deleted since are left out
+        setMedications(
+          (await getMedications()).filter(
+            (medication) =>
+              medication.prescriptionId === saved.id || saved.medicationIds.includes(medication.id)
+          )
+        );
+      })();
+    }, [id])
+  );
+
+  const handleDelete = () => {
+    if (!prescription) return;
+    Alert.alert(
+      "Delete prescription?",
+      "The photo and what was read from it are deleted. Medications added from it are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deletePrescription(prescription.id);
+              router.back();
+            } catch (error) {
+              console.error("Error deleting prescription:", error);
+              Alert.alert("Error", "Failed to delete the prescription. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (!prescription) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator color="#1a8e2d" />
+      </View>
+    );
+  }
+
+  const { data } = prescription;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      {prescription.imageUri && (
+        <Image
+          source={{ uri: prescription.imageUri }}
+          style={styles.image}
+          resizeMode="contain"
+        />
+      )}
+
+      {data && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{data.doctor.name || "Unknown doctor"}</Text>
+          {!!(data.doctor.degree || data.doctor.specialization) && (
+            <Text style={styles.metaText}>
+              {[data.doctor.degree, data.doctor.specialization].filter(Boolean).join(" · ")}
+            </Text>
+          )}
+          {!!data.doctor.clinic_name && (
+            <Text style={styles.metaText}>{data.doctor.clinic_name}</Text>
+          )}
+          <View style={styles.divider} />
+          <Text style={styles.infoText}>
+            Patient: {data.patient.name || "Not found"}
+            {data.patient.age ? ` (${data.patient.age})` : ""}
+          </Text>
+          <Text style={styles.infoText}>
+            Date: {data.patient.date || "Not found"} · scanned{" "}
+            {new Date(prescription.scannedAt).toLocaleDateString()}
+          </Text>
+        </View>
+      )}
+
+      {data && (
+        <>
+          <Text style={styles.sectionTitle}>Medicines</Text>
+          <View style={styles.card}>
+            {data.prescription.length === 0 ? (
+              <Text style={styles.metaText}>No medicines found</Text>
+            ) : (
+              data.prescription.map((item) => (
+                <View key={item.sl_no} style={styles.medicineRow}>
+                  <Text style={styles.medicineNumber}>{item.sl_no}.</Text>
+                  <View style={styles.flex1}>
+                    <Text style={styles.medicineName}>{item.medicine}</Text>
+                    {!!item.dosage_pattern && (
+                      <Text style={styles.metaText}>{item.dosage_pattern}</Text>
+                    )}
+                  </View>
+                </View>
+              ))
+            )}
+            {!!data.note && <Text style={styles.noteText}>{data.note}</Text>}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Added to My Medications</Text>
+      {medications.length === 0 ? (
+        <Text style={styles.emptyText}>None yet</Text>
+      ) : (
+        medications.map((medication) => (
+          <TouchableOpacity
+            key={medication.id}
+            style={styles.medicationCard}
+            onPress={() =>
+              router.push({
+                pathname: "/medications/edit",
+                params: { id: medication.id },
+              })
+            }
+          >
+            <View style={[styles.medicationColor, { backgroundColor: medication.color }]} />
+            <View style={styles.flex1}>
+              <Text style={styles.medicineName}>{medication.name}</Text>
+              <Text style={styles.metaText}>
+                {medication.dosage} · {medication.times.join(", ") || "As needed"}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#999" />
+          </TouchableOpacity>
+        ))
+      )}
+
+      {!!data?.prescription.length && (
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() =>
+            router.push({
+              pathname: "/prescriptions/review",
+              params: { id: prescription.id },
+            })
+          }
+        >
+          <Ionicons name="add-circle-outline" size={18} color="white" />
+          <Text style={styles.primaryButtonText}>Add to My Medications</Text>
+        </TouchableOpacity>
+      )}
+
+      <TouchableOpacity style={styles.textButton} onPress={() => setShowRawText(!showRawText)}>
+        <Text style={styles.textButtonText}>
+          {showRawText ? "Hide raw text" : "Show raw text"}
+        </Text>
+      </TouchableOpacity>
+      {showRawText && (
+        <View style={styles.card}>
+          <Text style={styles.rawText}>{prescription.rawText}</Text>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.textButton} onPress={handleDelete}>
+        <Text style={[styles.textButtonText, styles.deleteText]}>Delete prescription</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  loading: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  image: {
+    width: "100%",
+    height: 240,
+    borderRadius: 16,
+    backgroundColor: "#e0e0e0",
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#333",
+  },
+  metaText: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  divider: {
+    height: 1,
+    backgroundColor: "#e0e0e0",
+    marginVertical: 12,
+  },
+  infoText: {
+    fontSize: 14,
+    color: "#333",
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  medicineRow: {
+    flexDirection: "row",
+    marginBottom: 10,
+  },
+  medicineNumber: {
+    width: 24,
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1a8e2d",
+  },
+  flex1: {
+    flex: 1,
+  },
+  medicineName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#333",
+  },
+  noteText: {
+    fontSize: 13,
+    color: "#666",
+    fontStyle: "italic",
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666",
+    marginBottom: 12,
+  },
+  medicationCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  medicationColor: {
+    width: 12,
+    height: 40,
+    borderRadius: 6,
+    marginRight: 14,
+  },
+  primaryButton: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  textButton: {
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  textButtonText: {
+    color: "#1a8e2d",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+  deleteText: {
+    color: "#F44336",
+  },
+  rawText: {
+    fontSize: 12,
+    color: "#333",
+    fontFamily: "monospace",
+  },
+});
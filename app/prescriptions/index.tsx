@@ -0,0 +1,293 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Image,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { router } from "expo-router";
+import {
+  getPrescriptions,
+  groupPrescriptions,
+  PrescriptionGrouping,
+  SavedPrescription,
+  searchPrescriptions,
+} from "../../utils/prescriptions";
+
+const GROUPINGS: { value: PrescriptionGrouping; label: string }[] = [
+  { value: "date", label: "Date" },
+  { value: "doctor", label: "Doctor" },
+  { value: "patient", label: "Patient" },
+];
+
+export default function PrescriptionLibraryScreen() {
+  const [prescriptions, setPrescriptions] = useState<SavedPrescription[]>([]);
+  const [query, setQuery] = useState("");
+  const [grouping, setGrouping] = useState<PrescriptionGrouping>("date");
+
+  useFocusEffect(
+    useCallback(() => {
+      getPrescriptions().then(setPrescriptions);
+    }, [])
+  );
+
+  const term = query.trim().toLowerCase();
+  const groups = groupPrescriptions(searchPrescriptions(prescriptions, query), grouping);
+
+  const renderPrescription = (prescription: SavedPrescription) => {
+    const items = prescription.data?.prescription ?? [];
+    // While searching, show the medicines that matched
+    const medicines = term
+      ? items.filter((item) => item.medicine.toLowerCase().includes(term))
+      : items;
+    return (
+      <TouchableOpacity
+        key={prescription.id}
+        style={styles.prescriptionCard}
+        onPress={() =>
+          router.push({
+            pathname: "/prescriptions/details",
+            params: { id: prescription.id },
+          })
+        }
+      >
+        {prescription.imageUri ? (
+          <Image source={{ uri: prescription.imageUri }} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+            <Ionicons name="document-text-outline" size={24} color="#999" />
+          </View>
+        )}
+        <View style={styles.flex1}>
+          <Text style={styles.doctorName} numberOfLines={1}>
+            {prescription.data?.doctor.name || "Unknown doctor"}
+          </Text>
+          <Text style={styles.prescriptionMeta} numberOfLines={1}>
+            {prescription.data?.patient.name || "Unknown patient"} ·{" "}
+            {prescription.data?.patient.date ||
+              new Date(prescription.scannedAt).toLocaleDateString()}
+          </Text>
+          <Text style={styles.medicineList} numberOfLines={2}>
+            {prescription.data
+              ? medicines.map((item) => item.medicine).join(", ") || "No medicines found"
+              : "Couldn't be read; raw text kept"}
+          </Text>
+          {prescription.medicationIds.length > 0 && (
+            <Text style={styles.linkedText}>
+              {prescription.medicationIds.length} medication
+              {prescription.medicationIds.length === 1 ? "" : "s"} added
+            </Text>
+          )}
+        </View>
+        <Ionicons name="chevron-forward" size={20} color="#999" />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.searchBox}>
+        <Ionicons name="search" size={18} color="#999" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search by medicine"
+          placeholderTextColor="#999"
+          value={query}
+          onChangeText={setQuery}
+          autoCorrect={false}
+        />
+        {!!query && (
+          <TouchableOpacity onPress={() => setQuery("")}>
+            <Ionicons name="close-circle" size={18} color="#999" />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.chipRow}>
+        {GROUPINGS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, grouping === option.value && styles.selectedChip]}
+            onPress={() => setGrouping(option.value)}
+          >
+            <Text
+              style={[styles.chipText, grouping === option.value && styles.selectedChipText]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {groups.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="document-text-outline" size={48} color="#ccc" />
+          <Text style={styles.emptyStateText}>
+            {prescriptions.length === 0
+              ? "Prescriptions you scan are saved here"
+              : `No prescriptions with "${query.trim()}"`}
+          </Text>
+          {prescriptions.length === 0 && (
+            <TouchableOpacity
+              style={styles.scanButton}
+              onPress={() => router.push("/prescription")}
+            >
+              <Ionicons name="camera-outline" size={18} color="white" />
+              <Text style={styles.scanButtonText}>Scan a Prescription</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      ) : (
+        groups.map((group) => (
+          <View key={group.title}>
+            <Text style={styles.sectionTitle}>{group.title}</Text>
+            {group.prescriptions.map(renderPrescription)}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  searchBox: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    backgroundColor: "white",
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    paddingHorizontal: 14,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#333",
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: "white",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  selectedChip: {
+    backgroundColor: "#1a8e2d",
+    borderColor: "#1a8e2d",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  selectedChipText: {
+    color: "white",
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#333",
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  prescriptionCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    gap: 12,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 10,
+  },
+  thumbnailPlaceholder: {
+    backgroundColor: "#f0f0f0",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  flex1: {
+    flex: 1,
+  },
+  doctorName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  prescriptionMeta: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  medicineList: {
+    fontSize: 13,
+    color: "#333",
+    marginTop: 4,
+  },
+  linkedText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#1a8e2d",
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 30,
+    backgroundColor: "white",
+    borderRadius: 16,
+    marginTop: 12,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 10,
+    textAlign: "center",
+  },
+  scanButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  scanButtonText: {
+    color: "white",
+    fontSize: 15,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,753 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  Modal,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import DateTimePicker from "@react-native-community/datetimepicker";
+import { router, useLocalSearchParams } from "expo-router";
+import { getMedications } from "../../utils/storage";
+import { DOSAGE_FORMS, FOOD_TIMINGS } from "../../utils/dosage";
+import { formatTime, parseTime } from "../../utils/schedule";
+import { confirmInteractions, getRegimenInteractions } from "../../utils/interactions";
+import {
+  CONTRAINDICATION_DISPLAY,
+  Contraindication,
+  checkContraindications,
+  getHealthProfile,
+  hasBlockingContraindication,
+  toContraindicationOverrides,
+} from "../../utils/contraindications";
+import {
+  addMedicationsFromDrafts,
+  createMedicationDrafts,
+  draftToMedication,
+  getPrescription,
+  MedicationDraft,
+  SavedPrescription,
+} from "../../utils/prescriptions";
+
+interface DraftConflicts {
+  draft: MedicationDraft;
+  contraindications: Contraindication[];
+}
+
+export default function PrescriptionReviewScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [prescription, setPrescription] = useState<SavedPrescription | null>(null);
+  const [drafts, setDrafts] = useState<MedicationDraft[]>([]);
+  const [editingTime, setEditingTime] = useState<{ key: string; index: number } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pendingConflicts, setPendingConflicts] = useState<DraftConflicts[] | null>(null);
+  const [overrideReason, setOverrideReason] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const saved = id ? await getPrescription(id) : undefined;
+        if (!saved?.data) {
+          Alert.alert(
+            "Error",
+            saved ? "No medicines were read from this prescription" : "Prescription not found"
+          );
+          router.back();
+          return;
+        }
+        setPrescription(saved);
+        setDrafts(createMedicationDrafts(saved.data));
+      } catch (error) {
+        console.error("Error loading prescription:", error);
+        Alert.alert("Error", "This prescription couldn't be read");
+        router.back();
+      }
+    })();
+  }, [id]);
+
+  const updateDraft = (key: string, changes: Partial<MedicationDraft>) => {
+    setDrafts((current) =>
+      current.map((draft) => (draft.key === key ? { ...draft, ...changes } : draft))
+    );
+  };
+
+  const included = drafts.filter((draft) => draft.include);
+
+  const validate = (): string | null => {
+    for (const draft of included) {
+      const label = draft.name.trim() || draft.source.medicine;
+      if (!draft.name.trim()) return `Enter a name for item ${draft.source.sl_no}`;
+      if (!(draft.amount > 0)) return `Enter how much of ${label} to take per dose`;
+      if (!draft.asNeeded && draft.times.length === 0) {
+        return `Add at least one time for ${label}, or mark it as needed`;
+      }
+    }
+    return null;
+  };
+
+  const saveDrafts = async (toSave: MedicationDraft[]) => {
+    if (!prescription) return;
+    const added = await addMedicationsFromDrafts(toSave, prescription.id);
+    Alert.alert(
+      "Success",
+      `Added ${added.length} medication${added.length === 1 ? "" : "s"} with reminders.`,
+      [{ text: "OK", onPress: () => router.dismissTo("/(tabs)/home") }],
+      { cancelable: false }
+    );
+  };
+
+  const showSaveError = (error: unknown) => {
+    console.error("Error adding medications:", error);
+    Alert.alert("Error", "Failed to add medications. Please try again.");
+  };
+
+  const handleSave = async () => {
+    if (!prescription || isSubmitting) return;
+    if (included.length === 0) {
+      Alert.alert("Nothing to add", "Turn on at least one medication to add it.");
+      return;
+    }
+    const error = validate();
+    if (error) {
+      Alert.alert("Error", error);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // Check the new medications against each other and what's already taken
+      const candidates = included.map((draft) => draftToMedication(draft, prescription.id));
+      const candidateIds = new Set(candidates.map((medication) => medication.id));
+      const interactions = getRegimenInteractions([
+        ...(await getMedications()),
+        ...candidates,
+      ]).filter(({ medications }) =>
+        medications.some((medication) => candidateIds.has(medication.id))
+      );
+      if (!(await confirmInteractions(interactions))) return;
+
+      // Same allergy and condition check as adding a medication by hand
+      const profile = await getHealthProfile();
+      const conflicts = included
+        .map((draft) => ({
+          draft,
+          contraindications: checkContraindications(draft.name, profile),
+        }))
+        .filter(({ contraindications }) => contraindications.length > 0);
+      if (conflicts.length > 0) {
+        setOverrideReason("");
+        setPendingConflicts(conflicts);
+        return;
+      }
+
+      await saveDrafts(drafts);
+    } catch (error) {
+      showSaveError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOverride = async () => {
+    if (!prescription || !pendingConflicts || !overrideReason.trim()) return;
+    const conflicts = pendingConflicts;
+    setPendingConflicts(null);
+
+    try {
+      setIsSubmitting(true);
+      await saveDrafts(
+        drafts.map((draft) => {
+          const conflict = conflicts.find((item) => item.draft.key === draft.key);
+          return conflict
+            ? {
+                ...draft,
+                contraindicationOverrides: toContraindicationOverrides(
+                  conflict.contraindications,
+                  overrideReason.trim()
+                ),
+              }
+            : draft;
+        })
+      );
+    } catch (error) {
+      showSaveError(error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const editingDraft = editingTime
+    ? drafts.find((draft) => draft.key === editingTime.key)
+    : undefined;
+
+  if (!prescription?.data) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator color="#1a8e2d" />
+      </View>
+    );
+  }
+
+  const { doctor, patient } = prescription.data;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.summaryText}>
+          Check each medication against the prescription before adding it.
+          {doctor.name ? ` Prescribed by ${doctor.name}` : ""}
+          {patient.date ? ` on ${patient.date}` : ""}
+          {doctor.name || patient.date ? "." : ""}
+        </Text>
+
+        {drafts.map((draft) => (
+          <View
+            key={draft.key}
+            style={[styles.draftCard, !draft.include && styles.draftCardExcluded]}
+          >
+            <View style={styles.draftHeader}>
+              <View style={styles.flex1}>
+                <Text style={styles.sourceText}>
+                  {draft.source.sl_no}. {draft.source.medicine}
+                </Text>
+                {!!draft.source.dosage_pattern && (
+                  <Text style={styles.sourcePattern}>{draft.source.dosage_pattern}</Text>
+                )}
+              </View>
+              <Switch
+                value={draft.include}
+                onValueChange={(include) => updateDraft(draft.key, { include })}
+                trackColor={{ false: "#ddd", true: "#1a8e2d" }}
+                thumbColor="white"
+              />
+            </View>
+
+            {draft.include &&
+              draft.flags.map((flag) => (
+                <View key={flag} style={styles.flagRow}>
+                  <Ionicons name="warning-outline" size={16} color="#FF9800" />
+                  <Text style={styles.flagText}>{flag}</Text>
+                </View>
+              ))}
+
+            {draft.include && (
+              <>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, styles.flex2]}
+                    placeholder="Medication name"
+                    placeholderTextColor="#999"
+                    value={draft.name}
+                    onChangeText={(name) => updateDraft(draft.key, { name })}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.flex1]}
+                    placeholder="Strength"
+                    placeholderTextColor="#999"
+                    value={draft.dosage}
+                    onChangeText={(dosage) => updateDraft(draft.key, { dosage })}
+                  />
+                </View>
+
+                <Text style={styles.fieldLabel}>Per dose</Text>
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, styles.amountInput]}
+                    keyboardType="decimal-pad"
+                    value={draft.amount ? String(draft.amount) : ""}
+                    onChangeText={(text) =>
+                      updateDraft(draft.key, { amount: parseFloat(text) || 0 })
+                    }
+                  />
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <View style={styles.chipRow}>
+                      {DOSAGE_FORMS.map((option) => (
+                        <TouchableOpacity
+                          key={option.form}
+                          style={[
+                            styles.chip,
+                            draft.form === option.form && styles.selectedChip,
+                          ]}
+                          onPress={() => updateDraft(draft.key, { form: option.form })}
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              draft.form === option.form && styles.selectedChipText,
+                            ]}
+                          >
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </ScrollView>
+                </View>
+
+                <View style={styles.switchRow}>
+                  <Text style={styles.fieldLabel}>Only when needed</Text>
+                  <Switch
+                    value={draft.asNeeded}
+                    onValueChange={(asNeeded) =>
+                      updateDraft(draft.key, {
+                        asNeeded,
+                        times: asNeeded ? [] : draft.times.length > 0 ? draft.times : ["09:00"],
+                      })
+                    }
+                    trackColor={{ false: "#ddd", true: "#1a8e2d" }}
+                    thumbColor="white"
+                  />
+                </View>
+
+                {!draft.asNeeded && (
+                  <>
+                    <Text style={styles.fieldLabel}>
+                      {draft.schedule?.type === "interval"
+                        ? `First dose, then every ${draft.schedule.intervalHours} hours`
+                        : draft.schedule?.type === "cyclic"
+                          ? "Times, every other day"
+                          : "Times"}
+                    </Text>
+                    <View style={styles.chipRow}>
+                      {draft.times.map((time, index) => (
+                        <View key={`${time}-${index}`} style={styles.timeChip}>
+                          <TouchableOpacity
+                            onPress={() => setEditingTime({ key: draft.key, index })}
+                          >
+                            <Text style={styles.timeText}>{time}</Text>
+                          </TouchableOpacity>
+                          <TouchableOpacity
+                            onPress={() =>
+                              updateDraft(draft.key, {
+                                times: draft.times.filter((_, i) => i !== index),
+                              })
+                            }
+                          >
+                            <Ionicons name="close" size={16} color="#666" />
+                          </TouchableOpacity>
+                        </View>
+                      ))}
+                      <TouchableOpacity
+                        style={styles.addTimeChip}
+                        onPress={() =>
+                          updateDraft(draft.key, { times: [...draft.times, "21:00"] })
+                        }
+                      >
+                        <Ionicons name="add" size={16} color="#1a8e2d" />
+                        <Text style={styles.addTimeText}>Add time</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </>
+                )}
+
+                <Text style={styles.fieldLabel}>Duration (days)</Text>
+                <TextInput
+                  style={styles.input}
+                  keyboardType="number-pad"
+                  placeholder="Ongoing"
+                  placeholderTextColor="#999"
+                  value={draft.durationDays ? String(draft.durationDays) : ""}
+                  onChangeText={(text) =>
+                    updateDraft(draft.key, { durationDays: parseInt(text, 10) || null })
+                  }
+                />
+
+                <Text style={styles.fieldLabel}>Food</Text>
+                <View style={styles.chipRow}>
+                  {FOOD_TIMINGS.map((option) => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.chip,
+                        draft.foodTiming === option.value && styles.selectedChip,
+                      ]}
+                      onPress={() =>
+                        updateDraft(draft.key, {
+                          foodTiming:
+                            draft.foodTiming === option.value ? undefined : option.value,
+                        })
+                      }
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          draft.foodTiming === option.value && styles.selectedChipText,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, isSubmitting && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.saveButtonText}>
+              Add {included.length} Medication{included.length === 1 ? "" : "s"}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {editingTime && editingDraft && (
+        <DateTimePicker
+          value={(() => {
+            const { hours, minutes } = parseTime(
+              editingDraft.times[editingTime.index] ?? "09:00"
+            );
+            const date = new Date();
+            date.setHours(hours, minutes, 0, 0);
+            return date;
+          })()}
+          mode="time"
+          onChange={(event, date) => {
+            setEditingTime(null);
+            if (event.type === "set" && date) {
+              updateDraft(editingDraft.key, {
+                times: editingDraft.times.map((time, index) =>
+                  index === editingTime.index ? formatTime(date) : time
+                ),
+              });
+            }
+          }}
+        />
+      )}
+
+      <Modal
+        visible={pendingConflicts !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setPendingConflicts(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              {pendingConflicts?.some(({ contraindications }) =>
+                hasBlockingContraindication(contraindications)
+              )
+                ? "Not recommended for you"
+                : "Check before adding"}
+            </Text>
+            <ScrollView style={styles.conflictList}>
+              {pendingConflicts?.map(({ draft, contraindications }) => (
+                <View key={draft.key}>
+                  <Text style={styles.conflictMedication}>{draft.name}</Text>
+                  {contraindications.map((item) => {
+                    const display = CONTRAINDICATION_DISPLAY[item.level];
+                    return (
+                      <View
+                        key={`${item.trigger}-${item.ingredient}`}
+                        style={[
+                          styles.conflictItem,
+                          { backgroundColor: display.backgroundColor },
+                        ]}
+                      >
+                        <Text style={[styles.conflictLabel, { color: display.color }]}>
+                          {display.label} · {item.ingredient} and your{" "}
+                          {item.source === "allergy" ? "allergy" : "condition"}: {item.trigger}
+                        </Text>
+                        <Text style={styles.conflictDescription}>{item.description}</Text>
+                      </View>
+                    );
+                  })}
+                </View>
+              ))}
+            </ScrollView>
+            <Text style={styles.overrideHint}>
+              To add them anyway, note why (e.g. prescribed by your doctor knowing this), or
+              go back and turn them off
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Reason for overriding"
+              placeholderTextColor="#999"
+              value={overrideReason}
+              onChangeText={setOverrideReason}
+            />
+            <TouchableOpacity
+              style={[
+                styles.overrideButton,
+                !overrideReason.trim() && styles.saveButtonDisabled,
+              ]}
+              onPress={handleOverride}
+              disabled={!overrideReason.trim()}
+            >
+              <Text style={styles.overrideButtonText}>Add Anyway</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setPendingConflicts(null)}
+            >
+              <Text style={styles.cancelButtonText}>Go Back</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  loading: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  draftCard: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  draftCardExcluded: {
+    opacity: 0.6,
+  },
+  draftHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+  },
+  flex1: {
+    flex: 1,
+  },
+  flex2: {
+    flex: 2,
+  },
+  sourceText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  sourcePattern: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  flagRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    marginTop: 8,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: "#FFF3E0",
+  },
+  flagText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#333",
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: "#333",
+    backgroundColor: "#f8f9fa",
+  },
+  amountInput: {
+    width: 64,
+    textAlign: "center",
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666",
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  switchRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: "white",
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  selectedChip: {
+    backgroundColor: "#1a8e2d",
+    borderColor: "#1a8e2d",
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+  },
+  selectedChipText: {
+    color: "white",
+  },
+  timeChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: "#E8F5E9",
+  },
+  timeText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1a8e2d",
+  },
+  addTimeChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: "#1a8e2d",
+    borderStyle: "dashed",
+  },
+  addTimeText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#1a8e2d",
+  },
+  footer: {
+    padding: 20,
+    backgroundColor: "white",
+    borderTopWidth: 1,
+    borderTopColor: "#e0e0e0",
+  },
+  saveButton: {
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+    marginBottom: 15,
+  },
+  conflictList: {
+    marginBottom: 10,
+  },
+  conflictMedication: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 8,
+  },
+  conflictItem: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  conflictLabel: {
+    fontSize: 14,
+    fontWeight: "700",
+    marginBottom: 4,
+  },
+  conflictDescription: {
+    fontSize: 14,
+    color: "#444",
+  },
+  overrideHint: {
+    fontSize: 13,
+    color: "#666",
+    marginBottom: 10,
+  },
+  overrideButton: {
+    backgroundColor: "#C62828",
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 12,
+  },
+  overrideButtonText: {
+    color: "white",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: "center",
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
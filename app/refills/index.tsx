@@ -7,26 +7,72 @@ import {
   ScrollView,
   Platform,
   Alert,
+  Modal,
+  TextInput,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { Ionicons } from "@expo/vector-icons";
 import { LinearGradient } from "expo-linear-gradient";
 import { useFocusEffect } from "@react-navigation/native";
+import DateTimePicker from "@react-native-community/datetimepicker";
 import {
+  DoseHistory,
+  getDoseHistory,
   getMedications,
+  getRefillLog,
   Medication,
-  updateMedication,
+  recordRefill,
+  RefillEntry,
 } from "../../utils/storage";
 import { scheduleRefillReminder } from "../../utils/notifications";
+import { describeSchedule, isCourseEnded } from "../../utils/schedule";
+import {
+  forecastRunOut,
+  getRefillLeadDays,
+  getRefillReminderDate,
+  REFILL_LEAD_DAY_OPTIONS,
+  setRefillLeadDays,
+} from "../../utils/refillForecast";
+import {
+  formatCurrency,
+  formatMonth,
+  getMonthlySpend,
+  getRefillsForMedication,
+} from "../../utils/refillLedger";
+import { formatSupply, formatUnit, getSupplyUnit } from "../../utils/dosage";
+
+const EMPTY_REFILL_FORM = {
+  quantity: "",
+  pharmacy: "",
+  price: "",
+  batchNumber: "",
+};
 
 export default function RefillTrackerScreen() {
   const router = useRouter();
   const [medications, setMedications] = useState<Medication[]>([]);
+  const [doseHistory, setDoseHistory] = useState<DoseHistory[]>([]);
+  const [leadDays, setLeadDays] = useState<number | null>(null);
+  const [refillLog, setRefillLog] = useState<RefillEntry[]>([]);
+  const [refillTarget, setRefillTarget] = useState<Medication | null>(null);
+  const [refillForm, setRefillForm] = useState(EMPTY_REFILL_FORM);
+  const [refillDate, setRefillDate] = useState(new Date());
+  const [expiryDate, setExpiryDate] = useState<Date | null>(null);
+  const [datePicker, setDatePicker] = useState<"refill" | "expiry" | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
 
   const loadMedications = useCallback(async () => {
     try {
-      const allMedications = await getMedications();
+      const [allMedications, history, savedLeadDays, log] = await Promise.all([
+        getMedications(),
+        getDoseHistory(),
+        getRefillLeadDays(),
+        getRefillLog(),
+      ]);
       setMedications(allMedications);
+      setDoseHistory(history);
+      setLeadDays(savedLeadDays);
+      setRefillLog(log);
     } catch (error) {
       console.error("Error loading medications:", error);
     }
@@ -38,20 +84,53 @@ export default function RefillTrackerScreen() {
     }, [loadMedications])
   );
 
-  const handleRefill = async (medication: Medication) => {
-    try {
-      const updatedMedication = {
-        ...medication,
-        currentSupply: medication.totalSupply,
-        lastRefillDate: new Date().toISOString(),
-      };
+  const openRefillForm = (medication: Medication) => {
+    const lastRefill = getRefillsForMedication(medication.id, refillLog)[0];
+    setRefillForm({
+      ...EMPTY_REFILL_FORM,
+      quantity: Math.max(0, medication.totalSupply - medication.currentSupply).toString(),
+      pharmacy: lastRefill?.pharmacy ?? "",
+    });
+    setRefillDate(new Date());
+    setExpiryDate(null);
+    setRefillTarget(medication);
+  };
+
+  const handleRefill = async () => {
+    if (!refillTarget) return;
 
-      await updateMedication(updatedMedication);
+    const quantity = Number(refillForm.quantity);
+    if (!refillForm.quantity || isNaN(quantity) || quantity <= 0) {
+      Alert.alert(
+        "Error",
+        `Enter how many ${formatUnit(getSupplyUnit(refillTarget))} you received`
+      );
+      return;
+    }
+    const price = refillForm.price ? Number(refillForm.price) : undefined;
+    if (price !== undefined && (isNaN(price) || price < 0)) {
+      Alert.alert("Error", "Enter a valid price");
+      return;
+    }
+
+    try {
+      const updatedMedication = await recordRefill(refillTarget.id, {
+        date: refillDate.toISOString(),
+        quantity,
+        pharmacy: refillForm.pharmacy.trim() || undefined,
+        price,
+        batchNumber: refillForm.batchNumber.trim() || undefined,
+        expiryDate: expiryDate?.toISOString(),
+      });
+      if (updatedMedication) {
+        await scheduleRefillReminder(updatedMedication);
+      }
+      setRefillTarget(null);
       await loadMedications();
 
       Alert.alert(
         "Refill Recorded",
-        `${medication.name} has been refilled to ${medication.totalSupply} units.`
+        `Added ${formatSupply(refillTarget, quantity)} of ${refillTarget.name}. You now have ${formatSupply(refillTarget, updatedMedication?.currentSupply ?? quantity)}.`
       );
     } catch (error) {
       console.error("Error recording refill:", error);
@@ -59,10 +138,41 @@ export default function RefillTrackerScreen() {
     }
   };
 
+  const handleLeadDaysChange = async (days: number) => {
+    setLeadDays(days);
+    await setRefillLeadDays(days);
+    for (const medication of medications) {
+      await scheduleRefillReminder(medication, false);
+    }
+  };
+
+  const describeRunOut = (medication: Medication) => {
+    const forecast = forecastRunOut(medication, doseHistory);
+    if (forecast.runOutDate && forecast.daysRemaining !== null) {
+      const days =
+        forecast.daysRemaining === 0
+          ? "runs out today"
+          : `${forecast.daysRemaining} day${forecast.daysRemaining === 1 ? "" : "s"} left`;
+      return {
+        runOut: `Runs out on ${forecast.runOutDate.toLocaleDateString()} (${days})`,
+        remindAt: leadDays !== null && medication.refillReminder
+          ? getRefillReminderDate(forecast, leadDays)
+          : null,
+      };
+    }
+    return {
+      runOut: forecast.coversCourse
+        ? "Enough supply for the rest of the course"
+        : null,
+      remindAt: null,
+    };
+  };
+
   const getSupplyStatus = (medication: Medication) => {
     const percentage =
       (medication.currentSupply / medication.totalSupply) * 100;
-    if (percentage <= medication.refillAt) {
+    // The refill threshold is in the medication's dose unit, not a percentage
+    if (medication.currentSupply <= medication.refillAt) {
       return {
         status: "Low",
         color: "#F44336",
@@ -83,13 +193,75 @@ export default function RefillTrackerScreen() {
     }
   };
 
+  // Archived courses still count towards spend, but aren't tracked any more
+  const trackedMedications = medications.filter((med) => !isCourseEnded(med));
+  const monthlySpend = getMonthlySpend(refillLog, medications);
+  const hasSpend = monthlySpend.some((month) => month.refillCount > 0);
+
   return (
     <View style={styles.container}>
       <ScrollView
         style={styles.medicationsContainer}
         showsVerticalScrollIndicator={false}
       >
-        {medications.length === 0 ? (
+        {hasSpend && (
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>Medication spend</Text>
+            <View style={styles.spendHeader}>
+              <Text style={styles.spendTotal}>
+                {formatCurrency(monthlySpend[0].total)}
+              </Text>
+              <Text style={styles.spendCaption}>
+                this month · {monthlySpend[0].refillCount} refill
+                {monthlySpend[0].refillCount === 1 ? "" : "s"}
+              </Text>
+            </View>
+            {monthlySpend[0].perMedication.map((item) => (
+              <View key={item.medicationId} style={styles.spendRow}>
+                <Text style={styles.spendRowLabel}>{item.name}</Text>
+                <Text style={styles.spendRowValue}>
+                  {formatCurrency(item.total)}
+                </Text>
+              </View>
+            ))}
+            <View style={styles.spendDivider} />
+            {monthlySpend.slice(1).map((month) => (
+              <View key={month.month.toISOString()} style={styles.spendRow}>
+                <Text style={styles.spendRowLabel}>{formatMonth(month.month)}</Text>
+                <Text style={styles.spendRowValue}>
+                  {formatCurrency(month.total)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+        {trackedMedications.length > 0 && leadDays !== null && (
+          <View style={styles.sectionCard}>
+            <Text style={styles.sectionTitle}>Remind me before running out</Text>
+            <View style={styles.leadDaysOptions}>
+              {REFILL_LEAD_DAY_OPTIONS.map((days) => (
+                <TouchableOpacity
+                  key={days}
+                  style={[
+                    styles.leadDaysOption,
+                    leadDays === days && styles.leadDaysOptionSelected,
+                  ]}
+                  onPress={() => handleLeadDaysChange(days)}
+                >
+                  <Text
+                    style={[
+                      styles.leadDaysOptionText,
+                      leadDays === days && styles.leadDaysOptionTextSelected,
+                    ]}
+                  >
+                    {days} days
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+        {trackedMedications.length === 0 ? (
           <View style={styles.emptyState}>
             <Ionicons name="medical-outline" size={48} color="#ccc" />
             <Text style={styles.emptyStateText}>No medications to track</Text>
@@ -107,10 +279,15 @@ export default function RefillTrackerScreen() {
             </TouchableOpacity>
           </View>
         ) : (
-          medications.map((medication) => {
+          trackedMedications.map((medication) => {
             const supplyStatus = getSupplyStatus(medication);
-            const supplyPercentage =
-              (medication.currentSupply / medication.totalSupply) * 100;
+            const supplyPercentage = Math.min(
+              100,
+              (medication.currentSupply / medication.totalSupply) * 100
+            );
+            const refills = getRefillsForMedication(medication.id, refillLog);
+            const isExpanded = expandedId === medication.id;
+            const { runOut, remindAt } = describeRunOut(medication);
 
             return (
               <View key={medication.id} style={styles.medicationCard}>
@@ -150,7 +327,7 @@ export default function RefillTrackerScreen() {
                   <View style={styles.supplyInfo}>
                     <Text style={styles.supplyLabel}>Current Supply</Text>
                     <Text style={styles.supplyValue}>
-                      {medication.currentSupply} units
+                      {formatSupply(medication, medication.currentSupply)}
                     </Text>
                   </View>
                   <View style={styles.progressBarContainer}>
@@ -171,8 +348,19 @@ export default function RefillTrackerScreen() {
                   </View>
                   <View style={styles.refillInfo}>
                     <Text style={styles.refillLabel}>
-                      Refill at: {medication.refillAt}%
+                      Refill at: {formatSupply(medication, medication.refillAt)}
                     </Text>
+                    {runOut && (
+                      <Text style={styles.runOutText}>{runOut}</Text>
+                    )}
+                    <Text style={styles.lastRefillDate}>
+                      {describeSchedule(medication)}
+                    </Text>
+                    {remindAt && (
+                      <Text style={styles.lastRefillDate}>
+                        Refill reminder on {remindAt.toLocaleDateString()}
+                      </Text>
+                    )}
                     {medication.lastRefillDate && (
                       <Text style={styles.lastRefillDate}>
                         Last refill:{" "}
@@ -184,16 +372,60 @@ export default function RefillTrackerScreen() {
                   </View>
                 </View>
 
+                {refills.length > 0 && (
+                  <TouchableOpacity
+                    style={styles.historyToggle}
+                    onPress={() =>
+                      setExpandedId(isExpanded ? null : medication.id)
+                    }
+                  >
+                    <Text style={styles.historyToggleText}>
+                      Refill history ({refills.length})
+                    </Text>
+                    <Ionicons
+                      name={isExpanded ? "chevron-up" : "chevron-down"}
+                      size={16}
+                      color="#666"
+                    />
+                  </TouchableOpacity>
+                )}
+                {isExpanded &&
+                  refills.map((refill) => (
+                    <View key={refill.id} style={styles.refillEntry}>
+                      <View style={styles.spendRow}>
+                        <Text style={styles.refillEntryTitle}>
+                          +{formatSupply(medication, refill.quantity)} ·{" "}
+                          {new Date(refill.date).toLocaleDateString()}
+                        </Text>
+                        {refill.price !== undefined && (
+                          <Text style={styles.spendRowValue}>
+                            {formatCurrency(refill.price)}
+                          </Text>
+                        )}
+                      </View>
+                      {refill.pharmacy && (
+                        <Text style={styles.lastRefillDate}>{refill.pharmacy}</Text>
+                      )}
+                      {(refill.batchNumber || refill.expiryDate) && (
+                        <Text style={styles.lastRefillDate}>
+                          {[
+                            refill.batchNumber && `Batch ${refill.batchNumber}`,
+                            refill.expiryDate &&
+                              `Expires ${new Date(refill.expiryDate).toLocaleDateString()}`,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </Text>
+                      )}
+                    </View>
+                  ))}
+
                 <TouchableOpacity
                   style={[
                     styles.refillButton,
-                    {
-                      backgroundColor:
-                        supplyPercentage < 100 ? medication.color : "#e0e0e0",
-                    },
+                    { backgroundColor: medication.color },
                   ]}
-                  onPress={() => handleRefill(medication)}
-                  disabled={supplyPercentage >= 100}
+                  onPress={() => openRefillForm(medication)}
                 >
                   <Text style={styles.refillButtonText}>Record Refill</Text>
                 </TouchableOpacity>
@@ -202,6 +434,124 @@ export default function RefillTrackerScreen() {
           })
         )}
       </ScrollView>
+
+      <Modal
+        visible={refillTarget !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setRefillTarget(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>
+              Refill {refillTarget?.name}
+            </Text>
+            <ScrollView>
+              <Text style={styles.inputLabel}>
+                {refillTarget &&
+                  `${formatUnit(getSupplyUnit(refillTarget))} received`}
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={refillForm.quantity}
+                onChangeText={(text) =>
+                  setRefillForm({ ...refillForm, quantity: text })
+                }
+                keyboardType="numeric"
+                placeholder="e.g. 30"
+                placeholderTextColor="#999"
+              />
+
+              <Text style={styles.inputLabel}>Refill date</Text>
+              <TouchableOpacity
+                style={styles.input}
+                onPress={() => setDatePicker("refill")}
+              >
+                <Text style={styles.inputText}>
+                  {refillDate.toLocaleDateString()}
+                </Text>
+              </TouchableOpacity>
+
+              <Text style={styles.inputLabel}>Pharmacy (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={refillForm.pharmacy}
+                onChangeText={(text) =>
+                  setRefillForm({ ...refillForm, pharmacy: text })
+                }
+                placeholder="Where you bought it"
+                placeholderTextColor="#999"
+              />
+
+              <Text style={styles.inputLabel}>Price paid (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={refillForm.price}
+                onChangeText={(text) =>
+                  setRefillForm({ ...refillForm, price: text })
+                }
+                keyboardType="decimal-pad"
+                placeholder="₹"
+                placeholderTextColor="#999"
+              />
+
+              <Text style={styles.inputLabel}>Batch number (optional)</Text>
+              <TextInput
+                style={styles.input}
+                value={refillForm.batchNumber}
+                onChangeText={(text) =>
+                  setRefillForm({ ...refillForm, batchNumber: text })
+                }
+                placeholderTextColor="#999"
+              />
+
+              <Text style={styles.inputLabel}>Expiry date (optional)</Text>
+              <TouchableOpacity
+                style={styles.input}
+                onPress={() => setDatePicker("expiry")}
+              >
+                <Text style={[styles.inputText, !expiryDate && styles.placeholderText]}>
+                  {expiryDate ? expiryDate.toLocaleDateString() : "Not set"}
+                </Text>
+              </TouchableOpacity>
+            </ScrollView>
+
+            {datePicker && (
+              <DateTimePicker
+                value={datePicker === "refill" ? refillDate : expiryDate ?? new Date()}
+                mode="date"
+                maximumDate={datePicker === "refill" ? new Date() : undefined}
+                minimumDate={datePicker === "expiry" ? new Date() : undefined}
+                onChange={(event, date) => {
+                  setDatePicker(null);
+                  if (!date) return;
+                  if (datePicker === "refill") {
+                    setRefillDate(date);
+                  } else {
+                    setExpiryDate(date);
+                  }
+                }}
+              />
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.refillButton,
+                { backgroundColor: refillTarget?.color ?? "#1a8e2d" },
+              ]}
+              onPress={handleRefill}
+            >
+              <Text style={styles.refillButtonText}>Save Refill</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => setRefillTarget(null)}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -348,6 +698,158 @@ const styles = StyleSheet.create({
     color: "#666",
     marginTop: 2,
   },
+  runOutText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+    marginTop: 4,
+  },
+  sectionCard: {
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#333",
+    marginBottom: 12,
+  },
+  leadDaysOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  leadDaysOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: "#f5f5f5",
+  },
+  leadDaysOptionSelected: {
+    backgroundColor: "#1a8e2d",
+  },
+  leadDaysOptionText: {
+    fontSize: 13,
+    color: "#666",
+  },
+  leadDaysOptionTextSelected: {
+    color: "white",
+    fontWeight: "600",
+  },
+  spendHeader: {
+    flexDirection: "row",
+    alignItems: "baseline",
+    marginBottom: 8,
+  },
+  spendTotal: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: "#1a8e2d",
+    marginRight: 8,
+  },
+  spendCaption: {
+    fontSize: 13,
+    color: "#666",
+  },
+  spendRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 3,
+  },
+  spendRowLabel: {
+    fontSize: 13,
+    color: "#666",
+  },
+  spendRowValue: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#333",
+  },
+  spendDivider: {
+    height: 1,
+    backgroundColor: "#f0f0f0",
+    marginVertical: 8,
+  },
+  historyToggle: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  historyToggleText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+  },
+  refillEntry: {
+    borderLeftWidth: 2,
+    borderLeftColor: "#e0e0e0",
+    paddingLeft: 10,
+    marginBottom: 10,
+  },
+  refillEntryTitle: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#333",
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modalContent: {
+    backgroundColor: "white",
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    padding: 20,
+    maxHeight: "85%",
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "bold",
+    color: "#333",
+    marginBottom: 15,
+  },
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#666",
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: "#333",
+    backgroundColor: "#f8f9fa",
+    marginBottom: 14,
+  },
+  inputText: {
+    fontSize: 15,
+    color: "#333",
+  },
+  placeholderText: {
+    color: "#999",
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: "#666",
+    fontSize: 16,
+    fontWeight: "600",
+  },
   refillButton: {
     paddingVertical: 12,
     borderRadius: 12,
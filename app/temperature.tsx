@@ -22,6 +22,7 @@ import {
 import { Appbar } from "react-native-paper"
 import { router } from "expo-router"
 import { LineChart } from "react-native-chart-kit";
+import { getVital, saveVital } from "@/utils/vitals";
 
 const { width, height } = Dimensions.get("window")
 
@@ -147,12 +148,6 @@ export default function TemperatureScreen() {
     const [selectedDayData, setSelectedDayData] = useState<DayDetailData | null>(null)
     const [loadingDayDetail, setLoadingDayDetail] = useState(false)
 
-    // Get today's date string for storage key
-    const getTodayKey = () => {
-        const today = new Date()
-        return `temp_${today.getFullYear()}_${today.getMonth()}_${today.getDate()}`
-    }
-
     // Check if we can write body temperature data
     const canWriteTemperature = (): boolean => {
         return healthPermissions.some(
@@ -614,11 +609,9 @@ export default function TemperatureScreen() {
     // Load saved temperature for today
     const loadTemperature = async () => {
         try {
-            const todayKey = getTodayKey();
-            const savedTemp = await AsyncStorage.getItem(todayKey);
-            if (savedTemp) {
-                const tempData = JSON.parse(savedTemp);
-                setBodyTemperature(tempData.temp || 72);
+            const savedTemp = await getVital("temperature");
+            if (savedTemp !== null) {
+                setBodyTemperature(savedTemp || 72);
             }
         } catch (error) {
             console.error("Error loading temperature:", error);
@@ -628,9 +621,7 @@ export default function TemperatureScreen() {
     // Save temperature
     const saveTemperature = async (celsius: number) => {
         try {
-            const todayKey = getTodayKey()
-            const tempData = { temp: celsius }
-            await AsyncStorage.setItem(todayKey, JSON.stringify(tempData))
+            await saveVital("temperature", celsius)
         } catch (error) {
             console.error("Error saving temperature:", error)
         }
@@ -0,0 +1,262 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect } from "@react-navigation/native";
+import { TrashEntry } from "../../utils/storage";
+import {
+  deleteFromTrash,
+  emptyTrash,
+  getPurgeDate,
+  getTrash,
+  restoreFromTrash,
+  TRASH_RETENTION_DAYS,
+} from "../../utils/trash";
+
+function describeEntry(entry: TrashEntry): string {
+  const { medications, doses } = entry.records;
+  const parts =
+    entry.kind === "clearedData"
+      ? [`${medications.length} medication${medications.length === 1 ? "" : "s"}`]
+      : [];
+  parts.push(`${doses.length} dose log${doses.length === 1 ? "" : "s"}`);
+  return parts.join(" · ");
+}
+
+export default function TrashScreen() {
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setEntries(await getTrash());
+    } catch (error) {
+      console.error("Error loading trash:", error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTrash();
+    }, [loadTrash])
+  );
+
+  const handleRestore = async (entry: TrashEntry) => {
+    try {
+      await restoreFromTrash(entry.id);
+      await loadTrash();
+      Alert.alert("Restored", `${entry.label} has been restored and its reminders are back on.`);
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+      Alert.alert("Error", "Failed to restore. Please try again.");
+    }
+  };
+
+  const handleDelete = (entry: TrashEntry) => {
+    Alert.alert(
+      `Delete ${entry.label} for good?`,
+      "It can't be restored afterwards.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteFromTrash(entry.id);
+              await loadTrash();
+            } catch (error) {
+              console.error("Error deleting from trash:", error);
+              Alert.alert("Error", "Failed to delete. Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmpty = () => {
+    Alert.alert("Empty trash?", "Everything in the trash is deleted for good.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Empty",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await emptyTrash();
+            await loadTrash();
+          } catch (error) {
+            console.error("Error emptying trash:", error);
+            Alert.alert("Error", "Failed to empty the trash. Please try again.");
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      showsVerticalScrollIndicator={false}
+    >
+      <Text style={styles.summaryText}>
+        Deleted medications and cleared history are kept here for{" "}
+        {TRASH_RETENTION_DAYS} days. Restoring puts back the dose history and
+        turns reminders back on.
+      </Text>
+
+      {entries.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="trash-outline" size={48} color="#ccc" />
+          <Text style={styles.emptyStateText}>The trash is empty</Text>
+        </View>
+      ) : (
+        <>
+          {entries.map((entry) => {
+            const color = entry.records.medications[0]?.color ?? "#666";
+            return (
+              <View key={entry.id} style={styles.entryCard}>
+                <View
+                  style={[
+                    styles.medicationColor,
+                    { backgroundColor: entry.kind === "medication" ? color : "#e0e0e0" },
+                  ]}
+                />
+                <View style={styles.flex1}>
+                  <Text style={styles.entryName}>{entry.label}</Text>
+                  <Text style={styles.entryMeta}>{describeEntry(entry)}</Text>
+                  <Text style={styles.entryMeta}>
+                    Deleted {new Date(entry.deletedAt).toLocaleDateString()} · gone after{" "}
+                    {getPurgeDate(entry).toLocaleDateString()}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => handleDelete(entry)}
+                >
+                  <Ionicons name="close-circle-outline" size={22} color="#F44336" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleRestore(entry)}
+                >
+                  <Ionicons name="arrow-undo" size={16} color="white" />
+                  <Text style={styles.actionButtonText}>Restore</Text>
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+
+          <TouchableOpacity style={styles.emptyButton} onPress={handleEmpty}>
+            <Ionicons name="trash-outline" size={20} color="#FF5252" />
+            <Text style={styles.emptyButtonText}>Empty trash</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#f8f9fa",
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: "#666",
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  entryCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "#e0e0e0",
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  medicationColor: {
+    width: 12,
+    height: 40,
+    borderRadius: 6,
+    marginRight: 14,
+  },
+  flex1: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#333",
+  },
+  entryMeta: {
+    fontSize: 13,
+    color: "#666",
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  actionButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1a8e2d",
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    gap: 4,
+    marginLeft: 6,
+  },
+  actionButtonText: {
+    color: "white",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 30,
+    backgroundColor: "white",
+    borderRadius: 16,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: "#666",
+    marginTop: 10,
+    textAlign: "center",
+  },
+  emptyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 15,
+    borderRadius: 12,
+    marginTop: 8,
+    borderWidth: 1,
+    borderColor: "#FFEBEE",
+    backgroundColor: "white",
+    gap: 8,
+  },
+  emptyButtonText: {
+    color: "#FF5252",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -24,6 +24,7 @@ import {
 import { Appbar } from "react-native-paper"
 import { router } from "expo-router"
 import { updateHydrationWidget } from "@/lib/WidgetUpdateService"
+import { getVital, saveVital } from "@/utils/vitals"
 
 const { width, height } = Dimensions.get("window")
 
@@ -186,12 +187,6 @@ export default function WaterScreen() {
     const [selectedDayData, setSelectedDayData] = useState<DayDetailData | null>(null)
     const [loadingDayDetail, setLoadingDayDetail] = useState(false)
 
-    // Get today's date string for storage key
-    const getTodayKey = () => {
-        const today = new Date()
-        return `water_${today.getFullYear()}_${today.getMonth()}_${today.getDate()}`
-    }
-
     // Sync water data with Google Health Connect
     const syncWithHealthConnect = async () => {
         if (!isHealthConnectInitialized || !canWriteHydration()) {
@@ -440,10 +435,9 @@ export default function WaterScreen() {
     // Load saved water intake for today
     const loadWaterIntake = async () => {
         try {
-            const todayKey = getTodayKey()
-            const savedIntake = await AsyncStorage.getItem(todayKey)
-            if (savedIntake) {
-                setWaterIntake(Number.parseInt(savedIntake, 10))
+            const savedIntake = await getVital("water")
+            if (savedIntake !== null) {
+                setWaterIntake(savedIntake)
             }
         } catch (error) {
             console.error("Error loading water intake:", error)
@@ -474,8 +468,7 @@ export default function WaterScreen() {
     // Save water intake
     const saveWaterIntake = async (intake: number) => {
         try {
-            const todayKey = getTodayKey()
-            await AsyncStorage.setItem(todayKey, intake.toString())
+            await saveVital("water", intake)
             
             // Update widget immediately with new water intake
             await updateHydrationWidget(intake)
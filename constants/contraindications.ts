@@ -0,0 +1,169 @@
+/**
+ * Offline allergy and condition contraindication data.
+ * Rules name ingredients or drug classes from DRUG_CLASSES in ./drugInteractions.
+ */
+
+export type ContraindicationLevel = "block" | "warn";
+
+export interface ContraindicationRule {
+  // Ingredients or drug classes the rule applies to
+  targets: string[];
+  level: ContraindicationLevel;
+  description: string;
+}
+
+// Keyed by the lower-cased allergy label used on the profile screen
+export const ALLERGY_RULES: Record<string, ContraindicationRule[]> = {
+  penicillin: [
+    {
+      targets: ["penicillin"],
+      level: "block",
+      description: "Belongs to the penicillin family.",
+    },
+    {
+      targets: ["cephalosporin"],
+      level: "warn",
+      description: "A small number of people allergic to penicillin also react to cephalosporins.",
+    },
+  ],
+  aspirin: [
+    {
+      targets: ["aspirin"],
+      level: "block",
+      description: "Contains aspirin.",
+    },
+    {
+      targets: ["nsaid"],
+      level: "warn",
+      description: "People sensitive to aspirin often react to other NSAID painkillers.",
+    },
+  ],
+  ibuprofen: [
+    {
+      targets: ["ibuprofen"],
+      level: "block",
+      description: "Contains ibuprofen.",
+    },
+    {
+      targets: ["nsaid", "aspirin"],
+      level: "warn",
+      description: "Other NSAID painkillers can cause the same reaction as ibuprofen.",
+    },
+  ],
+  "sulfa drugs": [
+    {
+      targets: ["sulfonamide"],
+      level: "block",
+      description: "Is a sulfonamide (sulfa) medicine.",
+    },
+  ],
+};
+
+// Keyed by the lower-cased condition label used on the profile screen
+export const CONDITION_RULES: Record<string, ContraindicationRule[]> = {
+  asthma: [
+    {
+      targets: ["nonselective_beta_blocker"],
+      level: "block",
+      description: "Non-selective beta blockers can trigger severe asthma attacks.",
+    },
+    {
+      targets: ["nsaid", "aspirin"],
+      level: "warn",
+      description: "NSAIDs and aspirin can worsen asthma in some people.",
+    },
+  ],
+  copd: [
+    {
+      targets: ["nonselective_beta_blocker"],
+      level: "warn",
+      description: "Non-selective beta blockers can narrow the airways.",
+    },
+  ],
+  "kidney disease": [
+    {
+      targets: ["nsaid"],
+      level: "warn",
+      description: "NSAIDs can further reduce kidney function.",
+    },
+    {
+      targets: ["metformin"],
+      level: "warn",
+      description: "Metformin dose depends on kidney function and may need to be reduced or stopped.",
+    },
+    {
+      targets: ["lithium", "digoxin"],
+      level: "warn",
+      description: "Builds up when the kidneys are impaired and needs closer monitoring.",
+    },
+  ],
+  "liver disease": [
+    {
+      targets: ["paracetamol"],
+      level: "warn",
+      description: "Keep paracetamol to a reduced daily maximum with liver disease.",
+    },
+    {
+      targets: ["statin"],
+      level: "warn",
+      description: "Statins are processed by the liver and need monitoring in liver disease.",
+    },
+  ],
+  "high blood pressure": [
+    {
+      targets: ["decongestant"],
+      level: "warn",
+      description: "Decongestants can raise blood pressure.",
+    },
+    {
+      targets: ["nsaid"],
+      level: "warn",
+      description: "NSAIDs can raise blood pressure and weaken blood pressure medicines.",
+    },
+  ],
+  "heart disease": [
+    {
+      targets: ["nsaid"],
+      level: "warn",
+      description: "NSAIDs increase the risk of heart attack and heart failure.",
+    },
+    {
+      targets: ["decongestant"],
+      level: "warn",
+      description: "Decongestants can raise heart rate and blood pressure.",
+    },
+  ],
+  "diabetes type 1": [
+    {
+      targets: ["corticosteroid"],
+      level: "warn",
+      description: "Steroids raise blood sugar. Monitor closely.",
+    },
+  ],
+  "diabetes type 2": [
+    {
+      targets: ["corticosteroid"],
+      level: "warn",
+      description: "Steroids raise blood sugar. Monitor closely.",
+    },
+  ],
+  epilepsy: [
+    {
+      targets: ["tramadol"],
+      level: "warn",
+      description: "Tramadol lowers the seizure threshold.",
+    },
+    {
+      targets: ["fluoroquinolone"],
+      level: "warn",
+      description: "Fluoroquinolone antibiotics can trigger seizures.",
+    },
+  ],
+  osteoporosis: [
+    {
+      targets: ["corticosteroid"],
+      level: "warn",
+      description: "Long-term steroid use weakens bones.",
+    },
+  ],
+};
@@ -0,0 +1,340 @@
+/**
+ * Offline drug–drug interaction data, keyed by active ingredient.
+ * Interactions may name a single ingredient or a drug class defined in DRUG_CLASSES.
+ * This list covers common, well documented interactions only and is not a substitute for a pharmacist's review.
+ */
+
+export type InteractionSeverity = "major" | "moderate" | "minor";
+
+export interface InteractionRule {
+  a: string;
+  b: string;
+  severity: InteractionSeverity;
+  description: string;
+}
+
+// Brand and alternative names mapped to the active ingredients they contain
+export const INGREDIENT_ALIASES: Record<string, string[]> = {
+  acetaminophen: ["paracetamol"],
+  tylenol: ["paracetamol"],
+  crocin: ["paracetamol"],
+  dolo: ["paracetamol"],
+  calpol: ["paracetamol"],
+  asa: ["aspirin"],
+  ecosprin: ["aspirin"],
+  disprin: ["aspirin"],
+  brufen: ["ibuprofen"],
+  advil: ["ibuprofen"],
+  combiflam: ["ibuprofen", "paracetamol"],
+  voveran: ["diclofenac"],
+  naprosyn: ["naproxen"],
+  coumadin: ["warfarin"],
+  warf: ["warfarin"],
+  acitrom: ["acenocoumarol"],
+  eliquis: ["apixaban"],
+  xarelto: ["rivaroxaban"],
+  plavix: ["clopidogrel"],
+  clopilet: ["clopidogrel"],
+  glycomet: ["metformin"],
+  glucophage: ["metformin"],
+  amaryl: ["glimepiride"],
+  lipitor: ["atorvastatin"],
+  atorva: ["atorvastatin"],
+  zocor: ["simvastatin"],
+  rosuvas: ["rosuvastatin"],
+  crestor: ["rosuvastatin"],
+  telma: ["telmisartan"],
+  losar: ["losartan"],
+  amlong: ["amlodipine"],
+  norvasc: ["amlodipine"],
+  envas: ["enalapril"],
+  cardace: ["ramipril"],
+  aldactone: ["spironolactone"],
+  lasix: ["furosemide"],
+  lanoxin: ["digoxin"],
+  cordarone: ["amiodarone"],
+  zithromax: ["azithromycin"],
+  azithral: ["azithromycin"],
+  cipro: ["ciprofloxacin"],
+  ciplox: ["ciprofloxacin"],
+  levoflox: ["levofloxacin"],
+  flagyl: ["metronidazole"],
+  metrogyl: ["metronidazole"],
+  diflucan: ["fluconazole"],
+  forcan: ["fluconazole"],
+  prozac: ["fluoxetine"],
+  zoloft: ["sertraline"],
+  daxid: ["sertraline"],
+  lexapro: ["escitalopram"],
+  nexito: ["escitalopram"],
+  ultram: ["tramadol"],
+  ultracet: ["tramadol", "paracetamol"],
+  thyronorm: ["levothyroxine"],
+  eltroxin: ["levothyroxine"],
+  synthroid: ["levothyroxine"],
+  omez: ["omeprazole"],
+  prilosec: ["omeprazole"],
+  pan: ["pantoprazole"],
+  pantocid: ["pantoprazole"],
+  viagra: ["sildenafil"],
+  sorbitrate: ["isosorbide dinitrate"],
+  monotrate: ["isosorbide mononitrate"],
+  lithosun: ["lithium"],
+  tegretol: ["carbamazepine"],
+  eptoin: ["phenytoin"],
+  dilantin: ["phenytoin"],
+  shelcal: ["calcium"],
+  livogen: ["iron"],
+  ferrous: ["iron"],
+  amoxil: ["amoxicillin"],
+  mox: ["amoxicillin"],
+  augmentin: ["amoxicillin", "clavulanic acid"],
+  clavam: ["amoxicillin", "clavulanic acid"],
+  keflex: ["cephalexin"],
+  taxim: ["cefixime"],
+  septran: ["sulfamethoxazole", "trimethoprim"],
+  bactrim: ["sulfamethoxazole", "trimethoprim"],
+  cotrimoxazole: ["sulfamethoxazole", "trimethoprim"],
+  inderal: ["propranolol"],
+  ciplar: ["propranolol"],
+  wysolone: ["prednisolone"],
+  omnacortil: ["prednisolone"],
+  dexona: ["dexamethasone"],
+  sinarest: ["phenylephrine", "paracetamol"],
+  sudafed: ["pseudoephedrine"],
+};
+
+// Ingredients grouped so one rule can cover a whole class
+export const DRUG_CLASSES: Record<string, string[]> = {
+  nsaid: ["ibuprofen", "diclofenac", "naproxen", "aceclofenac", "etoricoxib", "ketorolac"],
+  anticoagulant: ["warfarin", "acenocoumarol", "apixaban", "rivaroxaban", "dabigatran"],
+  ssri: ["fluoxetine", "sertraline", "escitalopram", "citalopram", "paroxetine"],
+  ace_inhibitor: ["enalapril", "ramipril", "lisinopril", "perindopril"],
+  arb: ["telmisartan", "losartan", "olmesartan", "valsartan"],
+  nitrate: ["isosorbide dinitrate", "isosorbide mononitrate", "nitroglycerin"],
+  pde5_inhibitor: ["sildenafil", "tadalafil"],
+  macrolide: ["clarithromycin", "erythromycin", "azithromycin"],
+  fluoroquinolone: ["ciprofloxacin", "levofloxacin", "ofloxacin", "moxifloxacin"],
+  sulfonylurea: ["glimepiride", "gliclazide", "glibenclamide"],
+  mineral_supplement: ["calcium", "iron", "magnesium", "zinc"],
+  penicillin: ["penicillin", "amoxicillin", "ampicillin", "cloxacillin", "piperacillin"],
+  cephalosporin: ["cephalexin", "cefixime", "cefuroxime", "ceftriaxone", "cefpodoxime"],
+  sulfonamide: ["sulfamethoxazole", "sulfasalazine", "sulfadiazine"],
+  nonselective_beta_blocker: ["propranolol", "carvedilol", "sotalol"],
+  corticosteroid: ["prednisolone", "prednisone", "dexamethasone", "methylprednisolone"],
+  decongestant: ["pseudoephedrine", "phenylephrine"],
+  statin: ["atorvastatin", "simvastatin", "rosuvastatin"],
+};
+
+export const DRUG_INTERACTIONS: InteractionRule[] = [
+  {
+    a: "anticoagulant",
+    b: "nsaid",
+    severity: "major",
+    description: "Greatly increases the risk of serious bleeding, including stomach bleeding.",
+  },
+  {
+    a: "anticoagulant",
+    b: "aspirin",
+    severity: "major",
+    description: "Combined blood thinning effect raises the risk of serious bleeding.",
+  },
+  {
+    a: "warfarin",
+    b: "fluconazole",
+    severity: "major",
+    description: "Fluconazole slows warfarin breakdown and can push INR to dangerous levels.",
+  },
+  {
+    a: "warfarin",
+    b: "metronidazole",
+    severity: "major",
+    description: "Metronidazole strongly increases the effect of warfarin and the risk of bleeding.",
+  },
+  {
+    a: "warfarin",
+    b: "amiodarone",
+    severity: "major",
+    description: "Amiodarone increases warfarin levels; INR needs close monitoring and dose reduction.",
+  },
+  {
+    a: "clopidogrel",
+    b: "omeprazole",
+    severity: "moderate",
+    description: "Omeprazole can reduce how well clopidogrel prevents clots.",
+  },
+  {
+    a: "clopidogrel",
+    b: "nsaid",
+    severity: "moderate",
+    description: "Increases the risk of bleeding, especially from the stomach.",
+  },
+  {
+    a: "aspirin",
+    b: "nsaid",
+    severity: "moderate",
+    description: "Raises the risk of stomach bleeding and may reduce aspirin's heart protection.",
+  },
+  {
+    a: "ssri",
+    b: "tramadol",
+    severity: "major",
+    description: "Risk of serotonin syndrome and seizures.",
+  },
+  {
+    a: "ssri",
+    b: "nsaid",
+    severity: "moderate",
+    description: "Increases the risk of stomach bleeding.",
+  },
+  {
+    a: "ssri",
+    b: "anticoagulant",
+    severity: "moderate",
+    description: "Increases the risk of bleeding.",
+  },
+  {
+    a: "nitrate",
+    b: "pde5_inhibitor",
+    severity: "major",
+    description: "Can cause a sudden, dangerous drop in blood pressure.",
+  },
+  {
+    a: "simvastatin",
+    b: "clarithromycin",
+    severity: "major",
+    description: "Sharply raises simvastatin levels and the risk of muscle damage (rhabdomyolysis).",
+  },
+  {
+    a: "simvastatin",
+    b: "amiodarone",
+    severity: "moderate",
+    description: "Raises simvastatin levels and the risk of muscle problems.",
+  },
+  {
+    a: "atorvastatin",
+    b: "clarithromycin",
+    severity: "moderate",
+    description: "Raises atorvastatin levels and the risk of muscle problems.",
+  },
+  {
+    a: "digoxin",
+    b: "amiodarone",
+    severity: "major",
+    description: "Amiodarone raises digoxin levels and can lead to digoxin toxicity.",
+  },
+  {
+    a: "digoxin",
+    b: "furosemide",
+    severity: "moderate",
+    description: "Low potassium from furosemide increases the risk of digoxin toxicity.",
+  },
+  {
+    a: "ace_inhibitor",
+    b: "spironolactone",
+    severity: "major",
+    description: "Can cause dangerously high potassium levels.",
+  },
+  {
+    a: "arb",
+    b: "spironolactone",
+    severity: "major",
+    description: "Can cause dangerously high potassium levels.",
+  },
+  {
+    a: "ace_inhibitor",
+    b: "arb",
+    severity: "major",
+    description: "Combining both increases the risk of kidney problems and high potassium.",
+  },
+  {
+    a: "ace_inhibitor",
+    b: "nsaid",
+    severity: "moderate",
+    description: "NSAIDs reduce the blood pressure effect and can harm the kidneys.",
+  },
+  {
+    a: "arb",
+    b: "nsaid",
+    severity: "moderate",
+    description: "NSAIDs reduce the blood pressure effect and can harm the kidneys.",
+  },
+  {
+    a: "lithium",
+    b: "nsaid",
+    severity: "major",
+    description: "NSAIDs raise lithium levels and can cause lithium toxicity.",
+  },
+  {
+    a: "lithium",
+    b: "ace_inhibitor",
+    severity: "major",
+    description: "Raises lithium levels and can cause lithium toxicity.",
+  },
+  {
+    a: "metformin",
+    b: "ciprofloxacin",
+    severity: "moderate",
+    description: "Can cause unpredictable swings in blood sugar.",
+  },
+  {
+    a: "sulfonylurea",
+    b: "fluoroquinolone",
+    severity: "moderate",
+    description: "Increases the risk of low blood sugar.",
+  },
+  {
+    a: "sulfonylurea",
+    b: "fluconazole",
+    severity: "moderate",
+    description: "Fluconazole raises sulfonylurea levels and the risk of low blood sugar.",
+  },
+  {
+    a: "macrolide",
+    b: "fluoroquinolone",
+    severity: "moderate",
+    description: "Both can affect heart rhythm (QT prolongation).",
+  },
+  {
+    a: "amiodarone",
+    b: "fluoroquinolone",
+    severity: "major",
+    description: "Increased risk of dangerous heart rhythm changes (QT prolongation).",
+  },
+  {
+    a: "carbamazepine",
+    b: "clarithromycin",
+    severity: "major",
+    description: "Clarithromycin raises carbamazepine levels and can cause toxicity.",
+  },
+  {
+    a: "phenytoin",
+    b: "fluconazole",
+    severity: "moderate",
+    description: "Fluconazole raises phenytoin levels.",
+  },
+  {
+    a: "levothyroxine",
+    b: "mineral_supplement",
+    severity: "minor",
+    description: "Calcium and iron reduce levothyroxine absorption. Take them at least 4 hours apart.",
+  },
+  {
+    a: "fluoroquinolone",
+    b: "mineral_supplement",
+    severity: "minor",
+    description: "Minerals reduce antibiotic absorption. Take the antibiotic 2 hours before or 6 hours after.",
+  },
+  {
+    a: "paracetamol",
+    b: "warfarin",
+    severity: "minor",
+    description: "Regular paracetamol use can raise INR. Occasional doses are usually fine.",
+  },
+  {
+    a: "amlodipine",
+    b: "simvastatin",
+    severity: "minor",
+    description: "Amlodipine raises simvastatin levels. Simvastatin should not exceed 20 mg a day.",
+  },
+];
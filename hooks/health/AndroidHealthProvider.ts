@@ -8,7 +8,6 @@ import {
     openHealthConnectSettings
 } from 'react-native-health-connect';
 import { Alert } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { 
     HealthData, 
     HealthPermissionStatus, 
@@ -16,6 +15,7 @@ import {
     WeeklyHealthData
 } from './types';
 import { IHealthProvider } from './IHealthProvider';
+import { getVital } from '../../utils/vitals';
 
 export class AndroidHealthProvider implements IHealthProvider {
     private isInitialized = false;
@@ -391,22 +391,7 @@ export class AndroidHealthProvider implements IHealthProvider {
     }
 
     private async getLocalHeartRateData(date: Date): Promise<number> {
-        try {
-            const year = date.getFullYear();
-            const month = date.getMonth();
-            const day = date.getDate();
-            const key = `hr_${year}_${month}_${day}`;
-            
-            const savedHR = await AsyncStorage.getItem(key);
-            if (savedHR) {
-                const hrData = JSON.parse(savedHR);
-                return hrData.heartRate || 0;
-            }
-            return 0;
-        } catch (error) {
-            console.error('Error reading local heart rate data:', error);
-            return 0;
-        }
+        return (await getVital('heartRate', date)) ?? 0;
     }
 
     private getEmptyHealthData(): HealthData {
@@ -0,0 +1,92 @@
+import { useEffect, useRef } from 'react';
+import { Alert, AppState, AppStateStatus } from 'react-native';
+import { router } from 'expo-router';
+import {
+    checkEscalations,
+    dismissContactEscalation,
+    getChannelLabel,
+    PendingContactEscalation,
+    sendContactEscalation,
+} from '../utils/escalation';
+
+/**
+ * Hook to record escalations of unlogged critical doses and offer to message the
+ * emergency contact, on launch and whenever the app returns to the foreground
+ */
+export function useDoseEscalation() {
+    const isPrompting = useRef(false);
+
+    useEffect(() => {
+        const promptNext = (pending: PendingContactEscalation[]) => {
+            const [escalation, ...rest] = pending;
+            if (!escalation) {
+                isPrompting.current = false;
+                return;
+            }
+
+            const { medication, personName, slot } = escalation;
+            const dueAt = slot.toLocaleTimeString('default', { hour: '2-digit', minute: '2-digit' });
+            const channel = getChannelLabel(medication.escalation?.channel ?? 'sms');
+
+            Alert.alert(
+                `${medication.name} not logged`,
+                `${personName ? `${personName}'s` : 'Your'} ${dueAt} dose still hasn't been logged. Send a ${channel} message to the emergency contact?`,
+                [
+                    {
+                        text: 'Not now',
+                        style: 'cancel',
+                        onPress: async () => {
+                            await dismissContactEscalation(escalation);
+                            promptNext(rest);
+                        },
+                    },
+                    {
+                        text: 'Send',
+                        onPress: async () => {
+                            try {
+                                const sent = await sendContactEscalation(escalation);
+                                if (!sent) {
+                                    isPrompting.current = false;
+                                    Alert.alert(
+                                        'No Emergency Contact',
+                                        'Add a phone number for the emergency contact in the Profile tab.',
+                                        [
+                                            { text: 'Cancel', style: 'cancel' },
+                                            { text: 'Go to Profile', onPress: () => router.push('/profile') },
+                                        ]
+                                    );
+                                    return;
+                                }
+                                promptNext(rest);
+                            } catch (error) {
+                                console.error('Error sending escalation:', error);
+                                isPrompting.current = false;
+                                Alert.alert('Error', `Unable to open ${channel}`);
+                            }
+                        },
+                    },
+                ]
+            );
+        };
+
+        const check = async () => {
+            if (isPrompting.current) return;
+            isPrompting.current = true;
+            promptNext(await checkEscalations());
+        };
+
+        check();
+
+        const handleAppStateChange = (nextAppState: AppStateStatus) => {
+            if (nextAppState === 'active') {
+                check();
+            }
+        };
+
+        const subscription = AppState.addEventListener('change', handleAppStateChange);
+
+        return () => {
+            subscription?.remove();
+        };
+    }, []);
+}
@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { markMissedDoses } from '../utils/doseStatus';
+
+/**
+ * Hook to mark overdue dose slots as missed on launch and whenever the app returns to the foreground
+ */
+export function useMissedDoseDetection() {
+    useEffect(() => {
+        markMissedDoses();
+
+        const handleAppStateChange = (nextAppState: AppStateStatus) => {
+            if (nextAppState === 'active') {
+                markMissedDoses();
+            }
+        };
+
+        const subscription = AppState.addEventListener('change', handleAppStateChange);
+
+        return () => {
+            subscription?.remove();
+        };
+    }, []);
+}
@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { AppState, AppStateStatus } from 'react-native';
+import { completeFinishedCourses } from '../utils/course';
+import { isReminderPlanStale, replanAllReminders } from '../utils/notifications';
+
+/**
+ * Hook to top up one-off reminders whenever the app returns to the foreground and
+ * they were last planned a while ago. The home screen plans them on launch.
+ */
+export function useReminderReplanning() {
+    useEffect(() => {
+        const handleAppStateChange = async (nextAppState: AppStateStatus) => {
+            if (nextAppState === 'active' && (await isReminderPlanStale())) {
+                await completeFinishedCourses();
+                await replanAllReminders();
+            }
+        };
+
+        const subscription = AppState.addEventListener('change', handleAppStateChange);
+
+        return () => {
+            subscription?.remove();
+        };
+    }, []);
+}
@@ -2,6 +2,9 @@
 // on web.
 import '@expo/metro-runtime';
 
+// Background tasks must be defined before anything else runs, see utils/backgroundTasks.ts
+import './utils/backgroundTasks';
+
 import { App } from 'expo-router/build/qualified-entry';
 import { renderRootComponent } from 'expo-router/build/renderRootComponent';
 // import { registerWidgetTaskHandler } from 'react-native-android-widget';
@@ -1,5 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { readRecords, getSdkStatus, SdkAvailabilityStatus } from 'react-native-health-connect';
+import { getVital, saveVital } from '../utils/vitals';
+import { SELF_PERSON_ID } from '../utils/people';
 
 export interface WidgetStepsData {
     steps: number;
@@ -11,14 +13,6 @@ export interface WidgetHydrationData {
     goal: number; // in ml
 }
 
-/**
- * Get today's storage key for water intake (same format as water.tsx)
- */
-export function getTodayWaterKey(): string {
-    const today = new Date();
-    return `water_${today.getFullYear()}_${today.getMonth()}_${today.getDate()}`;
-}
-
 /**
  * Get current steps data for widget display
  */
@@ -101,23 +95,19 @@ export async function getHydrationDataForWidget(): Promise<WidgetHydrationData>
     try {
         console.log('💧 Getting hydration data for widget...');
         
-        // Get today's water intake key (same format as water.tsx)
-        const todayKey = getTodayWaterKey();
-        console.log('Using water key:', todayKey);
-        
         // Check if Health Connect is available
         const status = await getSdkStatus();
         console.log('Health Connect status:', status);
         
         if (status !== SdkAvailabilityStatus.SDK_AVAILABLE) {
             // Fall back to stored data from the main app using the correct keys
-            const storedIntake = await AsyncStorage.getItem(todayKey); // Use today's key
+            const storedIntake = await getVital('water', new Date(), SELF_PERSON_ID); // Same reading as water.tsx
             const storedGoal = await AsyncStorage.getItem('water_daily_goal'); // Use same key as app
             
             console.log('Hydration fallback data - stored intake:', storedIntake, 'stored goal:', storedGoal);
             
             return {
-                intake: storedIntake ? parseInt(storedIntake) : 0,
+                intake: storedIntake ?? 0,
                 goal: storedGoal ? parseInt(storedGoal) : 2500,
             };
         }
@@ -150,8 +140,8 @@ export async function getHydrationDataForWidget(): Promise<WidgetHydrationData>
 
         // If no Health Connect data, try to get from AsyncStorage (app data)
         if (totalHydrationMl === 0) {
-            const storedIntake = await AsyncStorage.getItem(todayKey);
-            totalHydrationMl = storedIntake ? parseInt(storedIntake) : 0;
+            const storedIntake = await getVital('water', new Date(), SELF_PERSON_ID);
+            totalHydrationMl = storedIntake ?? 0;
         }
 
         // Get goal from storage using the same key as the main app
@@ -168,12 +158,11 @@ export async function getHydrationDataForWidget(): Promise<WidgetHydrationData>
         console.error('Error getting hydration data for widget:', error);
         
         // Fall back to stored data from the main app using the correct keys
-        const todayKey = getTodayWaterKey();
-        const storedIntake = await AsyncStorage.getItem(todayKey);
+        const storedIntake = await getVital('water', new Date(), SELF_PERSON_ID);
         const storedGoal = await AsyncStorage.getItem('water_daily_goal');
         
         return {
-            intake: storedIntake ? parseInt(storedIntake) : 0,
+            intake: storedIntake ?? 0,
             goal: storedGoal ? parseInt(storedGoal) : 2500,
         };
     }
@@ -195,9 +184,8 @@ export async function updateWidgetStepsData(steps: number): Promise<void> {
  */
 export async function updateWidgetHydrationData(intake: number): Promise<void> {
     try {
-        // Update using the same key format as the main app
-        const todayKey = getTodayWaterKey();
-        await AsyncStorage.setItem(todayKey, intake.toString());
+        // Update the same reading as the main app
+        await saveVital('water', intake, new Date(), SELF_PERSON_ID);
     } catch (error) {
         console.error('Error updating widget hydration data:', error);
     }
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "@jest/globals";
+import type { Medication } from "../storage";
+import { getDueDoseSlots } from "../adherence";
+
+function medicationFixture(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: "med1",
+    name: "Amoxicillin",
+    dosage: "500mg",
+    dose: { amount: 1, unit: "capsule", form: "capsule" },
+    times: ["08:00"],
+    startDate: new Date(2030, 0, 10).toISOString(),
+    duration: "30 days",
+    color: "#1a8e2d",
+    reminderEnabled: true,
+    currentSupply: 30,
+    totalSupply: 30,
+    refillAt: 5,
+    refillReminder: false,
+    ...overrides,
+  };
+}
+
+describe("getDueDoseSlots", () => {
+  const now = new Date(2030, 0, 11, 12, 0);
+
+  it("keeps the slots of earlier runs of a restarted course", () => {
+    const medication = medicationFixture({
+      pastCourses: [
+        {
+          startDate: new Date(2030, 0, 1).toISOString(),
+          endedAt: new Date(2030, 0, 4).toISOString(),
+          status: "discontinued",
+        },
+      ],
+    });
+
+    const slots = getDueDoseSlots(medication, [], new Date(2030, 0, 1), now);
+    expect(slots.map((slot) => slot.scheduledAt.getDate())).toEqual([1, 2, 3, 10, 11]);
+  });
+
+  it("counts cycles of an earlier run from when that run started", () => {
+    const medication = medicationFixture({
+      schedule: { type: "cyclic", daysOn: 1, daysOff: 1 },
+      pastCourses: [
+        {
+          startDate: new Date(2030, 0, 1).toISOString(),
+          endedAt: new Date(2030, 0, 6).toISOString(),
+          status: "completed",
+        },
+      ],
+    });
+
+    const slots = getDueDoseSlots(medication, [], new Date(2030, 0, 1), now);
+    expect(slots.map((slot) => slot.scheduledAt.getDate())).toEqual([1, 3, 5, 10]);
+  });
+});
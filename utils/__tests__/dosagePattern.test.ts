@@ -0,0 +1,140 @@
+import { describe, expect, it } from "@jest/globals";
+import { DosagePattern, parseDosagePattern } from "../dosagePattern";
+
+type Expected = Partial<DosagePattern>;
+
+describe("parseDosagePattern", () => {
+  describe.each<[string, [string, Expected][]]>([
+    [
+      "slot patterns",
+      [
+        ["1-0-1", { times: ["09:00", "21:00"], amount: 1, durationDays: null }],
+        ["1-1-1 x 5 days", { times: ["09:00", "13:00", "21:00"], amount: 1, durationDays: 5 }],
+        ["0-0-1", { times: ["21:00"], amount: 1 }],
+        ["1-1-1-1", { times: ["09:00", "13:00", "17:00", "21:00"], amount: 1 }],
+        ["2-0-2 PC", { times: ["09:00", "21:00"], amount: 2, foodTiming: "afterFood" }],
+      ],
+    ],
+    [
+      "Latin shorthand",
+      [
+        ["OD", { times: ["09:00"], asNeeded: false }],
+        ["BD", { times: ["09:00", "21:00"] }],
+        ["b.d.", { times: ["09:00", "21:00"] }],
+        ["TDS", { times: ["09:00", "15:00", "21:00"] }],
+        ["QID", { times: ["09:00", "13:00", "17:00", "21:00"] }],
+        ["HS", { times: ["22:00"] }],
+        ["OD HS", { times: ["22:00"] }],
+        ["SOS", { times: [], asNeeded: true }],
+        ["BD AC", { times: ["09:00", "21:00"], foodTiming: "beforeFood" }],
+        ["OD PC", { times: ["09:00"], foodTiming: "afterFood" }],
+      ],
+    ],
+    [
+      "fractions",
+      [
+        ["½ tab BD", { times: ["09:00", "21:00"], amount: 0.5, unit: "tablet" }],
+        ["1/2 tab OD", { times: ["09:00"], amount: 0.5, unit: "tablet" }],
+        ["½-0-½", { times: ["09:00", "21:00"], amount: 0.5 }],
+        ["1½ tab OD", { times: ["09:00"], amount: 1.5, unit: "tablet" }],
+      ],
+    ],
+    [
+      "durations",
+      [
+        ["TDS x 5/7", { durationDays: 5 }],
+        ["BD x 2/52", { durationDays: 14 }],
+        ["OD x 1/12", { durationDays: 30 }],
+        ["OD for 1 week", { durationDays: 7 }],
+        ["BD x 10d", { durationDays: 10 }],
+        ["OD x 3 months", { durationDays: 90 }],
+      ],
+    ],
+    [
+      "strengths",
+      [
+        ["1000 IU OD", { times: ["09:00"], amount: null, unit: undefined, unrecognized: [] }],
+        ["500mg BD", { times: ["09:00", "21:00"], amount: null, unrecognized: [] }],
+        ["10 units OD", { amount: 10, unit: "unit" }],
+        ["5 ml TDS", { amount: 5, unit: "ml" }],
+      ],
+    ],
+  ])("%s", (_, cases) => {
+    it.each(cases)("%s", (text, expected) => {
+      expect(parseDosagePattern(text)).toMatchObject(expected);
+    });
+  });
+
+  it("reads a full instruction", () => {
+    expect(parseDosagePattern("1-0-1 after food x 5 days")).toEqual({
+      times: ["09:00", "21:00"],
+      amount: 1,
+      unit: undefined,
+      asNeeded: false,
+      durationDays: 5,
+      foodTiming: "afterFood",
+      schedule: undefined,
+      unrecognized: [],
+      warnings: [],
+    });
+  });
+
+  it.each([
+    ["every 8 hours", { type: "interval", intervalHours: 8 }],
+    ["q6h", { type: "interval", intervalHours: 6 }],
+    ["OD alternate days", { type: "cyclic", daysOn: 1, daysOff: 1 }],
+  ])("reads %s as a schedule", (text, schedule) => {
+    expect(parseDosagePattern(text).schedule).toEqual(schedule);
+  });
+
+  it.each(["1-1-1 x 5d then 1-0-1 x 5d", "2-0-2 x 3 days then 1-0-1 x 3 days"])(
+    "sends a course that changes partway back for review: %s",
+    (text) => {
+      const pattern = parseDosagePattern(text);
+      expect(pattern.times).toEqual([]);
+      expect(pattern.amount).toBeNull();
+      expect(pattern.durationDays).toBeNull();
+      expect(pattern.unrecognized).toEqual([text]);
+      expect(pattern.warnings).toHaveLength(1);
+    }
+  );
+
+  it.each<[string, Expected]>([
+    ["", { times: [], unrecognized: [] }],
+    ["apply locally", { times: [], unrecognized: ["apply locally"] }],
+    ["BD with lukewarm water", { times: ["09:00", "21:00"], unrecognized: ["with lukewarm water"] }],
+    ["xyz", { times: [], amount: null, durationDays: null, unrecognized: ["xyz"] }],
+  ])("lists what it doesn't understand: %s", (text, expected) => {
+    expect(parseDosagePattern(text)).toMatchObject(expected);
+  });
+
+  it.each(["5 times a day", "6 times daily"])(
+    "leaves counts with no default times to the user: %s",
+    (text) => {
+      const pattern = parseDosagePattern(text);
+      expect(pattern.times).toEqual([]);
+      expect(pattern.unrecognized).toEqual([]);
+      expect(pattern.warnings).toEqual([`${text[0]} doses a day: enter the times by hand`]);
+    }
+  );
+
+  it("reads a missing pattern as saying nothing", () => {
+    expect(parseDosagePattern(undefined)).toMatchObject({
+      times: [],
+      amount: null,
+      asNeeded: false,
+      unrecognized: [],
+      warnings: [],
+    });
+  });
+
+  it.each<[string, string]>([
+    ["1-0-1 TDS", "Pattern gives 2 doses a day but the text says 3"],
+    ["2-1-2", "Different amounts at different times (2-1-2): check the dose"],
+    ["BD AC PC", 'Conflicting food instruction "pc" ignored'],
+    ["OD x 5 days x 7 days", 'Extra duration "x 7 days" ignored'],
+    ["BD SOS", "Has regular times and also says as needed: check which applies"],
+  ])("warns about %s", (text, warning) => {
+    expect(parseDosagePattern(text).warnings).toContain(warning);
+  });
+});
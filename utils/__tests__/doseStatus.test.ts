@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { Medication } from "../storage";
+
+let storage: typeof import("../storage");
+let doseStatus: typeof import("../doseStatus");
+
+function medicationFixture(): Medication {
+  return {
+    id: "med1",
+    name: "Paracetamol",
+    dosage: "500mg",
+    dose: { amount: 1, unit: "tablet", form: "tablet" },
+    times: ["08:00"],
+    startDate: new Date(2030, 0, 1).toISOString(),
+    duration: "30 days",
+    color: "#1a8e2d",
+    reminderEnabled: true,
+    currentSupply: 30,
+    totalSupply: 30,
+    refillAt: 5,
+    refillReminder: true,
+  };
+}
+
+beforeEach(() => {
+  // A fresh module registry opens a fresh database and AsyncStorage
+  jest.resetModules();
+  storage = require("../storage");
+  doseStatus = require("../doseStatus");
+});
+
+describe("markMissedDoses", () => {
+  const slotDay = new Date(2030, 0, 2);
+  const now = new Date(2030, 0, 2, 12, 0);
+
+  it("marks a slot with nothing logged once the grace window is over", async () => {
+    await storage.addMedication(medicationFixture());
+
+    expect(await doseStatus.markMissedDoses(now)).toBe(2);
+    const history = await storage.getDoseHistory();
+    expect(doseStatus.getSlotStatus(history, "med1", slotDay, "08:00")).toBe("missed");
+  });
+
+  it("doesn't mark a slot taken while the check was running", async () => {
+    await storage.addMedication(medicationFixture());
+
+    await Promise.all([
+      doseStatus.markMissedDoses(now),
+      storage.recordDose("med1", "taken", new Date(2030, 0, 2, 11, 30).toISOString(), "08:00"),
+    ]);
+
+    const history = await storage.getDoseHistory();
+    expect(doseStatus.getSlotStatus(history, "med1", slotDay, "08:00")).toBe("taken");
+    expect(history.filter((dose) => dose.status === "missed")).toHaveLength(1);
+  });
+});
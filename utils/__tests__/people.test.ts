@@ -0,0 +1,28 @@
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+
+let people: typeof import("../people");
+
+beforeEach(() => {
+  // A fresh module registry opens a fresh AsyncStorage
+  jest.resetModules();
+  people = require("../people");
+});
+
+describe("people", () => {
+  it("keeps every change when people are added, renamed and restored together", async () => {
+    const mother = await people.addPerson("Amma", "Mother");
+
+    await Promise.all([
+      people.addPerson("Appa", "Father"),
+      people.updatePerson({ ...mother, name: "Amma S" }),
+      people.importPeople(
+        [{ id: "son", name: "Ravi", color: "#2196F3", createdAt: new Date(0).toISOString() }],
+        "merge"
+      ),
+      people.addPerson("Ajji", "Grandmother"),
+    ]);
+
+    const names = (await people.getPeople()).map((person) => person.name);
+    expect(names).toEqual(["Me", "Amma S", "Appa", "Ravi", "Ajji"]);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { Medication } from "../storage";
+
+// Replays writes that arrive together, e.g. a notification action and a tap
+// on the home screen, and checks none of them is lost
+
+let storage: typeof import("../storage");
+let database: typeof import("../database");
+
+function medicationFixture(overrides: Partial<Medication> = {}): Medication {
+  return {
+    id: "med1",
+    name: "Paracetamol",
+    dosage: "500mg",
+    dose: { amount: 1, unit: "tablet", form: "tablet" },
+    times: ["08:00", "20:00"],
+    startDate: "2026-01-01T00:00:00.000Z",
+    duration: "30 days",
+    color: "#1a8e2d",
+    reminderEnabled: true,
+    currentSupply: 30,
+    totalSupply: 30,
+    refillAt: 5,
+    refillReminder: true,
+    ...overrides,
+  };
+}
+
+function doseTime(minute: number): string {
+  return new Date(Date.UTC(2030, 0, 1, 8, minute)).toISOString();
+}
+
+async function getSupply(medicationId: string): Promise<number | undefined> {
+  const medications = await storage.getMedications();
+  return medications.find((medication) => medication.id === medicationId)?.currentSupply;
+}
+
+beforeEach(() => {
+  // A fresh module registry opens a fresh database and AsyncStorage
+  jest.resetModules();
+  storage = require("../storage");
+  database = require("../database");
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("concurrent writes", () => {
+  it("keeps every dose and its supply when doses are logged together", async () => {
+    await storage.addMedication(medicationFixture());
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        storage.recordDose("med1", "taken", doseTime(index))
+      )
+    );
+
+    expect(await storage.getDoseHistory()).toHaveLength(10);
+    expect(await getSupply("med1")).toBe(20);
+  });
+
+  it("applies doses, refills and corrections made at the same time", async () => {
+    await storage.addMedication(medicationFixture());
+    await storage.recordDose("med1", "taken", doseTime(0), "08:00");
+    const [logged] = await storage.getDoseHistory();
+
+    await Promise.all([
+      storage.recordDose("med1", "taken", doseTime(1)),
+      storage.recordRefill("med1", { date: doseTime(2), quantity: 10 }),
+      storage.updateDose("med1", logged.id, { status: "skipped" }),
+      storage.recordDose("med1", "taken", doseTime(3)),
+      storage.recordRefill("med1", { date: doseTime(4), quantity: 5 }),
+      storage.recordDose("med1", "taken", doseTime(5)),
+    ]);
+
+    const history = await storage.getDoseHistory();
+    expect(history).toHaveLength(4);
+    expect(history.filter((dose) => storage.getDoseStatus(dose) === "taken")).toHaveLength(3);
+    expect(
+      (await storage.getRefillLog()).filter((entry) => entry.type === "refill")
+    ).toHaveLength(2);
+    // 30 + 10 + 5 refilled, 3 taken; the skipped dose gave its tablet back
+    expect(await getSupply("med1")).toBe(42);
+  });
+
+  it("counts supply per medication when several are logged together", async () => {
+    await storage.addMedication(medicationFixture());
+    await storage.addMedication(
+      medicationFixture({ id: "med2", dose: { amount: 2, unit: "tablet", form: "tablet" } })
+    );
+
+    await Promise.all([
+      storage.recordDose("med1", "taken", doseTime(0)),
+      storage.recordDose("med2", "taken", doseTime(0)),
+      storage.recordDose("med1", "taken", doseTime(1)),
+      storage.recordDose("med2", "taken", doseTime(1)),
+      storage.recordRefill("med2", { date: doseTime(2), quantity: 4 }),
+    ]);
+
+    expect(await getSupply("med1")).toBe(28);
+    expect(await getSupply("med2")).toBe(30);
+  });
+
+  it("keeps later writes going after one fails", async () => {
+    await storage.addMedication(medicationFixture());
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const results = await Promise.allSettled([
+      storage.recordDose("med1", "taken", doseTime(0)),
+      storage.updateDose("med1", "missing", { status: "skipped" }),
+      storage.recordDose("med1", "taken", doseTime(1)),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+    expect(await getSupply("med1")).toBe(28);
+  });
+});
+
+describe("refill ledger", () => {
+  it("leaves out doses dated before the opening entry", async () => {
+    await storage.addMedication(medicationFixture());
+    const beforeOpening = new Date(Date.UTC(2020, 0, 1, 8)).toISOString();
+
+    await storage.recordDose("med1", "taken", beforeOpening, "08:00");
+    expect(await getSupply("med1")).toBe(30);
+
+    await storage.recordDose("med1", "taken", doseTime(0), "08:00");
+    expect(await getSupply("med1")).toBe(29);
+
+    // Moving a dose to before the opening gives its tablet back
+    const [, logged] = await storage.getDoseHistory();
+    await storage.updateDose("med1", logged.id, { timestamp: beforeOpening });
+    expect(await getSupply("med1")).toBe(30);
+  });
+
+  it("rolls back the ledger entry with the supply when a refill fails", async () => {
+    await storage.addMedication(medicationFixture());
+    const db = await database.getDatabase();
+    const runAsync = db.runAsync.bind(db);
+    jest.spyOn(db, "runAsync").mockImplementation(((source: string, ...params: never[]) =>
+      source.startsWith("UPDATE medications")
+        ? Promise.reject(new Error("disk full"))
+        : runAsync(source, ...params)) as typeof db.runAsync);
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      storage.recordRefill("med1", { date: doseTime(0), quantity: 10 })
+    ).rejects.toThrow("disk full");
+
+    jest.mocked(db.runAsync).mockRestore();
+    expect((await storage.getRefillLog()).map((entry) => entry.type)).toEqual(["opening"]);
+    expect(await getSupply("med1")).toBe(30);
+  });
+});
+
+describe("trash", () => {
+  it("brings the escalation log back with cleared data", async () => {
+    const trash: typeof import("../trash") = require("../trash");
+    await storage.addMedication(medicationFixture());
+    // Restoring re-plans reminders, which has no scheduler to talk to here
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const escalation = {
+      id: "esc1",
+      medicationId: "med1",
+      slot: doseTime(0),
+      scheduledTime: "08:00",
+      step: "renotify" as const,
+      timestamp: doseTime(30),
+    };
+    await storage.addEscalationEntries([escalation]);
+
+    await storage.clearAllData();
+    expect(await storage.getEscalationLog()).toEqual([]);
+
+    const [entry] = await trash.getTrash();
+    await trash.restoreFromTrash(entry.id);
+    expect(await storage.getEscalationLog()).toEqual([escalation]);
+  });
+});
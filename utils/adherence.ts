@@ -0,0 +1,294 @@
+import { DoseHistory, DoseStatus, Medication, getDoseStatus } from "./storage";
+import {
+  getCourseRunOn,
+  getDoseTimesForDate,
+  getRegimenForDate,
+  parseTime,
+  startOfDay,
+  WEEKDAY_LABELS,
+} from "./schedule";
+import { findSlotDose } from "./doseStatus";
+
+export const ADHERENCE_PERIODS = [7, 30, 90] as const;
+export type AdherencePeriod = (typeof ADHERENCE_PERIODS)[number];
+
+const TIME_OF_DAY_BUCKETS = [
+  { label: "Morning", from: 5, to: 12 },
+  { label: "Afternoon", from: 12, to: 17 },
+  { label: "Evening", from: 17, to: 21 },
+  { label: "Night", from: 21, to: 29 }, // wraps past midnight until 05:00
+];
+
+// Patterns need a few slots behind them before they are worth pointing out
+const MIN_SLOTS_FOR_PATTERN = 5;
+
+export interface DoseSlot {
+  medicationId: string;
+  scheduledAt: Date;
+  time: string;
+  status?: DoseStatus;
+  takenAt?: Date;
+  snoozedAt?: Date;
+}
+
+export interface AdherenceStats {
+  percentages: Record<AdherencePeriod, number | null>;
+  currentStreak: number;
+  longestStreak: number;
+  averageDelayMinutes: number | null;
+  taken: number;
+  skipped: number;
+  missed: number;
+  due: number;
+}
+
+export interface AdherenceReport {
+  overall: AdherenceStats;
+  perMedication: { medication: Medication; stats: AdherenceStats }[];
+  insights: string[];
+}
+
+/**
+ * Every scheduled slot that was due between `from` and `now`, with what was logged for it
+ */
+export function getDueDoseSlots(
+  medication: Medication,
+  history: DoseHistory[],
+  from: Date,
+  now: Date = new Date()
+): DoseSlot[] {
+  const slots: DoseSlot[] = [];
+  const medicationDoses = history.filter(
+    (dose) => dose.medicationId === medication.id
+  );
+  for (const day = startOfDay(from); day <= now; day.setDate(day.getDate() + 1)) {
+    // Restarted courses keep the slots of their earlier runs
+    const run = getCourseRunOn(medication, day);
+    const addedAt = new Date(run.startDate);
+    const regimen = getRegimenForDate(run, day);
+    for (const time of getDoseTimesForDate(regimen, day)) {
+      const { hours, minutes } = parseTime(time);
+      const scheduledAt = new Date(day);
+      scheduledAt.setHours(hours, minutes, 0, 0);
+      if (scheduledAt < addedAt || scheduledAt > now) continue;
+
+      const dose = findSlotDose(medicationDoses, medication.id, day, time);
+      slots.push({
+        medicationId: medication.id,
+        scheduledAt,
+        time,
+        status: dose ? getDoseStatus(dose) : undefined,
+        takenAt: dose && getDoseStatus(dose) === "taken"
+          ? new Date(dose.timestamp)
+          : undefined,
+        snoozedAt: dose && getDoseStatus(dose) === "snoozed"
+          ? new Date(dose.timestamp)
+          : undefined,
+      });
+    }
+  }
+  return slots;
+}
+
+/**
+ * Whether a slot can still be taken on time: nothing is logged yet, or it was
+ * snoozed, and the missed-dose grace window hasn't run out. Such slots are
+ * left out of the stats, as markMissedDoses does, until they're settled.
+ */
+function isSlotPending(slot: DoseSlot, graceMinutes: number, now: Date): boolean {
+  const graceMs = graceMinutes * 60 * 1000;
+  if (slot.status === undefined) {
+    return slot.scheduledAt.getTime() + graceMs > now.getTime();
+  }
+  if (slot.status === "snoozed" && slot.snoozedAt) {
+    return slot.snoozedAt.getTime() + graceMs > now.getTime();
+  }
+  return false;
+}
+
+function getPercentage(slots: DoseSlot[]): number | null {
+  if (slots.length === 0) return null;
+  const taken = slots.filter((slot) => slot.status === "taken").length;
+  return Math.round((taken / slots.length) * 100);
+}
+
+/**
+ * Current and longest runs of days on which every due dose was taken.
+ * Today only extends the current streak, it never breaks it while doses are still pending.
+ */
+function getStreaks(slots: DoseSlot[], now: Date) {
+  const days = new Map<string, { date: Date; complete: boolean }>();
+  for (const slot of slots) {
+    const key = slot.scheduledAt.toDateString();
+    const entry = days.get(key) ?? {
+      date: startOfDay(slot.scheduledAt),
+      complete: true,
+    };
+    entry.complete = entry.complete && slot.status === "taken";
+    days.set(key, entry);
+  }
+
+  const sortedDays = [...days.values()].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  let longestStreak = 0;
+  let run = 0;
+  for (const day of sortedDays) {
+    run = day.complete ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  let currentStreak = 0;
+  const todayKey = now.toDateString();
+  for (let i = sortedDays.length - 1; i >= 0; i--) {
+    const day = sortedDays[i];
+    if (day.complete) {
+      currentStreak++;
+    } else if (day.date.toDateString() !== todayKey) {
+      break;
+    }
+  }
+
+  return { currentStreak, longestStreak };
+}
+
+export function getAdherenceStats(
+  dueSlots: DoseSlot[],
+  graceMinutes: number,
+  now: Date = new Date()
+): AdherenceStats {
+  const slots = dueSlots.filter((slot) => !isSlotPending(slot, graceMinutes, now));
+  const percentages = {} as Record<AdherencePeriod, number | null>;
+  for (const period of ADHERENCE_PERIODS) {
+    const since = startOfDay(now);
+    since.setDate(since.getDate() - (period - 1));
+    percentages[period] = getPercentage(
+      slots.filter((slot) => slot.scheduledAt >= since)
+    );
+  }
+
+  const delays = slots
+    .filter((slot) => slot.takenAt)
+    .map(
+      (slot) =>
+        (slot.takenAt!.getTime() - slot.scheduledAt.getTime()) / (60 * 1000)
+    );
+
+  return {
+    percentages,
+    ...getStreaks(slots, now),
+    averageDelayMinutes:
+      delays.length > 0
+        ? Math.round(delays.reduce((sum, delay) => sum + delay, 0) / delays.length)
+        : null,
+    taken: slots.filter((slot) => slot.status === "taken").length,
+    skipped: slots.filter((slot) => slot.status === "skipped").length,
+    missed: slots.filter((slot) => slot.status !== "taken" && slot.status !== "skipped").length,
+    due: slots.length,
+  };
+}
+
+function getMissRate(slots: DoseSlot[]): number {
+  const notTaken = slots.filter((slot) => slot.status !== "taken").length;
+  return notTaken / slots.length;
+}
+
+/**
+ * Plain-language observations such as "Evening doses are missed most often"
+ */
+export function getAdherenceInsights(slots: DoseSlot[]): string[] {
+  if (slots.length < MIN_SLOTS_FOR_PATTERN) return [];
+
+  const insights: string[] = [];
+  const overallMissRate = getMissRate(slots);
+  if (overallMissRate === 0) {
+    return ["Every scheduled dose was taken. Keep it up!"];
+  }
+
+  const bucketRates = TIME_OF_DAY_BUCKETS.map((bucket) => {
+    const bucketSlots = slots.filter((slot) => {
+      const hour = slot.scheduledAt.getHours();
+      const wrapped = hour < 5 ? hour + 24 : hour;
+      return wrapped >= bucket.from && wrapped < bucket.to;
+    });
+    return {
+      label: bucket.label,
+      count: bucketSlots.length,
+      rate: bucketSlots.length > 0 ? getMissRate(bucketSlots) : 0,
+    };
+  }).filter((bucket) => bucket.count >= MIN_SLOTS_FOR_PATTERN);
+
+  const worstBucket = [...bucketRates].sort((a, b) => b.rate - a.rate)[0];
+  if (bucketRates.length > 1 && worstBucket && worstBucket.rate > overallMissRate) {
+    insights.push(
+      `${worstBucket.label} doses are missed most often (${Math.round(worstBucket.rate * 100)}% not taken)`
+    );
+  }
+
+  const weekdayRates = WEEKDAY_LABELS.map((label, weekday) => {
+    const weekdaySlots = slots.filter((slot) => slot.scheduledAt.getDay() === weekday);
+    return {
+      label,
+      count: weekdaySlots.length,
+      rate: weekdaySlots.length > 0 ? getMissRate(weekdaySlots) : 0,
+    };
+  }).filter((day) => day.count >= MIN_SLOTS_FOR_PATTERN);
+
+  const worstDay = [...weekdayRates].sort((a, b) => b.rate - a.rate)[0];
+  if (worstDay && worstDay.rate >= overallMissRate * 1.5) {
+    insights.push(`Doses on ${worstDay.label} are missed more than other days`);
+  }
+
+  const lateSlots = slots.filter(
+    (slot) =>
+      slot.takenAt &&
+      slot.takenAt.getTime() - slot.scheduledAt.getTime() > 60 * 60 * 1000
+  );
+  if (lateSlots.length >= MIN_SLOTS_FOR_PATTERN) {
+    insights.push(
+      `${lateSlots.length} doses were taken more than an hour late`
+    );
+  }
+
+  return insights;
+}
+
+export function getAdherenceColor(percentage: number | null): string {
+  if (percentage === null) return "#999";
+  if (percentage >= 90) return "#4CAF50";
+  if (percentage >= 70) return "#FF9800";
+  return "#F44336";
+}
+
+export function formatDelay(minutes: number | null): string {
+  if (minutes === null) return "—";
+  if (Math.abs(minutes) < 1) return "On time";
+  return minutes > 0 ? `${minutes} min late` : `${-minutes} min early`;
+}
+
+export function getAdherenceReport(
+  medications: Medication[],
+  history: DoseHistory[],
+  graceMinutes: number,
+  now: Date = new Date()
+): AdherenceReport {
+  const from = startOfDay(now);
+  from.setDate(from.getDate() - (Math.max(...ADHERENCE_PERIODS) - 1));
+
+  const perMedication = medications.map((medication) => {
+    const slots = getDueDoseSlots(medication, history, from, now);
+    return { medication, slots, stats: getAdherenceStats(slots, graceMinutes, now) };
+  });
+  const allSlots = perMedication.flatMap((entry) => entry.slots);
+
+  return {
+    overall: getAdherenceStats(allSlots, graceMinutes, now),
+    perMedication: perMedication
+      .filter((entry) => entry.slots.length > 0)
+      .map(({ medication, stats }) => ({ medication, stats })),
+    insights: getAdherenceInsights(
+      allSlots.filter((slot) => !isSlotPending(slot, graceMinutes, now))
+    ),
+  };
+}
@@ -0,0 +1,122 @@
+import { Alert } from "react-native";
+import { DoseHistory, Medication, getDoseStatus } from "./storage";
+import { formatTime, getSchedule } from "./schedule";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_MAX_DOSES_PER_24H = 4;
+export const DEFAULT_MIN_HOURS_BETWEEN = 4;
+
+// Stored on doses the user took after being warned about the limits
+export const OVER_LIMIT_REASON = "Taken beyond as-needed limits";
+
+export interface AsNeededStatus {
+  dosesLast24h: number;
+  lastDoseAt: Date | null;
+  nextAllowedAt: Date | null; // null when a dose is within limits right now
+  warnings: string[];
+}
+
+/**
+ * Safety limits for an as-needed medication; older entries without a "prn" schedule have none
+ */
+export function getAsNeededLimits(medication: Medication): {
+  maxDosesPer24h?: number;
+  minHoursBetween?: number;
+} {
+  const schedule = getSchedule(medication);
+  if (schedule.type !== "prn") return {};
+  return {
+    maxDosesPer24h: schedule.maxDosesPer24h || undefined,
+    minHoursBetween: schedule.minHoursBetween || undefined,
+  };
+}
+
+function formatGap(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / (60 * 1000)));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+/**
+ * "14:30" for today, with the date in front otherwise
+ */
+export function formatDoseMoment(date: Date, now: Date = new Date()): string {
+  return date.toDateString() === now.toDateString()
+    ? formatTime(date)
+    : `${date.toLocaleDateString()} ${formatTime(date)}`;
+}
+
+export function getAsNeededStatus(
+  medication: Medication,
+  history: DoseHistory[],
+  now: Date = new Date()
+): AsNeededStatus {
+  const { maxDosesPer24h, minHoursBetween } = getAsNeededLimits(medication);
+  const since = now.getTime() - 24 * HOUR_MS;
+
+  const recentDoses = history
+    .filter(
+      (dose) =>
+        dose.medicationId === medication.id &&
+        getDoseStatus(dose) === "taken" &&
+        new Date(dose.timestamp).getTime() > since &&
+        new Date(dose.timestamp) <= now
+    )
+    .map((dose) => new Date(dose.timestamp))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const lastDoseAt = recentDoses[recentDoses.length - 1] ?? null;
+  const warnings: string[] = [];
+  let nextAllowed = 0;
+
+  if (maxDosesPer24h && recentDoses.length >= maxDosesPer24h) {
+    warnings.push(
+      `${recentDoses.length} doses of ${medication.name} taken in the last 24 hours. The limit is ${maxDosesPer24h}.`
+    );
+    // A slot frees up once enough of the recent doses are older than 24 hours
+    const freedBy = recentDoses[recentDoses.length - maxDosesPer24h];
+    nextAllowed = Math.max(nextAllowed, freedBy.getTime() + 24 * HOUR_MS);
+  }
+
+  if (minHoursBetween && lastDoseAt) {
+    const earliest = lastDoseAt.getTime() + minHoursBetween * HOUR_MS;
+    if (earliest > now.getTime()) {
+      warnings.push(
+        `Last dose was ${formatGap(now.getTime() - lastDoseAt.getTime())} ago. Wait at least ${minHoursBetween} hours between doses.`
+      );
+      nextAllowed = Math.max(nextAllowed, earliest);
+    }
+  }
+
+  return {
+    dosesLast24h: recentDoses.length,
+    lastDoseAt,
+    nextAllowedAt: nextAllowed > 0 ? new Date(nextAllowed) : null,
+    warnings,
+  };
+}
+
+/**
+ * Resolves true straight away when the dose is within limits, otherwise asks the user to confirm
+ */
+export function confirmAsNeededDose(status: AsNeededStatus): Promise<boolean> {
+  if (status.warnings.length === 0) return Promise.resolve(true);
+
+  const nextAllowed = status.nextAllowedAt
+    ? `\n\nNext dose within limits: ${formatDoseMoment(status.nextAllowedAt)}`
+    : "";
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      "Dose Limit Warning",
+      `${status.warnings.join("\n\n")}${nextAllowed}`,
+      [
+        { text: "Don't Take", style: "cancel", onPress: () => resolve(false) },
+        { text: "Take Anyway", style: "destructive", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
@@ -0,0 +1,43 @@
+import * as BackgroundFetch from "expo-background-fetch";
+import * as TaskManager from "expo-task-manager";
+import { completeFinishedCourses } from "./course";
+import { markMissedDoses } from "./doseStatus";
+import { replanAllReminders } from "./notifications";
+
+// Tasks can run with no screen mounted, so this module is loaded by index.ts
+// and defines them as soon as the bundle starts.
+// Reminder buttons aren't handled here: expo-notifications only hands remote
+// pushes to a background task, so they open the app instead (see
+// registerNotificationCategories).
+
+// Tops up the one-off reminders for people who don't open the app for days,
+// and marks the doses missed meanwhile
+const REMINDER_REPLAN_TASK = "reminder-replan";
+const REMINDER_REPLAN_INTERVAL_SECONDS = 12 * 60 * 60;
+
+TaskManager.defineTask(REMINDER_REPLAN_TASK, async () => {
+  try {
+    // Courses past their end date are archived first, so they aren't re-planned
+    await completeFinishedCourses();
+    await markMissedDoses();
+    await replanAllReminders();
+    return BackgroundFetch.BackgroundFetchResult.NewData;
+  } catch (error) {
+    console.error("Error in reminder re-plan task:", error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+export async function registerBackgroundTasks(): Promise<void> {
+  try {
+    if (!(await TaskManager.isTaskRegisteredAsync(REMINDER_REPLAN_TASK))) {
+      await BackgroundFetch.registerTaskAsync(REMINDER_REPLAN_TASK, {
+        minimumInterval: REMINDER_REPLAN_INTERVAL_SECONDS,
+        stopOnTerminate: false,
+        startOnBoot: true,
+      });
+    }
+  } catch (error) {
+    console.error("Error registering background tasks:", error);
+  }
+}
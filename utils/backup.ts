@@ -0,0 +1,539 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import CryptoJS from "crypto-js";
+import * as Crypto from "expo-crypto";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import type { StoredWeeklyData } from "../lib/weeklyHealthdata";
+import {
+  DoseHistory,
+  Medication,
+  PersonRecords,
+  RefillEntry,
+  clearEscalationLog,
+  getMedications,
+  getPersonRecords,
+  writePersonRecords,
+} from "./storage";
+import { TypedVitalReading, VitalType, getAllVitals, importVitals } from "./vitals";
+import {
+  Person,
+  SELF_PERSON_ID,
+  getActivePersonId,
+  getPeople,
+  getPersonKey,
+  importPeople,
+  setActivePersonId,
+} from "./people";
+import { deletePersonRows, writeTransaction } from "./database";
+import { getPrescriptions } from "./prescriptions";
+import { CURRENT_SCHEMA_VERSION, StoredProfile, getRecordUpgrader } from "./migrations";
+import { cancelMedicationReminders, updateMedicationReminders } from "./notifications";
+
+const BACKUP_FORMAT = "nammamedic-backup";
+const BACKUP_FORMAT_VERSION = 1;
+const KDF_ITERATIONS = 10000;
+// A file asking for more would stall the phone; fewer would be too weak
+const MIN_KDF_ITERATIONS = 10000;
+const MAX_KDF_ITERATIONS = 1000000;
+
+const USER_PROFILE_KEY = "userProfile";
+const WATER_GOAL_KEY = "water_daily_goal";
+const STEPS_GOAL_KEY = "stepsGoal";
+const HISTORICAL_DATA_KEY = "historical_health_data";
+
+export const MIN_BACKUP_PASSWORD_LENGTH = 6;
+
+export type RestoreMode = "merge" | "replace";
+
+export interface BackupPersonData extends PersonRecords {
+  person: Person;
+  userProfile: StoredProfile | null;
+  vitals: TypedVitalReading[];
+}
+
+// What's inside a backup file once decrypted
+export interface BackupData {
+  schemaVersion: number; // See utils/migrations.ts; older records are upgraded on import
+  createdAt: string;
+  people: BackupPersonData[];
+  goals: { waterDailyGoal: string | null; stepsGoal: string | null };
+  historicalHealthData: StoredWeeklyData[];
+}
+
+// The file on disk: BackupData as JSON, encrypted with a key derived from the password
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  iterations: number;
+  salt: string; // Hex
+  iv: string; // Hex
+  ciphertext: string; // Base64
+  mac: string; // HMAC-SHA256 of iv and ciphertext, hex
+}
+
+export interface BackupPreview {
+  createdAt: string;
+  people: { name: string; medications: number; doses: number; vitals: number }[];
+  firstDose: string | null;
+  lastDose: string | null;
+}
+
+function randomWords(byteCount: number): CryptoJS.lib.WordArray {
+  const bytes = Crypto.getRandomBytes(byteCount);
+  return CryptoJS.enc.Hex.parse(
+    Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+  );
+}
+
+// One PBKDF2 run gives both the AES key and the HMAC key
+function deriveKeys(password: string, salt: CryptoJS.lib.WordArray, iterations: number) {
+  const derived = CryptoJS.PBKDF2(password, salt, {
+    keySize: 512 / 32,
+    iterations,
+    hasher: CryptoJS.algo.SHA256,
+  });
+  return {
+    encryptionKey: CryptoJS.lib.WordArray.create(derived.words.slice(0, 8)),
+    macKey: CryptoJS.lib.WordArray.create(derived.words.slice(8, 16)),
+  };
+}
+
+function encryptBackup(data: BackupData, password: string): BackupFile {
+  const salt = randomWords(16);
+  const iv = randomWords(16);
+  const { encryptionKey, macKey } = deriveKeys(password, salt, KDF_ITERATIONS);
+
+  const encrypted = CryptoJS.AES.encrypt(JSON.stringify(data), encryptionKey, { iv });
+  const ciphertext = encrypted.ciphertext.toString(CryptoJS.enc.Base64);
+  const ivHex = iv.toString(CryptoJS.enc.Hex);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_FORMAT_VERSION,
+    createdAt: data.createdAt,
+    iterations: KDF_ITERATIONS,
+    salt: salt.toString(CryptoJS.enc.Hex),
+    iv: ivHex,
+    ciphertext,
+    mac: CryptoJS.HmacSHA256(ivHex + ciphertext, macKey).toString(CryptoJS.enc.Hex),
+  };
+}
+
+function decryptBackup(file: BackupFile, password: string): unknown {
+  if (
+    !Number.isInteger(file.iterations) ||
+    file.iterations < MIN_KDF_ITERATIONS ||
+    file.iterations > MAX_KDF_ITERATIONS
+  ) {
+    throw new Error("The backup file is damaged");
+  }
+
+  const { encryptionKey, macKey } = deriveKeys(
+    password,
+    CryptoJS.enc.Hex.parse(file.salt),
+    file.iterations
+  );
+
+  // A wrong password gives a different MAC, so nothing is decrypted with it
+  const mac = CryptoJS.HmacSHA256(file.iv + file.ciphertext, macKey).toString(CryptoJS.enc.Hex);
+  if (mac !== file.mac) {
+    throw new Error("Wrong password, or the backup file is damaged");
+  }
+
+  const decrypted = CryptoJS.AES.decrypt(
+    CryptoJS.lib.CipherParams.create({ ciphertext: CryptoJS.enc.Base64.parse(file.ciphertext) }),
+    encryptionKey,
+    { iv: CryptoJS.enc.Hex.parse(file.iv) }
+  );
+  return JSON.parse(decrypted.toString(CryptoJS.enc.Utf8));
+}
+
+async function readJson<T>(key: string): Promise<T | null> {
+  const value = await AsyncStorage.getItem(key);
+  return value ? JSON.parse(value) : null;
+}
+
+/**
+ * Collects everyone's medications, dose history, refills, profile and vitals,
+ * plus goals and weekly health history
+ */
+export async function createBackup(): Promise<BackupData> {
+  const people: BackupPersonData[] = [];
+  for (const person of await getPeople()) {
+    people.push({
+      person,
+      ...(await getPersonRecords(person.id)),
+      userProfile: await readJson(await getPersonKey(USER_PROFILE_KEY, person.id)),
+      vitals: await getAllVitals(person.id),
+    });
+  }
+
+  const [waterDailyGoal, stepsGoal, historicalHealthData] = await Promise.all([
+    AsyncStorage.getItem(WATER_GOAL_KEY),
+    AsyncStorage.getItem(STEPS_GOAL_KEY),
+    readJson<StoredWeeklyData[]>(HISTORICAL_DATA_KEY),
+  ]);
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    people,
+    goals: { waterDailyGoal, stepsGoal },
+    historicalHealthData: historicalHealthData ?? [],
+  };
+}
+
+/**
+ * Writes an encrypted backup file and opens the share sheet to save or send it
+ */
+export async function exportBackup(password: string): Promise<void> {
+  try {
+    if (password.length < MIN_BACKUP_PASSWORD_LENGTH) {
+      throw new Error(`Use a password of at least ${MIN_BACKUP_PASSWORD_LENGTH} characters`);
+    }
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error("Sharing isn't available on this device");
+    }
+
+    const data = await createBackup();
+    const fileName = `nammamedic-backup-${data.createdAt.slice(0, 10)}.json`;
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify(encryptBackup(data, password)));
+
+    await Sharing.shareAsync(uri, {
+      mimeType: "application/json",
+      dialogTitle: "Save backup",
+      UTI: "public.json",
+    });
+  } catch (error) {
+    console.error("Error exporting backup:", error);
+    throw error;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isBackupFile(value: unknown): value is BackupFile {
+  return (
+    isRecord(value) &&
+    value.format === BACKUP_FORMAT &&
+    typeof value.version === "number" &&
+    typeof value.iterations === "number" &&
+    typeof value.salt === "string" &&
+    typeof value.iv === "string" &&
+    typeof value.ciphertext === "string" &&
+    typeof value.mac === "string"
+  );
+}
+
+function isPerson(value: unknown): value is Person {
+  return isRecord(value) && typeof value.id === "string" && typeof value.name === "string";
+}
+
+function isMedication(value: unknown): value is Medication {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    Array.isArray(value.times) &&
+    typeof value.startDate === "string"
+  );
+}
+
+function isDose(value: unknown): value is DoseHistory {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.medicationId === "string" &&
+    typeof value.timestamp === "string"
+  );
+}
+
+function isRefillEntry(value: unknown): value is RefillEntry {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.medicationId === "string" &&
+    typeof value.quantity === "number"
+  );
+}
+
+const VITAL_TYPES: VitalType[] = ["water", "heartRate", "temperature"];
+
+function isVitalReading(value: unknown): value is TypedVitalReading {
+  return (
+    isRecord(value) &&
+    VITAL_TYPES.some((type) => type === value.type) &&
+    typeof value.date === "string" &&
+    typeof value.value === "number"
+  );
+}
+
+function isStoredProfile(value: unknown): value is StoredProfile {
+  return (
+    isRecord(value) &&
+    (value.allergies === undefined || isStringArray(value.allergies)) &&
+    (value.medicalConditions === undefined || isStringArray(value.medicalConditions))
+  );
+}
+
+function isStoredWeeklyData(value: unknown): value is StoredWeeklyData {
+  return (
+    isRecord(value) &&
+    typeof value.weekStart === "string" &&
+    typeof value.weekEnd === "string" &&
+    isRecord(value.data)
+  );
+}
+
+function readPersonData(
+  entry: unknown,
+  upgrade: ReturnType<typeof getRecordUpgrader>
+): BackupPersonData {
+  if (
+    !isRecord(entry) ||
+    !isPerson(entry.person) ||
+    !Array.isArray(entry.medications) ||
+    !entry.medications.every(isMedication) ||
+    !Array.isArray(entry.doses) ||
+    !entry.doses.every(isDose) ||
+    !Array.isArray(entry.refillLog) ||
+    !entry.refillLog.every(isRefillEntry) ||
+    !Array.isArray(entry.vitals) ||
+    !entry.vitals.every(isVitalReading) ||
+    (entry.userProfile != null && !isStoredProfile(entry.userProfile))
+  ) {
+    throw new Error("This backup is incomplete or damaged");
+  }
+  return {
+    person: entry.person,
+    medications: entry.medications.map(upgrade.medication),
+    doses: entry.doses.map(upgrade.dose),
+    refillLog: entry.refillLog,
+    userProfile: entry.userProfile ? upgrade.userProfile(entry.userProfile) : null,
+    vitals: entry.vitals,
+  };
+}
+
+// Checks the decrypted contents and upgrades records saved by an older app version
+function validateBackup(value: unknown): BackupData {
+  if (!isRecord(value) || typeof value.schemaVersion !== "number" || !Array.isArray(value.people)) {
+    throw new Error("This file isn't a valid backup");
+  }
+  if (value.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Update the app first.");
+  }
+
+  const upgrade = getRecordUpgrader(value.schemaVersion);
+  const people = value.people.map((entry: unknown) => readPersonData(entry, upgrade));
+  const goals = isRecord(value.goals) ? value.goals : {};
+  const historicalHealthData = Array.isArray(value.historicalHealthData)
+    ? value.historicalHealthData
+    : [];
+  if (!historicalHealthData.every(isStoredWeeklyData)) {
+    throw new Error("This backup is incomplete or damaged");
+  }
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: String(value.createdAt),
+    people,
+    goals: {
+      waterDailyGoal: typeof goals.waterDailyGoal === "string" ? goals.waterDailyGoal : null,
+      stepsGoal: typeof goals.stepsGoal === "string" ? goals.stepsGoal : null,
+    },
+    historicalHealthData: historicalHealthData.map(upgrade.weeklyHealthData),
+  };
+}
+
+/**
+ * Reads and decrypts a backup file. Throws with a message that can be shown
+ * to the user when the file or password is wrong.
+ */
+export async function readBackupFile(uri: string, password: string): Promise<BackupData> {
+  let file: unknown;
+  try {
+    file = JSON.parse(await FileSystem.readAsStringAsync(uri));
+  } catch (error) {
+    console.error("Error reading backup file:", error);
+    throw new Error("This file isn't a backup from this app");
+  }
+
+  if (!isBackupFile(file)) {
+    throw new Error("This file isn't a backup from this app");
+  }
+  if (file.version > BACKUP_FORMAT_VERSION) {
+    throw new Error("This backup was made by a newer version of the app. Update the app first.");
+  }
+
+  let contents: unknown;
+  try {
+    contents = decryptBackup(file, password);
+  } catch (error) {
+    console.error("Error decrypting backup:", error);
+    throw error instanceof Error && error.message.startsWith("Wrong password")
+      ? error
+      : new Error("The backup file is damaged");
+  }
+  return validateBackup(contents);
+}
+
+export function getBackupPreview(data: BackupData): BackupPreview {
+  const timestamps = data.people
+    .flatMap((entry) => entry.doses.map((dose) => dose.timestamp))
+    .sort();
+  return {
+    createdAt: data.createdAt,
+    people: data.people.map((entry) => ({
+      name: entry.person.name,
+      medications: entry.medications.length,
+      doses: entry.doses.length,
+      vitals: entry.vitals.length,
+    })),
+    firstDose: timestamps[0] ?? null,
+    lastDose: timestamps[timestamps.length - 1] ?? null,
+  };
+}
+
+// AsyncStorage has no transactions, so a failed restore puts its contents back by hand
+type StorageSnapshot = Awaited<ReturnType<typeof AsyncStorage.multiGet>>;
+
+async function snapshotStorage(): Promise<StorageSnapshot> {
+  return AsyncStorage.multiGet(await AsyncStorage.getAllKeys());
+}
+
+async function rollbackStorage(snapshot: StorageSnapshot): Promise<void> {
+  const saved = new Set(snapshot.map(([key]) => key));
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove(keys.filter((key) => !saved.has(key)));
+  await AsyncStorage.multiSet(
+    snapshot.filter((pair): pair is [string, string] => pair[1] !== null)
+  );
+}
+
+/**
+ * Restores a backup. "replace" makes the phone match the backup, removing
+ * people and records it doesn't have; "merge" only adds what the phone is
+ * missing and keeps existing records, profiles and goals as they are.
+ * Either all of it is restored or, if anything fails, none of it.
+ * Reminders are re-planned for every medication afterwards.
+ */
+export async function restoreBackup(data: BackupData, mode: RestoreMode): Promise<void> {
+  const currentPeople = await getPeople();
+  const removedPeople =
+    mode === "replace"
+      ? currentPeople.filter(
+          (person) =>
+            person.id !== SELF_PERSON_ID &&
+            !data.people.some((entry) => entry.person.id === person.id)
+        )
+      : [];
+  const snapshot = await snapshotStorage();
+  try {
+    for (const person of currentPeople) {
+      for (const medication of await getMedications(person.id)) {
+        await cancelMedicationReminders(medication.id);
+      }
+    }
+
+    // Images are files, so they can only go once everything else is saved
+    const removedImages: string[] = [];
+    for (const person of removedPeople) {
+      for (const prescription of await getPrescriptions(person.id)) {
+        if (prescription.imageUri) removedImages.push(prescription.imageUri);
+      }
+    }
+
+    // AsyncStorage first: it can be rolled back if the database transaction fails
+    try {
+      await importPeople(
+        data.people.map((entry) => entry.person),
+        mode
+      );
+      const keys = await AsyncStorage.getAllKeys();
+      for (const person of removedPeople) {
+        await AsyncStorage.multiRemove(keys.filter((key) => key.endsWith(`:${person.id}`)));
+      }
+      const activePersonId = await getActivePersonId();
+      if (removedPeople.some((person) => person.id === activePersonId)) {
+        await setActivePersonId(SELF_PERSON_ID);
+      }
+
+      for (const entry of data.people) {
+        const personId = entry.person.id;
+        if (mode === "replace") {
+          await clearEscalationLog(personId);
+        }
+
+        const profileKey = await getPersonKey(USER_PROFILE_KEY, personId);
+        if (mode === "replace" && !entry.userProfile) {
+          await AsyncStorage.removeItem(profileKey);
+        } else if (
+          entry.userProfile &&
+          (mode === "replace" || (await AsyncStorage.getItem(profileKey)) === null)
+        ) {
+          await AsyncStorage.setItem(profileKey, JSON.stringify(entry.userProfile));
+        }
+      }
+
+      await restoreGoal(WATER_GOAL_KEY, data.goals.waterDailyGoal, mode);
+      await restoreGoal(STEPS_GOAL_KEY, data.goals.stepsGoal, mode);
+
+      const currentWeeks =
+        mode === "replace" ? [] : (await readJson<StoredWeeklyData[]>(HISTORICAL_DATA_KEY)) ?? [];
+      const restoredWeeks = data.historicalHealthData.filter(
+        (week) =>
+          !currentWeeks.some(
+            (current) => current.weekStart === week.weekStart && current.weekEnd === week.weekEnd
+          )
+      );
+      await AsyncStorage.setItem(
+        HISTORICAL_DATA_KEY,
+        JSON.stringify([...currentWeeks, ...restoredWeeks])
+      );
+
+      await writeTransaction(async (db) => {
+        for (const person of removedPeople) {
+          await deletePersonRows(db, person.id);
+        }
+        for (const entry of data.people) {
+          await writePersonRecords(db, entry, entry.person.id, mode);
+          await importVitals(db, entry.vitals, entry.person.id, mode);
+        }
+      });
+    } catch (error) {
+      await rollbackStorage(snapshot);
+      throw error;
+    }
+
+    // The restore is saved by now, so a file left behind isn't a failure
+    for (const uri of removedImages) {
+      await FileSystem.deleteAsync(uri, { idempotent: true }).catch((error) =>
+        console.error("Error deleting prescription image:", error)
+      );
+    }
+  } catch (error) {
+    console.error("Error restoring backup:", error);
+    throw error;
+  } finally {
+    // Whether restored or rolled back, the medications on the phone need their reminders
+    for (const person of await getPeople()) {
+      for (const medication of await getMedications(person.id)) {
+        await updateMedicationReminders(medication);
+      }
+    }
+  }
+}
+
+async function restoreGoal(key: string, value: string | null, mode: RestoreMode): Promise<void> {
+  if (value === null) return;
+  if (mode === "replace" || (await AsyncStorage.getItem(key)) === null) {
+    await AsyncStorage.setItem(key, value);
+  }
+}
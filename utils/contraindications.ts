@@ -0,0 +1,153 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { ContraindicationOverride } from "./storage";
+import { getActiveIngredients, getIngredientKeys } from "./interactions";
+import {
+  ALLERGY_RULES,
+  CONDITION_RULES,
+  ContraindicationLevel,
+  ContraindicationRule,
+} from "../constants/contraindications";
+import { DRUG_CLASSES } from "../constants/drugInteractions";
+import { getPersonKey } from "./people";
+
+export interface HealthProfile {
+  allergies: string[];
+  medicalConditions: string[];
+}
+
+export interface Contraindication {
+  source: "allergy" | "condition";
+  trigger: string;
+  ingredient: string;
+  level: ContraindicationLevel;
+  description: string;
+}
+
+export const CONTRAINDICATION_DISPLAY: Record<
+  ContraindicationLevel,
+  { label: string; color: string; backgroundColor: string }
+> = {
+  block: { label: "Do not take", color: "#C62828", backgroundColor: "#FFEBEE" },
+  warn: { label: "Caution", color: "#EF6C00", backgroundColor: "#FFF3E0" },
+};
+
+export async function getHealthProfile(): Promise<HealthProfile> {
+  try {
+    const savedProfile = await AsyncStorage.getItem(await getPersonKey("userProfile"));
+    const profile = savedProfile ? JSON.parse(savedProfile) : {};
+    return {
+      allergies: profile.allergies ?? [],
+      medicalConditions: profile.medicalConditions ?? [],
+    };
+  } catch (error) {
+    console.error("Error loading health profile:", error);
+    return { allergies: [], medicalConditions: [] };
+  }
+}
+
+/**
+ * Allergies typed in by the user have no rule of their own, so they block
+ * any ingredient or drug class they name directly, e.g. "Amoxicillin" or "NSAIDs"
+ */
+function getCustomAllergyRules(allergy: string): ContraindicationRule[] {
+  const label = allergy.trim().toLowerCase();
+  const drugClass = [label, label.replace(/s$/, "")].find(
+    (name) => DRUG_CLASSES[name]
+  );
+  const targets = drugClass ? [drugClass] : getActiveIngredients(allergy);
+  if (targets.length === 0) return [];
+
+  return [
+    {
+      targets,
+      level: "block",
+      description: `Matches your recorded allergy to ${allergy}.`,
+    },
+  ];
+}
+
+function matchRules(
+  source: Contraindication["source"],
+  trigger: string,
+  rules: ContraindicationRule[],
+  ingredients: string[]
+): Contraindication[] {
+  const matches: Contraindication[] = [];
+  for (const ingredient of ingredients) {
+    const keys = getIngredientKeys(ingredient);
+    const matching = rules.filter((rule) =>
+      rule.targets.some((target) => keys.includes(target))
+    );
+    // One entry per ingredient, the strictest rule wins
+    const rule =
+      matching.find((rule) => rule.level === "block") ?? matching[0];
+    if (rule) {
+      matches.push({
+        source,
+        trigger,
+        ingredient,
+        level: rule.level,
+        description: rule.description,
+      });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Conflicts between a medication and the allergies and conditions on the user profile
+ */
+export function checkContraindications(
+  medicationName: string,
+  profile: HealthProfile
+): Contraindication[] {
+  const ingredients = getActiveIngredients(medicationName);
+  if (ingredients.length === 0) return [];
+
+  const results = [
+    ...profile.allergies.flatMap((allergy) =>
+      matchRules(
+        "allergy",
+        allergy,
+        ALLERGY_RULES[allergy.trim().toLowerCase()] ??
+          getCustomAllergyRules(allergy),
+        ingredients
+      )
+    ),
+    ...profile.medicalConditions.flatMap((condition) =>
+      matchRules(
+        "condition",
+        condition,
+        CONDITION_RULES[condition.trim().toLowerCase()] ?? [],
+        ingredients
+      )
+    ),
+  ];
+  return results.sort((a, b) =>
+    a.level === b.level ? 0 : a.level === "block" ? -1 : 1
+  );
+}
+
+export function hasBlockingContraindication(
+  contraindications: Contraindication[]
+): boolean {
+  return contraindications.some((item) => item.level === "block");
+}
+
+/**
+ * What gets stored on the medication when the user proceeds past the warnings
+ */
+export function toContraindicationOverrides(
+  contraindications: Contraindication[],
+  reason: string,
+  now: Date = new Date()
+): ContraindicationOverride[] {
+  return contraindications.map(({ source, trigger, ingredient, level }) => ({
+    source,
+    trigger,
+    ingredient,
+    level,
+    reason,
+    overriddenAt: now.toISOString(),
+  }));
+}
@@ -0,0 +1,232 @@
+import { Ionicons } from "@expo/vector-icons";
+import {
+  CourseStatus,
+  Medication,
+  getMedicationOwner,
+  getMedications,
+  updateMedication,
+} from "./storage";
+import {
+  cancelMedicationReminders,
+  updateMedicationReminders,
+} from "./notifications";
+import {
+  getCourseEndDate,
+  getCourseStatus,
+  isCourseEnded,
+  startOfDay,
+} from "./schedule";
+import { getPeople } from "./people";
+
+export const DISCONTINUE_REASONS = [
+  "Side effects",
+  "Doctor advised",
+  "Not working",
+  "Feeling better",
+  "Too expensive",
+  "Other",
+];
+
+export const COURSE_STATUS_DISPLAY: Record<
+  CourseStatus,
+  {
+    label: string;
+    color: string;
+    backgroundColor: string;
+    icon: keyof typeof Ionicons.glyphMap;
+  }
+> = {
+  active: {
+    label: "Active",
+    color: "#1a8e2d",
+    backgroundColor: "#E8F5E9",
+    icon: "play-circle",
+  },
+  paused: {
+    label: "Paused",
+    color: "#FF9800",
+    backgroundColor: "#FFF3E0",
+    icon: "pause-circle",
+  },
+  completed: {
+    label: "Completed",
+    color: "#2196F3",
+    backgroundColor: "#E3F2FD",
+    icon: "checkmark-done-circle",
+  },
+  discontinued: {
+    label: "Discontinued",
+    color: "#757575",
+    backgroundColor: "#F5F5F5",
+    icon: "stop-circle",
+  },
+};
+
+async function findMedication(medicationId: string): Promise<Medication> {
+  const medications = await getMedications(await getMedicationOwner(medicationId));
+  const medication = medications.find((med) => med.id === medicationId);
+  if (!medication) {
+    throw new Error(`Medication ${medicationId} not found`);
+  }
+  return medication;
+}
+
+// Closes the open pause, if any, at `at`
+function closePauses(medication: Medication, at: Date): Medication["pauses"] {
+  return medication.pauses?.map((pause) =>
+    pause.to ? pause : { ...pause, to: at.toISOString() }
+  );
+}
+
+async function endCourse(
+  medication: Medication,
+  status: "completed" | "discontinued",
+  endedAt: Date,
+  reason?: string
+): Promise<Medication> {
+  const ended: Medication = {
+    ...medication,
+    status,
+    endedAt: endedAt.toISOString(),
+    discontinuedReason: reason,
+    pauses: closePauses(medication, endedAt),
+  };
+  await updateMedication(ended);
+  await cancelMedicationReminders(medication.id);
+  return ended;
+}
+
+/**
+ * Stops doses and reminders until the course is resumed. Paused days don't
+ * count as missed.
+ */
+export async function pauseCourse(medicationId: string): Promise<Medication> {
+  try {
+    const medication = await findMedication(medicationId);
+    if (getCourseStatus(medication) !== "active") return medication;
+
+    const paused: Medication = {
+      ...medication,
+      status: "paused",
+      pauses: [...(medication.pauses ?? []), { from: new Date().toISOString() }],
+    };
+    await updateMedication(paused);
+    await cancelMedicationReminders(medicationId);
+    return paused;
+  } catch (error) {
+    console.error("Error pausing course:", error);
+    throw error;
+  }
+}
+
+export async function resumeCourse(medicationId: string): Promise<Medication> {
+  try {
+    const medication = await findMedication(medicationId);
+    if (getCourseStatus(medication) !== "paused") return medication;
+
+    const resumed: Medication = {
+      ...medication,
+      status: "active",
+      pauses: closePauses(medication, new Date()),
+    };
+    await updateMedication(resumed);
+    await updateMedicationReminders(resumed);
+    return resumed;
+  } catch (error) {
+    console.error("Error resuming course:", error);
+    throw error;
+  }
+}
+
+export async function completeCourse(medicationId: string): Promise<Medication> {
+  try {
+    return await endCourse(await findMedication(medicationId), "completed", new Date());
+  } catch (error) {
+    console.error("Error completing course:", error);
+    throw error;
+  }
+}
+
+export async function discontinueCourse(
+  medicationId: string,
+  reason: string
+): Promise<Medication> {
+  try {
+    return await endCourse(
+      await findMedication(medicationId),
+      "discontinued",
+      new Date(),
+      reason
+    );
+  } catch (error) {
+    console.error("Error discontinuing course:", error);
+    throw error;
+  }
+}
+
+/**
+ * Starts the course again from today with the same regimen. The finished run
+ * is kept in `pastCourses` so its history and adherence stay as they were.
+ */
+export async function restartCourse(medicationId: string): Promise<Medication> {
+  try {
+    const medication = await findMedication(medicationId);
+    if (!isCourseEnded(medication) || !medication.endedAt) return medication;
+
+    const now = new Date();
+    const restarted: Medication = {
+      ...medication,
+      status: "active",
+      startDate: now.toISOString(),
+      endedAt: undefined,
+      discontinuedReason: undefined,
+      pastCourses: [
+        ...(medication.pastCourses ?? []),
+        {
+          startDate: medication.startDate,
+          endedAt: medication.endedAt,
+          status: medication.status === "discontinued" ? "discontinued" : "completed",
+          reason: medication.discontinuedReason,
+        },
+      ],
+    };
+    await updateMedication(restarted);
+    await updateMedicationReminders(restarted);
+    return restarted;
+  } catch (error) {
+    console.error("Error restarting course:", error);
+    throw error;
+  }
+}
+
+/**
+ * Marks courses whose last day has passed as completed and cancels their
+ * reminders. Covers every person on the phone and returns the courses completed.
+ */
+export async function completeFinishedCourses(
+  now: Date = new Date()
+): Promise<Medication[]> {
+  const completed: Medication[] = [];
+  try {
+    for (const person of await getPeople()) {
+      for (const medication of await getMedications(person.id)) {
+        if (isCourseEnded(medication)) continue;
+
+        const end = getCourseEndDate(medication);
+        if (!end || end >= startOfDay(now)) continue;
+
+        // The course stopped at the end of its last day
+        const endedAt = new Date(end);
+        endedAt.setDate(endedAt.getDate() + 1);
+        completed.push(await endCourse(medication, "completed", endedAt));
+      }
+    }
+
+    if (completed.length > 0) {
+      console.log(`Completed ${completed.length} finished courses`);
+    }
+  } catch (error) {
+    console.error("Error completing finished courses:", error);
+  }
+  return completed;
+}
@@ -0,0 +1,338 @@
+import * as SQLite from "expo-sqlite";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { DoseHistory, Medication, RefillEntry, TrashEntry } from "./storage";
+import { SELF_PERSON_ID } from "./people";
+import { runMigrations } from "./migrations";
+
+const DATABASE_NAME = "nammamedic.db";
+
+// Bumped whenever the tables below change; stored as the database's user_version
+const DATABASE_VERSION = 3;
+
+// Medications, doses and refills keep the full record as JSON in `data`; the other
+// columns are copies of the fields that are looked up or sorted on.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS medications (
+    id TEXT PRIMARY KEY NOT NULL,
+    person_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS medications_person ON medications (person_id, position);
+
+  CREATE TABLE IF NOT EXISTS doses (
+    id TEXT PRIMARY KEY NOT NULL,
+    person_id TEXT NOT NULL,
+    medication_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    scheduled_time TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS doses_person_timestamp ON doses (person_id, timestamp);
+  CREATE INDEX IF NOT EXISTS doses_medication_timestamp ON doses (medication_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS refills (
+    id TEXT PRIMARY KEY NOT NULL,
+    person_id TEXT NOT NULL,
+    medication_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS refills_person ON refills (person_id);
+  CREATE INDEX IF NOT EXISTS refills_medication ON refills (medication_id);
+
+  CREATE TABLE IF NOT EXISTS vitals (
+    person_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    date TEXT NOT NULL,
+    value REAL NOT NULL,
+    PRIMARY KEY (person_id, type, date)
+  );
+
+  CREATE TABLE IF NOT EXISTS trash (
+    id TEXT PRIMARY KEY NOT NULL,
+    person_id TEXT NOT NULL,
+    deleted_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS trash_person_deleted ON trash (person_id, deleted_at);
+`;
+
+// AsyncStorage keys the data lived under before the database, per person
+const LEGACY_MEDICATIONS_KEY = /^@medications(?::(.+))?$/;
+const LEGACY_DOSE_HISTORY_KEY = /^@dose_history(?::(.+))?$/;
+const LEGACY_REFILL_LOG_KEY = /^@refill_log(?::(.+))?$/;
+// e.g. "water_2025_0_31" (months from 0) or "hr_2025_0_31:<personId>"
+const LEGACY_VITAL_KEY = /^(water|hr|temp)_(\d{4})_(\d{1,2})_(\d{1,2})(?::(.+))?$/;
+
+const LEGACY_VITAL_TYPES: Record<string, string> = {
+  water: "water",
+  hr: "heartRate",
+  temp: "temperature",
+};
+
+// Writes queued under the database key, see writeTransaction
+const DATABASE_WRITES = "database";
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+const writeQueues = new Map<string, Promise<void>>();
+
+/**
+ * The app database, opened and brought up to date on first use: tables are
+ * created, then stored records upgraded, see utils/migrations.ts
+ */
+export function getDatabase(): Promise<SQLite.SQLiteDatabase> {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch((error) => {
+      // Let the next caller try again
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+async function openDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  await db.execAsync("PRAGMA journal_mode = WAL;");
+
+  const row = await db.getFirstAsync<{ user_version: number }>("PRAGMA user_version");
+  if ((row?.user_version ?? 0) < DATABASE_VERSION) {
+    await createTables(db);
+  }
+  await runMigrations(db);
+  return db;
+}
+
+/**
+ * Creates the tables and copies over what was saved in AsyncStorage before
+ * the database existed. Runs in one transaction, so an interrupted import is
+ * retried in full on the next launch; the old keys are removed once it commits.
+ * Keys whose value can't be read are skipped and left in AsyncStorage as they are.
+ * Also runs after a version bump: existing tables are kept, new ones added.
+ */
+async function createTables(db: SQLite.SQLiteDatabase): Promise<void> {
+  const keys = await AsyncStorage.getAllKeys();
+  const imported: string[] = [];
+
+  await db.withTransactionAsync(async () => {
+    await db.execAsync(SCHEMA);
+
+    for (const key of keys) {
+      const medicationsMatch = key.match(LEGACY_MEDICATIONS_KEY);
+      const dosesMatch = key.match(LEGACY_DOSE_HISTORY_KEY);
+      const refillsMatch = key.match(LEGACY_REFILL_LOG_KEY);
+      const vitalMatch = key.match(LEGACY_VITAL_KEY);
+      if (!medicationsMatch && !dosesMatch && !refillsMatch && !vitalMatch) continue;
+
+      const value = await AsyncStorage.getItem(key);
+      if (value === null) continue;
+
+      if (medicationsMatch) {
+        const medications = parseLegacyList<Medication>(key, value);
+        if (medications === null) continue;
+        const personId = medicationsMatch[1] ?? SELF_PERSON_ID;
+        for (const [position, medication] of medications.entries()) {
+          await writeMedication(db, medication, personId, position);
+        }
+      } else if (dosesMatch) {
+        const history = parseLegacyList<DoseHistory>(key, value);
+        if (history === null) continue;
+        for (const dose of history) {
+          await writeDose(db, dose, dosesMatch[1] ?? SELF_PERSON_ID);
+        }
+      } else if (refillsMatch) {
+        const log = parseLegacyList<RefillEntry>(key, value);
+        if (log === null) continue;
+        for (const entry of log) {
+          await writeRefillEntry(db, entry, refillsMatch[1] ?? SELF_PERSON_ID);
+        }
+      } else if (vitalMatch) {
+        const [, prefix, year, month, day, personId] = vitalMatch;
+        const reading = importVitalReading(prefix, value);
+        if (reading === null) continue;
+        await writeVital(
+          db,
+          personId ?? SELF_PERSON_ID,
+          LEGACY_VITAL_TYPES[prefix],
+          toDateKey(new Date(Number(year), Number(month), Number(day))),
+          reading
+        );
+      }
+      imported.push(key);
+    }
+
+    await db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION}`);
+  });
+
+  if (imported.length > 0) {
+    await AsyncStorage.multiRemove(imported);
+  }
+}
+
+// Null when the value is corrupt, so one bad key doesn't roll back the whole import
+function parseLegacyList<T>(key: string, value: string): T[] | null {
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed;
+    console.error(`Skipping legacy key ${key}: not a list`);
+  } catch (error) {
+    console.error(`Skipping unreadable legacy key ${key}:`, error);
+  }
+  return null;
+}
+
+// Water was saved as a bare number, heart rate and temperature as JSON
+function importVitalReading(prefix: string, value: string): number | null {
+  if (prefix === "water") {
+    const intake = Number.parseInt(value, 10);
+    return Number.isNaN(intake) ? null : intake;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    const reading = prefix === "hr" ? parsed?.heartRate : parsed?.temp;
+    return typeof reading === "number" ? reading : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Runs `task` once every write queued before it under the same key has
+ * settled, so read-modify-write sequences on that key never interleave.
+ * A task must not queue on its own key again: it would wait on itself.
+ */
+export function queueWrite<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(key) ?? Promise.resolve();
+  const result = previous.then(task);
+
+  // A failed write doesn't hold up the ones behind it
+  const settled = result.then(
+    () => undefined,
+    () => undefined
+  );
+  writeQueues.set(key, settled);
+  settled.then(() => {
+    if (writeQueues.get(key) === settled) writeQueues.delete(key);
+  });
+  return result;
+}
+
+/**
+ * Runs `task` in a transaction, queued behind every other database write, so
+ * its changes are saved together or not at all
+ */
+export function writeTransaction<T>(
+  task: (db: SQLite.SQLiteDatabase) => Promise<T>
+): Promise<T> {
+  return queueWrite(DATABASE_WRITES, async () => {
+    const db = await getDatabase();
+    let result: T | undefined;
+    await db.withTransactionAsync(async () => {
+      result = await task(db);
+    });
+    return result as T;
+  });
+}
+
+// Local calendar day, e.g. "2025-01-31"
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export async function writeMedication(
+  db: SQLite.SQLiteDatabase,
+  medication: Medication,
+  personId: string,
+  position: number
+): Promise<void> {
+  await db.runAsync(
+    "INSERT OR REPLACE INTO medications (id, person_id, position, data) VALUES (?, ?, ?, ?)",
+    medication.id,
+    personId,
+    position,
+    JSON.stringify(medication)
+  );
+}
+
+export async function writeDose(
+  db: SQLite.SQLiteDatabase,
+  dose: DoseHistory,
+  personId: string
+): Promise<void> {
+  await db.runAsync(
+    `INSERT OR REPLACE INTO doses (id, person_id, medication_id, timestamp, scheduled_time, data)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    dose.id,
+    personId,
+    dose.medicationId,
+    dose.timestamp,
+    dose.scheduledTime ?? null,
+    JSON.stringify(dose)
+  );
+}
+
+export async function writeRefillEntry(
+  db: SQLite.SQLiteDatabase,
+  entry: RefillEntry,
+  personId: string
+): Promise<void> {
+  await db.runAsync(
+    "INSERT OR REPLACE INTO refills (id, person_id, medication_id, date, data) VALUES (?, ?, ?, ?, ?)",
+    entry.id,
+    personId,
+    entry.medicationId,
+    entry.date,
+    JSON.stringify(entry)
+  );
+}
+
+export async function writeVital(
+  db: SQLite.SQLiteDatabase,
+  personId: string,
+  type: string,
+  date: string,
+  value: number
+): Promise<void> {
+  await db.runAsync(
+    "INSERT OR REPLACE INTO vitals (person_id, type, date, value) VALUES (?, ?, ?, ?)",
+    personId,
+    type,
+    date,
+    value
+  );
+}
+
+export async function writeTrashEntry(
+  db: SQLite.SQLiteDatabase,
+  entry: TrashEntry
+): Promise<void> {
+  await db.runAsync(
+    "INSERT OR REPLACE INTO trash (id, person_id, deleted_at, data) VALUES (?, ?, ?, ?)",
+    entry.id,
+    entry.personId,
+    entry.deletedAt,
+    JSON.stringify(entry)
+  );
+}
+
+// Records are stored as JSON in their `data` column
+export function parseRows<T>(rows: { data: string }[]): T[] {
+  return rows.map((row) => JSON.parse(row.data));
+}
+
+/**
+ * Deletes the medications, doses, refills, vitals and trash of a person who is being removed
+ */
+export async function deletePersonRows(
+  db: SQLite.SQLiteDatabase,
+  personId: string
+): Promise<void> {
+  await db.runAsync("DELETE FROM medications WHERE person_id = ?", personId);
+  await db.runAsync("DELETE FROM doses WHERE person_id = ?", personId);
+  await db.runAsync("DELETE FROM refills WHERE person_id = ?", personId);
+  await db.runAsync("DELETE FROM vitals WHERE person_id = ?", personId);
+  await db.runAsync("DELETE FROM trash WHERE person_id = ?", personId);
+}
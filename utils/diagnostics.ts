@@ -0,0 +1,281 @@
+import * as Notifications from "expo-notifications";
+import { Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  getGrantedPermissions,
+  getSdkStatus,
+  initialize,
+  readRecord,
+  SdkAvailabilityStatus,
+} from "react-native-health-connect";
+import { Medication, getMedications, moveDosesToTrash, repairSupply } from "./storage";
+import { getDatabase } from "./database";
+import { getPeople } from "./people";
+
+// Health Connect record ids the vitals screens keep so they can delete their last entry
+const HEALTH_RECORD_ID_KEYS = [
+  { key: "water_record_ids", recordType: "Hydration", label: "water" },
+  { key: "hr_record_ids", recordType: "HeartRate", label: "heart rate" },
+  { key: "temp_record_ids", recordType: "BodyTemperature", label: "temperature" },
+] as const;
+
+type HealthRecordType = (typeof HEALTH_RECORD_ID_KEYS)[number]["recordType"];
+
+export type IntegrityIssue =
+  // Dose entries left behind by a medication that no longer exists
+  | { type: "orphanedDoses"; medicationId: string; personId: string; doseIds: string[] }
+  // Reminders still scheduled for a medication that no longer exists
+  | { type: "orphanedNotifications"; medicationId: string; notificationIds: string[] }
+  | {
+      type: "supplyOutOfRange";
+      medicationId: string;
+      name: string;
+      currentSupply: number;
+      totalSupply: number;
+    }
+  // Saved ids of Health Connect records that were deleted outside the app
+  | {
+      type: "staleHealthRecordIds";
+      key: string;
+      recordType: HealthRecordType;
+      label: string;
+      recordIds: string[];
+    };
+
+export interface IntegrityReport {
+  checkedAt: string;
+  issues: IntegrityIssue[];
+  skipped: string[]; // Checks that couldn't run, and why
+}
+
+export function describeIssue(issue: IntegrityIssue): string {
+  switch (issue.type) {
+    case "orphanedDoses":
+      return `${issue.doseIds.length} dose log${
+        issue.doseIds.length === 1 ? "" : "s"
+      } for a medication that was deleted`;
+    case "orphanedNotifications":
+      return `${issue.notificationIds.length} reminder${
+        issue.notificationIds.length === 1 ? "" : "s"
+      } scheduled for a medication that was deleted`;
+    case "supplyOutOfRange":
+      return issue.currentSupply < 0
+        ? `${issue.name} has a negative supply (${issue.currentSupply})`
+        : `${issue.name} has more in stock (${issue.currentSupply}) than its total supply (${issue.totalSupply})`;
+    case "staleHealthRecordIds":
+      return `${issue.recordIds.length} saved ${issue.label} record${
+        issue.recordIds.length === 1 ? " is" : "s are"
+      } no longer in Health Connect`;
+  }
+}
+
+export function describeRepair(issue: IntegrityIssue): string {
+  switch (issue.type) {
+    case "orphanedDoses":
+      return "Move them to the trash";
+    case "orphanedNotifications":
+      return "Cancel them";
+    case "supplyOutOfRange":
+      return issue.currentSupply < 0 ? "Set the supply to 0" : "Raise the total supply";
+    case "staleHealthRecordIds":
+      return "Forget them";
+  }
+}
+
+async function findOrphanedDoses(): Promise<IntegrityIssue[]> {
+  const db = await getDatabase();
+  const rows = await db.getAllAsync<{ id: string; person_id: string; medication_id: string }>(
+    `SELECT doses.id, doses.person_id, doses.medication_id FROM doses
+     LEFT JOIN medications ON medications.id = doses.medication_id
+     WHERE medications.id IS NULL`
+  );
+
+  const byMedication = new Map<string, IntegrityIssue & { type: "orphanedDoses" }>();
+  for (const row of rows) {
+    const key = `${row.person_id}:${row.medication_id}`;
+    const issue = byMedication.get(key) ?? {
+      type: "orphanedDoses",
+      medicationId: row.medication_id,
+      personId: row.person_id,
+      doseIds: [],
+    };
+    issue.doseIds.push(row.id);
+    byMedication.set(key, issue);
+  }
+  return Array.from(byMedication.values());
+}
+
+async function findOrphanedNotifications(
+  medications: Medication[]
+): Promise<IntegrityIssue[]> {
+  const medicationIds = new Set(medications.map((medication) => medication.id));
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+
+  const byMedication = new Map<string, string[]>();
+  for (const notification of scheduled) {
+    const data = notification.content.data as { medicationId?: string } | null;
+    if (!data?.medicationId || medicationIds.has(data.medicationId)) continue;
+    byMedication.set(data.medicationId, [
+      ...(byMedication.get(data.medicationId) ?? []),
+      notification.identifier,
+    ]);
+  }
+  return Array.from(byMedication.entries()).map(([medicationId, notificationIds]) => ({
+    type: "orphanedNotifications",
+    medicationId,
+    notificationIds,
+  }));
+}
+
+function findSupplyOutOfRange(medications: Medication[]): IntegrityIssue[] {
+  return medications
+    .filter(
+      (medication) =>
+        medication.currentSupply < 0 || medication.currentSupply > medication.totalSupply
+    )
+    .map((medication) => ({
+      type: "supplyOutOfRange",
+      medicationId: medication.id,
+      name: medication.name,
+      currentSupply: medication.currentSupply,
+      totalSupply: medication.totalSupply,
+    }));
+}
+
+// Health Connect rejects the lookup of a deleted record as an invalid argument.
+// Other failures (permissions, the service being busy, I/O) say nothing about the record.
+function isRecordNotFound(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    error.code === "ARGUMENT_VALIDATION_ERROR"
+  );
+}
+
+/**
+ * Looks up every saved record id in Health Connect. Only ids it no longer
+ * has are stale; lookups that fail otherwise are listed in `skipped`, as is
+ * the reason when Health Connect can't be asked at all.
+ */
+async function findStaleHealthRecordIds(): Promise<{
+  issues: IntegrityIssue[];
+  skipped: string[];
+}> {
+  if (Platform.OS !== "android") {
+    return { issues: [], skipped: ["Health Connect is only available on Android"] };
+  }
+  if ((await getSdkStatus()) !== SdkAvailabilityStatus.SDK_AVAILABLE || !(await initialize())) {
+    return { issues: [], skipped: ["Health Connect isn't available on this device"] };
+  }
+  const granted = await getGrantedPermissions();
+
+  const issues: IntegrityIssue[] = [];
+  const skipped: string[] = [];
+  for (const { key, recordType, label } of HEALTH_RECORD_ID_KEYS) {
+    const stored = await AsyncStorage.getItem(key);
+    const recordIds: string[] = stored ? JSON.parse(stored) : [];
+    if (recordIds.length === 0) continue;
+
+    // Without read access every lookup fails, which says nothing about the records
+    const canRead = granted.some(
+      (permission) => permission.recordType === recordType && permission.accessType === "read"
+    );
+    if (!canRead) continue;
+
+    const stale: string[] = [];
+    let unchecked = 0;
+    for (const recordId of recordIds) {
+      try {
+        await readRecord(recordType, recordId);
+      } catch (error) {
+        if (isRecordNotFound(error)) {
+          stale.push(recordId);
+        } else {
+          console.error(`Error looking up ${label} record:`, error);
+          unchecked++;
+        }
+      }
+    }
+    if (stale.length > 0) {
+      issues.push({ type: "staleHealthRecordIds", key, recordType, label, recordIds: stale });
+    }
+    if (unchecked > 0) {
+      skipped.push(
+        `${unchecked} saved ${label} record${unchecked === 1 ? "" : "s"} couldn't be checked`
+      );
+    }
+  }
+  return { issues, skipped };
+}
+
+/**
+ * Scans medications, dose history, scheduled notifications and saved Health
+ * Connect record ids, for everyone on this phone, and reports what's
+ * inconsistent. Nothing is changed; see repairIssues.
+ */
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  const medications = (
+    await Promise.all((await getPeople()).map((person) => getMedications(person.id)))
+  ).flat();
+
+  const issues: IntegrityIssue[] = [
+    ...(await findOrphanedDoses()),
+    ...(await findOrphanedNotifications(medications)),
+    ...findSupplyOutOfRange(medications),
+  ];
+  const skipped: string[] = [];
+
+  try {
+    const health = await findStaleHealthRecordIds();
+    issues.push(...health.issues);
+    skipped.push(...health.skipped);
+  } catch (error) {
+    console.error("Error checking Health Connect records:", error);
+    skipped.push("Health Connect records couldn't be checked");
+  }
+
+  return { checkedAt: new Date().toISOString(), issues, skipped };
+}
+
+async function repairIssue(issue: IntegrityIssue): Promise<void> {
+  switch (issue.type) {
+    case "orphanedDoses":
+      await moveDosesToTrash(issue.doseIds, issue.personId, "Doses of a deleted medication");
+      break;
+    case "orphanedNotifications":
+      for (const identifier of issue.notificationIds) {
+        await Notifications.cancelScheduledNotificationAsync(identifier);
+      }
+      break;
+    case "supplyOutOfRange":
+      await repairSupply(issue.medicationId);
+      break;
+    case "staleHealthRecordIds": {
+      const stored = await AsyncStorage.getItem(issue.key);
+      const recordIds: string[] = stored ? JSON.parse(stored) : [];
+      await AsyncStorage.setItem(
+        issue.key,
+        JSON.stringify(recordIds.filter((recordId) => !issue.recordIds.includes(recordId)))
+      );
+      break;
+    }
+  }
+}
+
+/**
+ * Fixes the issues from a report. Each is repaired on its own, so one failure
+ * doesn't stop the rest; returns how many were repaired.
+ */
+export async function repairIssues(issues: IntegrityIssue[]): Promise<number> {
+  let repaired = 0;
+  for (const issue of issues) {
+    try {
+      await repairIssue(issue);
+      repaired++;
+    } catch (error) {
+      console.error(`Error repairing ${issue.type}:`, error);
+    }
+  }
+  return repaired;
+}
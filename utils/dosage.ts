@@ -0,0 +1,129 @@
+import {
+  DosageForm,
+  DosageUnit,
+  FoodTiming,
+  Medication,
+  StructuredDosage,
+} from "./storage";
+import { getDosageForDate } from "./schedule";
+
+export const DOSAGE_FORMS: { form: DosageForm; label: string; unit: DosageUnit }[] = [
+  { form: "tablet", label: "Tablet", unit: "tablet" },
+  { form: "capsule", label: "Capsule", unit: "capsule" },
+  { form: "liquid", label: "Syrup / liquid", unit: "ml" },
+  { form: "inhaler", label: "Inhaler", unit: "puff" },
+  { form: "injection", label: "Injection", unit: "unit" },
+  { form: "drops", label: "Drops", unit: "drop" },
+  { form: "patch", label: "Patch", unit: "patch" },
+];
+
+export const FOOD_TIMINGS: { value: FoodTiming; label: string }[] = [
+  { value: "beforeFood", label: "Before food" },
+  { value: "withFood", label: "With food" },
+  { value: "afterFood", label: "After food" },
+  { value: "emptyStomach", label: "Empty stomach" },
+];
+
+export function formatFoodTiming(timing: FoodTiming): string {
+  return FOOD_TIMINGS.find((option) => option.value === timing)?.label ?? "";
+}
+
+const UNIT_LABELS: Record<DosageUnit, { one: string; many: string }> = {
+  tablet: { one: "tablet", many: "tablets" },
+  capsule: { one: "capsule", many: "capsules" },
+  ml: { one: "ml", many: "ml" },
+  puff: { one: "puff", many: "puffs" },
+  unit: { one: "unit", many: "units" },
+  drop: { one: "drop", many: "drops" },
+  patch: { one: "patch", many: "patches" },
+};
+
+const UNIT_PATTERNS: { unit: DosageUnit; pattern: string }[] = [
+  { unit: "tablet", pattern: "tab(?:let)?s?" },
+  { unit: "capsule", pattern: "cap(?:sule)?s?" },
+  { unit: "ml", pattern: "ml" },
+  { unit: "puff", pattern: "puffs?" },
+  { unit: "unit", pattern: "units?|iu" },
+  { unit: "drop", pattern: "drops?" },
+  { unit: "patch", pattern: "patch(?:es)?" },
+];
+
+// Strengths in the dosage text of medications saved before doses were structured
+const LEGACY_STRENGTH_PATTERN = /\d+(?:\.\d+)?\s*(?:mg|mcg|g|iu)\b/gi;
+
+export function getDefaultUnit(form: DosageForm): DosageUnit {
+  return DOSAGE_FORMS.find((option) => option.form === form)?.unit ?? "unit";
+}
+
+export function formatUnit(unit: DosageUnit, amount: number = 2): string {
+  return amount === 1 ? UNIT_LABELS[unit].one : UNIT_LABELS[unit].many;
+}
+
+/**
+ * "2 tablets", "5 ml", "1 patch"
+ */
+export function formatQuantity(amount: number, unit: DosageUnit): string {
+  return `${Number(amount.toFixed(2))} ${formatUnit(unit, amount)}`;
+}
+
+/**
+ * Picks a countable amount out of free text such as "2 tablets" or "5 ml syrup".
+ * Strengths like "500mg" are not a quantity and give null.
+ */
+export function parseDoseQuantity(
+  text: string
+): { amount: number; unit: DosageUnit } | null {
+  const found = findDoseQuantity(text);
+  return found ? { amount: found.amount, unit: found.unit } : null;
+}
+
+/**
+ * Like parseDoseQuantity, also giving the matched text, e.g. "2 tabs"
+ */
+export function findDoseQuantity(
+  text: string
+): { amount: number; unit: DosageUnit; match: string } | null {
+  for (const { unit, pattern } of UNIT_PATTERNS) {
+    const match = text.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*(?:${pattern})\\b`, "i"));
+    if (match) {
+      return { amount: parseFloat(match[1]), unit, match: match[0] };
+    }
+  }
+  return null;
+}
+
+/**
+ * The medication's dose as amount, unit and form. Medications saved before
+ * doses were structured are read from their dosage text, else one tablet per dose.
+ */
+export function getStructuredDosage(medication: Medication): StructuredDosage {
+  if (medication.dose) return medication.dose;
+
+  // The old dosage text is usually the strength; "60000 IU" isn't 60000 units a dose
+  const parsed = parseDoseQuantity(medication.dosage.replace(LEGACY_STRENGTH_PATTERN, " "));
+  if (!parsed) return { amount: 1, unit: getDefaultUnit("tablet"), form: "tablet" };
+
+  const form = DOSAGE_FORMS.find((option) => option.unit === parsed.unit)?.form ?? "tablet";
+  return { ...parsed, form };
+}
+
+export function getSupplyUnit(medication: Medication): DosageUnit {
+  return getStructuredDosage(medication).unit;
+}
+
+/**
+ * How much supply one dose on the given day uses. Tapering steps written with
+ * a quantity in the same unit (e.g. "2 tablets") override the usual amount.
+ */
+export function getDoseAmountForDate(medication: Medication, date: Date): number {
+  const dose = getStructuredDosage(medication);
+  const stepQuantity = parseDoseQuantity(getDosageForDate(medication, date));
+  if (stepQuantity && stepQuantity.unit === dose.unit) {
+    return stepQuantity.amount;
+  }
+  return dose.amount;
+}
+
+export function formatSupply(medication: Medication, amount: number): string {
+  return formatQuantity(amount, getSupplyUnit(medication));
+}
@@ -0,0 +1,293 @@
+import { DosageUnit, FoodTiming, MedicationSchedule } from "./storage";
+import { findDoseQuantity } from "./dosage";
+
+// Dose times for morning-afternoon-night slots, as in "1-0-1"
+const SLOT_TIMES: Record<number, string[]> = {
+  3: ["09:00", "13:00", "21:00"],
+  4: ["09:00", "13:00", "17:00", "21:00"],
+};
+
+// Spread through the day like the add medication screen's defaults
+const TIMES_PER_DAY: Record<number, string[]> = {
+  1: ["09:00"],
+  2: ["09:00", "21:00"],
+  3: ["09:00", "15:00", "21:00"],
+  4: ["09:00", "13:00", "17:00", "21:00"],
+};
+
+const BEDTIME = "22:00";
+
+// Latin shorthand and its English equivalents, as doses per day
+const FREQUENCIES: { pattern: RegExp; count: number }[] = [
+  { pattern: /\b(?:od|qd|once (?:daily|a day|per day)|once)\b/, count: 1 },
+  { pattern: /\b(?:bd|bid|twice (?:daily|a day|per day)|twice)\b/, count: 2 },
+  { pattern: /\b(?:tds|tid|thrice (?:daily|a day)|thrice|three times(?: (?:daily|a day|per day))?)\b/, count: 3 },
+  { pattern: /\b(?:qid|qds|four times(?: (?:daily|a day|per day))?)\b/, count: 4 },
+];
+
+// A meal named with before/after also says when in the day
+const MEAL_TIMES: Record<string, string> = {
+  breakfast: "09:00",
+  lunch: "13:00",
+  dinner: "21:00",
+  supper: "21:00",
+};
+
+const TIMES_OF_DAY: { pattern: RegExp; time: string }[] = [
+  { pattern: /\b(?:morning|mane)\b/, time: "09:00" },
+  { pattern: /\b(?:afternoon|noon)\b/, time: "13:00" },
+  { pattern: /\bevening\b/, time: "17:00" },
+  { pattern: /\bnight\b/, time: "21:00" },
+];
+
+// AC (ante cibum) is before food, PC (post cibum) after
+const FOOD_RELATIONS: { pattern: RegExp; timing: FoodTiming }[] = [
+  { pattern: /\b(?:(?:on )?(?:an )?empty stomach)\b/, timing: "emptyStomach" },
+  { pattern: /\b(?:ac|before (?:food|meals?))\b/, timing: "beforeFood" },
+  { pattern: /\b(?:pc|after (?:food|meals?))\b/, timing: "afterFood" },
+  { pattern: /\bwith (?:food|meals?|milk)\b/, timing: "withFood" },
+];
+
+const DURATION_UNITS: Record<string, number> = { d: 1, w: 7, m: 30 };
+
+// "5/7" is five days, "2/52" two weeks and "1/12" one month
+const DURATION_FRACTIONS: Record<string, number> = { "7": 1, "52": 7, "12": 30 };
+
+// Words that carry no instruction of their own
+const FILLER_WORDS = new Set([
+  "a", "an", "the", "and", "then", "to", "be", "take", "taken", "give", "of", "at",
+  "in", "on", "daily", "day", "everyday", "every", "per", "orally", "oral", "po",
+  "tab", "tabs", "tablet", "tablets", "cap", "caps", "capsule", "capsules", "dose",
+  "doses", "continue", "regularly", "only",
+]);
+
+export interface DosagePattern {
+  times: string[]; // "HH:mm", empty when the pattern doesn't say
+  amount: number | null; // Per dose, when the pattern says
+  unit?: DosageUnit; // When the pattern names one, e.g. "2 tabs"
+  asNeeded: boolean;
+  durationDays: number | null;
+  foodTiming?: FoodTiming;
+  schedule?: MedicationSchedule; // Only for patterns that aren't every day
+  unrecognized: string[]; // Parts of the text that weren't understood
+  warnings: string[]; // Parts that were understood but conflict or need checking
+}
+
+const VULGAR_FRACTIONS: Record<string, number> = { "½": 0.5, "¼": 0.25, "¾": 0.75 };
+
+// Lower case, with "b.d." → "bd", "1½" → "1.5" and dashes unified
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d*)([½¼¾])/g, (_, whole: string, fraction: string) =>
+      String(Number(whole || 0) + VULGAR_FRACTIONS[fraction])
+    )
+    .replace(/\b1\/2\b/g, "0.5")
+    .replace(/\b1\/4\b/g, "0.25")
+    .replace(/\b3\/4\b/g, "0.75")
+    .replace(/[–—−]/g, "-")
+    .replace(/×/g, " x ")
+    .replace(/\b[a-z](?:\.[a-z])+\b\.?/g, (abbreviation) => abbreviation.replace(/\./g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Reads a prescription's dosage instructions as written in India, e.g.
+ * "1-0-1 PC x 5 days", "½ tab BD AC", "TDS x 5/7", "HS" or "SOS". The result
+ * depends only on the text. Nothing is guessed: parts that aren't understood
+ * are listed in `unrecognized`, and conflicting parts in `warnings`.
+ */
+export function parseDosagePattern(text: string | undefined): DosagePattern {
+  // A prescription read from a photo may have no pattern for a line
+  const written = text ?? "";
+  let rest = ` ${normalize(written)} `;
+  const warnings: string[] = [];
+
+  // Takes every match of `pattern` out of what's left, so it's read only once
+  const take = (pattern: RegExp): RegExpMatchArray[] => {
+    const global = new RegExp(pattern.source, "g");
+    const matches = Array.from(rest.matchAll(global));
+    rest = rest.replace(global, " | ");
+    return matches;
+  };
+
+  const slotMatches = take(/\b\d+(?:\.\d+)?(?:\s*-\s*\d+(?:\.\d+)?){2,3}\b/);
+  // A course that changes partway, e.g. "1-1-1 x 5d then 1-0-1 x 5d", isn't one
+  // schedule; keeping only the first step would drop the rest, so it's left to the user
+  if (slotMatches.length > 1) {
+    return {
+      times: [],
+      amount: null,
+      asNeeded: false,
+      durationDays: null,
+      unrecognized: [written.trim()],
+      warnings: ["Dose pattern changes during the course: enter each step by hand"],
+    };
+  }
+  const slots: number[] | null =
+    slotMatches.length > 0 ? slotMatches[0][0].split("-").map((slot) => parseFloat(slot)) : null;
+
+  const durations = [
+    ...take(/(?:\bx|\bfor)?\s*\b(\d+)\s*\/\s*(7|52|12)\b/).map((match) => ({
+      days: parseInt(match[1], 10) * DURATION_FRACTIONS[match[2]],
+      written: match[0].trim(),
+    })),
+    ...take(/(?:\bx|\bfor)?\s*\b(\d+)\s*(d|days?|w|wks?|weeks?|months?)\b/).map((match) => ({
+      days: parseInt(match[1], 10) * DURATION_UNITS[match[2][0]],
+      written: match[0].trim(),
+    })),
+  ];
+  const durationDays = durations.length > 0 ? durations[0].days : null;
+  for (const { days, written } of durations.slice(1)) {
+    if (days !== durationDays) {
+      warnings.push(`Extra duration "${written}" ignored`);
+    }
+  }
+
+  let schedule: MedicationSchedule | undefined;
+  for (const match of take(/\b(?:q|every)\s*(\d+)\s*(?:h|hrs?|hours?)(?:ly)?\b/)) {
+    schedule = { type: "interval", intervalHours: parseInt(match[1], 10) };
+  }
+  if (take(/\b(?:alternate|alt) days?\b|\bqod\b|\bevery other day\b/).length > 0) {
+    schedule = { type: "cyclic", daysOn: 1, daysOff: 1 };
+  }
+  if (take(/\b(?:once (?:a|per) week|weekly)\b/).length > 0) {
+    warnings.push("Taken weekly: choose the day when adding");
+  }
+
+  let asNeeded =
+    take(/\b(?:sos|prn|as needed|when needed|if needed|as required|when required)\b/).length > 0;
+  if (take(/\bstat\b/).length > 0) {
+    warnings.push("STAT means one dose straight away, not a schedule");
+  }
+  const bedtime = take(/\b(?:hs|at bedtime|bedtime|before (?:bed|sleep))\b/).length > 0;
+
+  // Food relations in the order written, each with any time of day it names
+  const dayTimes = new Set<string>();
+  const foodTimings: { timing: FoodTiming; written: string }[] = [];
+  for (const match of take(/\b(before|after|with) (breakfast|lunch|dinner|supper)\b/)) {
+    const timing: FoodTiming =
+      match[1] === "before" ? "beforeFood" : match[1] === "after" ? "afterFood" : "withFood";
+    foodTimings.push({ timing, written: match[0] });
+    dayTimes.add(MEAL_TIMES[match[2]]);
+  }
+  for (const { pattern, timing } of FOOD_RELATIONS) {
+    for (const match of take(pattern)) {
+      foodTimings.push({ timing, written: match[0] });
+    }
+  }
+  const foodTiming = foodTimings[0]?.timing;
+  for (const { timing, written } of foodTimings.slice(1)) {
+    if (timing !== foodTiming) {
+      warnings.push(`Conflicting food instruction "${written}" ignored`);
+    }
+  }
+
+  let count: number | null = null;
+  for (const frequency of FREQUENCIES) {
+    for (const match of take(frequency.pattern)) {
+      if (count === null) {
+        count = frequency.count;
+      } else if (count !== frequency.count) {
+        warnings.push(`Conflicting frequency "${match[0]}" ignored`);
+      }
+    }
+  }
+  for (const match of take(/\b(\d+) times (?:a day|per day|daily)\b/)) {
+    const times = parseInt(match[1], 10);
+    if (TIMES_PER_DAY[times]) {
+      count ??= times;
+    } else {
+      warnings.push(`${times} doses a day: enter the times by hand`);
+    }
+  }
+  for (const { pattern, time } of TIMES_OF_DAY) {
+    if (take(pattern).length > 0) dayTimes.add(time);
+  }
+
+  // Strengths belong to the medicine, not the pattern; taken out first so
+  // "1000 IU" isn't read as 1000 units per dose
+  take(/\b\d+(?:\.\d+)?\s*(?:mg|mcg|g|iu)\b/);
+
+  let amount: number | null = null;
+  let unit: DosageUnit | undefined;
+  const quantity = findDoseQuantity(rest);
+  if (quantity) {
+    amount = quantity.amount;
+    unit = quantity.unit;
+    rest = rest.replace(quantity.match, " | ");
+  }
+
+  // Times: explicit slots first, then a frequency, then named times of day
+  let times: string[];
+  if (slots) {
+    const slotAmounts: number[] = slots;
+    times = SLOT_TIMES[slotAmounts.length].filter((_, index) => slotAmounts[index] > 0);
+    const amounts = Array.from(new Set(slotAmounts.filter((slot) => slot > 0)));
+    if (amounts.length === 1) {
+      if (amount !== null && amount !== amounts[0]) {
+        warnings.push(`Pattern says ${amounts[0]} per dose but the text says ${amount}`);
+      }
+      amount = amounts[0];
+    } else if (amounts.length > 1) {
+      warnings.push(
+        `Different amounts at different times (${slotAmounts.join("-")}): check the dose`
+      );
+      amount = null;
+    }
+    if (bedtime && slotAmounts[slotAmounts.length - 1] > 0) {
+      times[times.length - 1] = BEDTIME;
+    }
+    if (count !== null && count !== times.length) {
+      warnings.push(`Pattern gives ${times.length} doses a day but the text says ${count}`);
+    }
+  } else if (schedule?.type === "interval") {
+    times = ["09:00"];
+  } else if (count !== null) {
+    if (dayTimes.size === count) {
+      times = Array.from(dayTimes);
+    } else {
+      if (dayTimes.size > 0) {
+        warnings.push(`${count} doses a day but ${dayTimes.size} times of day named`);
+      }
+      times = [...TIMES_PER_DAY[count]];
+    }
+    if (bedtime) times[times.length - 1] = BEDTIME;
+  } else {
+    times = Array.from(dayTimes);
+    if (bedtime) times.push(BEDTIME);
+  }
+  times = Array.from(new Set(times)).sort();
+
+  if (asNeeded && times.length > 0) {
+    warnings.push("Has regular times and also says as needed: check which applies");
+    asNeeded = false;
+  }
+
+  return {
+    times,
+    amount,
+    unit,
+    asNeeded,
+    durationDays,
+    foodTiming,
+    schedule,
+    unrecognized: findUnrecognized(rest),
+    warnings,
+  };
+}
+
+// What's left once every understood part is taken out, in runs of words
+function findUnrecognized(rest: string): string[] {
+  return rest
+    .split("|")
+    .map((part) =>
+      part
+        .replace(/[,;:()+\-./]/g, " ")
+        .split(" ")
+        .filter((word) => word && !FILLER_WORDS.has(word))
+        .join(" ")
+    )
+    .filter((part) => part.length > 0);
+}
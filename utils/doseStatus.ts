@@ -0,0 +1,230 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  DoseHistory,
+  DoseStatus,
+  getDoseStatus,
+  getDoseHistory,
+  getMedications,
+} from "./storage";
+import { parseRows, writeDose, writeTransaction } from "./database";
+import {
+  getDoseTimesForDate,
+  getRegimenForDate,
+  parseTime,
+  startOfDay,
+} from "./schedule";
+import { getDeviceTimezone } from "./timezone";
+import { getPeople, getPersonKey } from "./people";
+
+const GRACE_MINUTES_KEY = "missed_dose_grace_minutes";
+const LAST_MISSED_CHECK_KEY = "missed_dose_last_check";
+const MAX_LOOKBACK_DAYS = 7;
+
+export const DEFAULT_GRACE_MINUTES = 60;
+export const GRACE_MINUTE_OPTIONS = [30, 60, 120, 240];
+
+export const SKIP_REASONS = [
+  "Felt unwell",
+  "Side effects",
+  "Ran out",
+  "Doctor advised",
+  "Other",
+];
+
+export const DOSE_STATUS_DISPLAY: Record<
+  DoseStatus,
+  {
+    label: string;
+    color: string;
+    backgroundColor: string;
+    icon: keyof typeof Ionicons.glyphMap;
+  }
+> = {
+  taken: {
+    label: "Taken",
+    color: "#4CAF50",
+    backgroundColor: "#E8F5E9",
+    icon: "checkmark-circle",
+  },
+  skipped: {
+    label: "Skipped",
+    color: "#757575",
+    backgroundColor: "#F5F5F5",
+    icon: "play-skip-forward-circle",
+  },
+  snoozed: {
+    label: "Snoozed",
+    color: "#FF9800",
+    backgroundColor: "#FFF3E0",
+    icon: "alarm",
+  },
+  missed: {
+    label: "Missed",
+    color: "#F44336",
+    backgroundColor: "#FFEBEE",
+    icon: "close-circle",
+  },
+};
+
+/**
+ * Latest entry logged for a scheduled slot (medication, day and time)
+ */
+export function findSlotDose(
+  doses: DoseHistory[],
+  medicationId: string,
+  date: Date,
+  time: string
+): DoseHistory | undefined {
+  const dateStr = date.toDateString();
+  const matches = doses.filter(
+    (dose) =>
+      dose.medicationId === medicationId &&
+      new Date(dose.timestamp).toDateString() === dateStr &&
+      (dose.scheduledTime === time ||
+        new Date(dose.timestamp).toTimeString().slice(0, 5) === time)
+  );
+  return matches[matches.length - 1];
+}
+
+export function getSlotStatus(
+  doses: DoseHistory[],
+  medicationId: string,
+  date: Date,
+  time: string
+): DoseStatus | undefined {
+  const dose = findSlotDose(doses, medicationId, date, time);
+  return dose ? getDoseStatus(dose) : undefined;
+}
+
+/**
+ * Taken and skipped slots need no further action; snoozed and missed
+ * ones can still be logged late
+ */
+export function isSlotResolved(status?: DoseStatus): boolean {
+  return status === "taken" || status === "skipped";
+}
+
+export async function getMissedDoseGraceMinutes(): Promise<number> {
+  try {
+    const value = await AsyncStorage.getItem(GRACE_MINUTES_KEY);
+    return value ? parseInt(value) : DEFAULT_GRACE_MINUTES;
+  } catch (error) {
+    console.error("Error getting missed dose grace window:", error);
+    return DEFAULT_GRACE_MINUTES;
+  }
+}
+
+export async function setMissedDoseGraceMinutes(minutes: number): Promise<void> {
+  try {
+    await AsyncStorage.setItem(GRACE_MINUTES_KEY, minutes.toString());
+  } catch (error) {
+    console.error("Error setting missed dose grace window:", error);
+  }
+}
+
+/**
+ * Logs a "missed" entry for every scheduled slot that is older than the
+ * grace window and has nothing recorded. Slots snoozed by the user get the
+ * grace window again from the time of the snooze.
+ * Covers every person on the phone and returns the number of slots marked.
+ */
+export async function markMissedDoses(now: Date = new Date()): Promise<number> {
+  let marked = 0;
+  for (const person of await getPeople()) {
+    marked += await markMissedDosesFor(person.id, now);
+  }
+  return marked;
+}
+
+// Nothing logged, or snoozed and the grace window has run out again since
+function isSlotUnsettled(latest: DoseHistory | undefined, graceMs: number, now: Date): boolean {
+  if (!latest) return true;
+  return (
+    getDoseStatus(latest) === "snoozed" &&
+    new Date(latest.timestamp).getTime() + graceMs <= now.getTime()
+  );
+}
+
+async function markMissedDosesFor(personId: string, now: Date): Promise<number> {
+  try {
+    const lastCheckKey = await getPersonKey(LAST_MISSED_CHECK_KEY, personId);
+    const [medications, history, graceMinutes, lastCheck] = await Promise.all([
+      getMedications(personId),
+      getDoseHistory(personId),
+      getMissedDoseGraceMinutes(),
+      AsyncStorage.getItem(lastCheckKey),
+    ]);
+
+    const graceMs = graceMinutes * 60 * 1000;
+    const earliest = new Date(now);
+    earliest.setDate(earliest.getDate() - MAX_LOOKBACK_DAYS);
+    // Re-scan the whole day of the last check, its later slots weren't due yet
+    const from = startOfDay(
+      lastCheck && new Date(lastCheck) > earliest ? new Date(lastCheck) : earliest
+    );
+
+    const missed: DoseHistory[] = [];
+    for (const medication of medications) {
+      const addedAt = new Date(medication.startDate);
+
+      for (const day = new Date(from); day <= now; day.setDate(day.getDate() + 1)) {
+        const regimen = getRegimenForDate(medication, day);
+
+        for (const time of getDoseTimesForDate(regimen, day)) {
+          const { hours, minutes } = parseTime(time);
+          const slot = new Date(day);
+          slot.setHours(hours, minutes, 0, 0);
+
+          if (slot < addedAt || slot.getTime() + graceMs > now.getTime()) {
+            continue;
+          }
+
+          if (!isSlotUnsettled(findSlotDose(history, medication.id, day, time), graceMs, now)) {
+            continue;
+          }
+
+          missed.push({
+            id: Math.random().toString(36).substr(2, 9),
+            medicationId: medication.id,
+            timestamp: slot.toISOString(),
+            taken: false,
+            status: "missed",
+            scheduledTime: time,
+            timezone: getDeviceTimezone(),
+          });
+        }
+      }
+    }
+
+    // A dose may have been logged since the history was read (e.g. Take on a
+    // reminder, or another pass), so each slot is checked again before writing
+    let marked = 0;
+    if (missed.length > 0) {
+      await writeTransaction(async (db) => {
+        for (const dose of missed) {
+          const slotDoses = parseRows<DoseHistory>(
+            await db.getAllAsync<{ data: string }>(
+              "SELECT data FROM doses WHERE medication_id = ? ORDER BY rowid",
+              dose.medicationId
+            )
+          );
+          const day = new Date(dose.timestamp);
+          const latest = findSlotDose(slotDoses, dose.medicationId, day, dose.scheduledTime!);
+          if (!isSlotUnsettled(latest, graceMs, now)) continue;
+          await writeDose(db, dose, personId);
+          marked++;
+        }
+      });
+    }
+    await AsyncStorage.setItem(lastCheckKey, now.toISOString());
+
+    if (marked > 0) {
+      console.log(`Marked ${marked} doses as missed`);
+    }
+    return marked;
+  } catch (error) {
+    console.error("Error marking missed doses:", error);
+    return 0;
+  }
+}
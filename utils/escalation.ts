@@ -0,0 +1,304 @@
+import { Linking, Platform } from "react-native";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  EscalationChannel,
+  EscalationEntry,
+  EscalationRule,
+  EscalationStep,
+  Medication,
+  addEscalationEntries,
+  getDoseHistory,
+  getDoseStatus,
+  getEscalationLog,
+  getMedications,
+} from "./storage";
+import { findSlotDose, isSlotResolved } from "./doseStatus";
+import {
+  getDoseTimesForDate,
+  getRegimenForDate,
+  getSchedule,
+  parseTime,
+  startOfDay,
+} from "./schedule";
+import {
+  getHomeTimezone,
+  getTimezonePolicy,
+  isAwayFromHome,
+  toHomeTime,
+} from "./timezone";
+import { getPeople, getPersonKey, SELF_PERSON_ID } from "./people";
+
+// Doses due longer ago than this are no longer escalated
+const MAX_LOOKBACK_HOURS = 24;
+
+export const ESCALATION_WINDOW_OPTIONS = [15, 30, 60, 120];
+
+export const ESCALATION_CHANNELS: { channel: EscalationChannel; label: string }[] = [
+  { channel: "sms", label: "SMS" },
+  { channel: "whatsapp", label: "WhatsApp" },
+];
+
+export const DEFAULT_ESCALATION_RULE: EscalationRule = {
+  enabled: false,
+  windowMinutes: 30,
+  channel: "sms",
+};
+
+// A dose whose emergency contact is due to be messaged
+export interface PendingContactEscalation {
+  personId: string;
+  personName: string | null; // Null for the phone's owner
+  medication: Medication;
+  slot: Date;
+  scheduledTime: string;
+}
+
+export function isEscalationEnabled(medication: Medication): boolean {
+  return (
+    !!medication.escalation?.enabled &&
+    medication.reminderEnabled &&
+    getSchedule(medication).type !== "prn"
+  );
+}
+
+export function formatWindow(minutes: number): string {
+  return minutes < 60 ? `${minutes} min` : `${minutes / 60} h`;
+}
+
+export function getChannelLabel(channel: EscalationChannel): string {
+  return ESCALATION_CHANNELS.find((option) => option.channel === channel)?.label ?? channel;
+}
+
+/**
+ * When a dose reminded at `remindAt` is escalated if it still isn't logged:
+ * reminded again after one window, the emergency contact after two
+ */
+export function getEscalationTimes(
+  remindAt: Date,
+  rule: EscalationRule
+): { renotifyAt: Date; contactAt: Date } {
+  const windowMs = rule.windowMinutes * 60 * 1000;
+  return {
+    renotifyAt: new Date(remindAt.getTime() + windowMs),
+    contactAt: new Date(remindAt.getTime() + 2 * windowMs),
+  };
+}
+
+export function describeEscalationRule(rule: EscalationRule): string {
+  return `Reminds again ${formatWindow(rule.windowMinutes)} after the reminder, then offers to ${getChannelLabel(rule.channel)} your emergency contact ${formatWindow(rule.windowMinutes)} later`;
+}
+
+// One line for the history screen, e.g. "SMS to Ravi at 10:00 AM"
+export function describeEscalation(entry: EscalationEntry): string {
+  const at = new Date(entry.timestamp).toLocaleTimeString("default", {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  if (entry.step === "renotify") {
+    return `Reminded again at ${at}`;
+  }
+  const to = entry.contactName || "emergency contact";
+  const via = getChannelLabel(entry.channel ?? "sms");
+  return entry.dismissed ? `${via} to ${to} not sent (${at})` : `${via} to ${to} at ${at}`;
+}
+
+function escalationEntry(
+  medicationId: string,
+  slot: Date,
+  scheduledTime: string,
+  step: EscalationStep,
+  timestamp: Date,
+  details: Partial<EscalationEntry> = {}
+): EscalationEntry {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    medicationId,
+    slot: slot.toISOString(),
+    scheduledTime,
+    step,
+    timestamp: timestamp.toISOString(),
+    ...details,
+  };
+}
+
+/**
+ * Records the repeat reminders that went out for doses still not logged, and
+ * returns the doses whose emergency contact is now due to be messaged.
+ * Covers every person on the phone.
+ */
+export async function checkEscalations(
+  now: Date = new Date()
+): Promise<PendingContactEscalation[]> {
+  const pending: PendingContactEscalation[] = [];
+  for (const person of await getPeople()) {
+    const personName = person.id === SELF_PERSON_ID ? null : person.name;
+    pending.push(...(await checkEscalationsFor(person.id, personName, now)));
+  }
+  return pending;
+}
+
+async function checkEscalationsFor(
+  personId: string,
+  personName: string | null,
+  now: Date
+): Promise<PendingContactEscalation[]> {
+  try {
+    const medications = (await getMedications(personId)).filter(isEscalationEnabled);
+    if (medications.length === 0) return [];
+
+    const [history, log, homeTimezone] = await Promise.all([
+      getDoseHistory(personId),
+      getEscalationLog(personId),
+      getHomeTimezone(),
+    ]);
+    const awayFromHome = isAwayFromHome(homeTimezone, now);
+    const earliest = new Date(now.getTime() - MAX_LOOKBACK_HOURS * 60 * 60 * 1000);
+
+    const recorded: EscalationEntry[] = [];
+    const pending: PendingContactEscalation[] = [];
+    for (const medication of medications) {
+      const rule = medication.escalation;
+      if (!rule) continue;
+      const addedAt = new Date(medication.startDate);
+
+      for (const day = startOfDay(earliest); day <= now; day.setDate(day.getDate() + 1)) {
+        const regimen = getRegimenForDate(medication, day);
+
+        for (const time of getDoseTimesForDate(regimen, day)) {
+          const { hours, minutes } = parseTime(time);
+          const slot = new Date(day);
+          slot.setHours(hours, minutes, 0, 0);
+          if (slot < addedAt || slot < earliest) continue;
+
+          // Keep-home-time reminders went out at the home-zone moment, see scheduleMedicationReminder
+          const remindAt =
+            awayFromHome && getTimezonePolicy(medication) === "homeTimezone"
+              ? toHomeTime(slot, homeTimezone)
+              : slot;
+          const { renotifyAt, contactAt } = getEscalationTimes(remindAt, rule);
+          if (renotifyAt > now) continue;
+
+          const dose = findSlotDose(history, medication.id, day, time);
+          const loggedAt =
+            dose && isSlotResolved(getDoseStatus(dose)) ? new Date(dose.timestamp) : null;
+          const isRecorded = (step: EscalationStep) =>
+            log.some(
+              (entry) =>
+                entry.medicationId === medication.id &&
+                entry.slot === slot.toISOString() &&
+                entry.step === step
+            );
+
+          // Logging the dose cancels its follow-ups, so only a late log lets the repeat through
+          if ((!loggedAt || loggedAt >= renotifyAt) && !isRecorded("renotify")) {
+            recorded.push(escalationEntry(medication.id, slot, time, "renotify", renotifyAt));
+          }
+          if (!loggedAt && contactAt <= now && !isRecorded("contact")) {
+            pending.push({ personId, personName, medication, slot, scheduledTime: time });
+          }
+        }
+      }
+    }
+
+    await addEscalationEntries(recorded, personId);
+    return pending;
+  } catch (error) {
+    console.error("Error checking escalations:", error);
+    return [];
+  }
+}
+
+async function getEmergencyContact(
+  personId: string
+): Promise<{ name: string; phone: string } | null> {
+  const savedProfile = await AsyncStorage.getItem(await getPersonKey("userProfile", personId));
+  const contact = savedProfile ? JSON.parse(savedProfile).emergencyContact : null;
+  return contact?.phone ? contact : null;
+}
+
+export function buildEscalationMessage(
+  escalation: PendingContactEscalation,
+  contactName?: string
+): string {
+  const { medication, personName, slot } = escalation;
+  const greeting = contactName ? `Hi ${contactName}, ` : "";
+  const dueAt = slot.toLocaleTimeString("default", { hour: "2-digit", minute: "2-digit" });
+  return personName
+    ? `${greeting}${personName} hasn't logged their ${medication.name} (${medication.dosage}) dose that was due at ${dueAt}. Could you please check in on them?`
+    : `${greeting}I haven't logged my ${medication.name} (${medication.dosage}) dose that was due at ${dueAt}. Could you please check in on me?`;
+}
+
+export function getEscalationUrl(
+  channel: EscalationChannel,
+  phone: string,
+  message: string
+): string {
+  // Numbers are saved without a country code, the same as for emergency calls
+  const digits = phone.replace(/[^\d+]/g, "");
+  const number = digits.startsWith("+") ? digits : `+91${digits}`;
+  const text = encodeURIComponent(message);
+
+  if (channel === "whatsapp") {
+    return `whatsapp://send?phone=${number.slice(1)}&text=${text}`;
+  }
+  return Platform.OS === "ios" ? `sms:${number}&body=${text}` : `sms:${number}?body=${text}`;
+}
+
+/**
+ * Opens a ready-to-send SMS or WhatsApp message to the emergency contact and
+ * records the escalation. Returns false when no contact number is saved.
+ */
+export async function sendContactEscalation(
+  escalation: PendingContactEscalation
+): Promise<boolean> {
+  const contact = await getEmergencyContact(escalation.personId);
+  if (!contact) return false;
+
+  const channel = escalation.medication.escalation?.channel ?? DEFAULT_ESCALATION_RULE.channel;
+  await Linking.openURL(
+    getEscalationUrl(channel, contact.phone, buildEscalationMessage(escalation, contact.name))
+  );
+
+  await addEscalationEntries(
+    [
+      escalationEntry(
+        escalation.medication.id,
+        escalation.slot,
+        escalation.scheduledTime,
+        "contact",
+        new Date(),
+        { channel, contactName: contact.name }
+      ),
+    ],
+    escalation.personId
+  );
+  return true;
+}
+
+// Records that the message was offered but not sent, so it isn't offered again
+export async function dismissContactEscalation(
+  escalation: PendingContactEscalation
+): Promise<void> {
+  try {
+    const contact = await getEmergencyContact(escalation.personId);
+    await addEscalationEntries(
+      [
+        escalationEntry(
+          escalation.medication.id,
+          escalation.slot,
+          escalation.scheduledTime,
+          "contact",
+          new Date(),
+          {
+            channel: escalation.medication.escalation?.channel,
+            contactName: contact?.name,
+            dismissed: true,
+          }
+        ),
+      ],
+      escalation.personId
+    );
+  } catch (error) {
+    console.error("Error dismissing escalation:", error);
+  }
+}
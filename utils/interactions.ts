@@ -0,0 +1,183 @@
+import { Alert } from "react-native";
+import { Medication } from "./storage";
+import { getCourseEndDate, isCourseEnded, startOfDay } from "./schedule";
+import {
+  DRUG_CLASSES,
+  DRUG_INTERACTIONS,
+  INGREDIENT_ALIASES,
+  InteractionSeverity,
+} from "../constants/drugInteractions";
+
+export type InteractionMedication = Pick<Medication, "id" | "name">;
+
+export interface DrugInteraction {
+  medications: [InteractionMedication, InteractionMedication];
+  ingredients: [string, string];
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export const SEVERITY_ORDER: InteractionSeverity[] = ["major", "moderate", "minor"];
+
+export const SEVERITY_DISPLAY: Record<
+  InteractionSeverity,
+  { label: string; color: string; backgroundColor: string }
+> = {
+  major: { label: "Major", color: "#C62828", backgroundColor: "#FFEBEE" },
+  moderate: { label: "Moderate", color: "#EF6C00", backgroundColor: "#FFF3E0" },
+  minor: { label: "Minor", color: "#F9A825", backgroundColor: "#FFFDE7" },
+};
+
+const KNOWN_INGREDIENTS = new Set([
+  ...Object.values(DRUG_CLASSES).flat(),
+  ...Object.values(INGREDIENT_ALIASES).flat(),
+  ...DRUG_INTERACTIONS.flatMap((rule) => [rule.a, rule.b]).filter(
+    (name) => !DRUG_CLASSES[name]
+  ),
+]);
+
+function normalizeName(name: string): string {
+  return ` ${name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()} `;
+}
+
+/**
+ * Active ingredients recognised in a medication name, e.g. "Combiflam 400mg" → ibuprofen, paracetamol
+ */
+export function getActiveIngredients(name: string): string[] {
+  const text = normalizeName(name);
+  const ingredients = new Set<string>();
+
+  for (const ingredient of KNOWN_INGREDIENTS) {
+    if (text.includes(` ${ingredient} `)) ingredients.add(ingredient);
+  }
+  for (const [alias, aliasIngredients] of Object.entries(INGREDIENT_ALIASES)) {
+    if (text.includes(` ${alias} `)) {
+      aliasIngredients.forEach((ingredient) => ingredients.add(ingredient));
+    }
+  }
+  return [...ingredients];
+}
+
+/**
+ * The ingredient itself plus every drug class it belongs to
+ */
+export function getIngredientKeys(ingredient: string): string[] {
+  return [
+    ingredient,
+    ...Object.keys(DRUG_CLASSES).filter((drugClass) =>
+      DRUG_CLASSES[drugClass].includes(ingredient)
+    ),
+  ];
+}
+
+function sortBySeverity(interactions: DrugInteraction[]): DrugInteraction[] {
+  return interactions.sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  );
+}
+
+export function findInteractionsBetween(
+  first: InteractionMedication,
+  second: InteractionMedication
+): DrugInteraction[] {
+  const interactions: DrugInteraction[] = [];
+
+  for (const firstIngredient of getActiveIngredients(first.name)) {
+    const firstKeys = getIngredientKeys(firstIngredient);
+
+    for (const secondIngredient of getActiveIngredients(second.name)) {
+      if (firstIngredient === secondIngredient) {
+        interactions.push({
+          medications: [first, second],
+          ingredients: [firstIngredient, secondIngredient],
+          severity: "moderate",
+          description: `Both contain ${firstIngredient}. Taking them together can lead to an overdose.`,
+        });
+        continue;
+      }
+
+      const secondKeys = getIngredientKeys(secondIngredient);
+      const rule = DRUG_INTERACTIONS.find(
+        (rule) =>
+          (firstKeys.includes(rule.a) && secondKeys.includes(rule.b)) ||
+          (firstKeys.includes(rule.b) && secondKeys.includes(rule.a))
+      );
+      if (rule) {
+        interactions.push({
+          medications: [first, second],
+          ingredients: [firstIngredient, secondIngredient],
+          severity: rule.severity,
+          description: rule.description,
+        });
+      }
+    }
+  }
+  return interactions;
+}
+
+// Finished and archived courses no longer count towards the current regimen
+function isCurrentMedication(medication: Medication, now: Date): boolean {
+  if (isCourseEnded(medication)) return false;
+  const end = getCourseEndDate(medication);
+  return end === null || end >= startOfDay(now);
+}
+
+/**
+ * Interactions between a new or edited medication and the rest of the current regimen
+ */
+export function checkMedicationInteractions(
+  candidate: InteractionMedication,
+  medications: Medication[],
+  now: Date = new Date()
+): DrugInteraction[] {
+  return sortBySeverity(
+    medications
+      .filter((med) => med.id !== candidate.id && isCurrentMedication(med, now))
+      .flatMap((med) => findInteractionsBetween(candidate, med))
+  );
+}
+
+/**
+ * Every flagged pair in the current regimen
+ */
+export function getRegimenInteractions(
+  medications: Medication[],
+  now: Date = new Date()
+): DrugInteraction[] {
+  const current = medications.filter((med) => isCurrentMedication(med, now));
+  const interactions: DrugInteraction[] = [];
+  for (let i = 0; i < current.length; i++) {
+    for (let j = i + 1; j < current.length; j++) {
+      interactions.push(...findInteractionsBetween(current[i], current[j]));
+    }
+  }
+  return sortBySeverity(interactions);
+}
+
+/**
+ * Lists the interactions in an alert and resolves true if the user chooses to save anyway
+ */
+export function confirmInteractions(
+  interactions: DrugInteraction[]
+): Promise<boolean> {
+  if (interactions.length === 0) return Promise.resolve(true);
+
+  const message = interactions
+    .map(
+      ({ medications, severity, description }) =>
+        `${SEVERITY_DISPLAY[severity].label}: ${medications[0].name} + ${medications[1].name}\n${description}`
+    )
+    .join("\n\n");
+
+  return new Promise((resolve) => {
+    Alert.alert(
+      "Possible Interactions",
+      `${message}\n\nCheck with your doctor or pharmacist before taking these together.`,
+      [
+        { text: "Cancel", style: "cancel", onPress: () => resolve(false) },
+        { text: "Save Anyway", style: "destructive", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
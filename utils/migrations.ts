@@ -0,0 +1,231 @@
+import type { SQLiteDatabase } from "expo-sqlite";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { DoseHistory, Medication } from "./storage";
+import type { StoredWeeklyData } from "../lib/weeklyHealthdata";
+import { getPeople, getPersonKey } from "./people";
+
+// Version of the persisted records, as opposed to the database tables
+const SCHEMA_VERSION_KEY = "@schema_version";
+const BACKUP_KEY_PREFIX = "@migration_backup_v";
+const USER_PROFILE_KEY = "userProfile";
+const WEEKLY_DATA_KEY = "weekly_health_data";
+const HISTORICAL_DATA_KEY = "historical_health_data";
+
+// The profile screen owns the full shape; migrations only touch what they fill in
+export interface StoredProfile {
+  allergies?: string[];
+  medicalConditions?: string[];
+  emergencyContact?: { name?: string; phone?: string; relationship?: string };
+  doctor?: { name?: string; phone?: string; specialty?: string };
+  [field: string]: unknown;
+}
+
+/**
+ * Upgrades records saved by older versions of the app. Each step must give
+ * the same result when run on a record it has already upgraded, because an
+ * interrupted run is repeated in full on the next launch.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  medication?: (medication: Medication) => Medication;
+  dose?: (dose: DoseHistory) => DoseHistory;
+  userProfile?: (profile: StoredProfile) => StoredProfile;
+  weeklyHealthData?: (week: StoredWeeklyData) => StoredWeeklyData;
+}
+
+// Oldest first; add new steps at the end with the next version number
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Dose status and supply used",
+    dose: (dose) => {
+      const status = dose.status ?? (dose.taken ? "taken" : "missed");
+      return {
+        ...dose,
+        status,
+        amount: status === "taken" ? dose.amount ?? 1 : dose.amount,
+      };
+    },
+  },
+  {
+    version: 2,
+    description: "Medication schedule, regimen start and course status",
+    medication: (medication) => ({
+      ...medication,
+      schedule: medication.schedule ?? { type: "daily" },
+      effectiveFrom: medication.effectiveFrom ?? medication.startDate,
+      status: medication.status ?? "active",
+    }),
+  },
+  {
+    version: 3,
+    description: "Profile lists and contacts, weekly health metrics",
+    userProfile: (profile) => ({
+      ...profile,
+      allergies: profile.allergies ?? [],
+      medicalConditions: profile.medicalConditions ?? [],
+      emergencyContact: { name: "", phone: "", relationship: "", ...profile.emergencyContact },
+      doctor: { name: "", phone: "", specialty: "", ...profile.doctor },
+    }),
+    weeklyHealthData: (week) => ({
+      ...week,
+      data: {
+        steps: week.data?.steps ?? [],
+        heartRate: week.data?.heartRate ?? [],
+        water: week.data?.water ?? [],
+        temperature: week.data?.temperature ?? [],
+      },
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Everything a migration may rewrite, as it was before the run
+export interface MigrationBackup {
+  fromVersion: number;
+  toVersion: number;
+  createdAt: string;
+  medications: { personId: string; position: number; data: string }[];
+  doses: { id: string; data: string }[];
+  userProfiles: Record<string, string | null>; // By storage key
+  weeklyHealthData: string | null;
+  historicalHealthData: string | null;
+}
+
+export async function getSchemaVersion(): Promise<number> {
+  try {
+    const value = await AsyncStorage.getItem(SCHEMA_VERSION_KEY);
+    return value ? Number.parseInt(value, 10) : 0;
+  } catch (error) {
+    console.error("Error getting schema version:", error);
+    return 0;
+  }
+}
+
+export async function getMigrationBackup(fromVersion: number): Promise<MigrationBackup | null> {
+  try {
+    const data = await AsyncStorage.getItem(`${BACKUP_KEY_PREFIX}${fromVersion}`);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error("Error getting migration backup:", error);
+    return null;
+  }
+}
+
+function applySteps<T>(
+  record: T,
+  steps: Migration[],
+  pick: (migration: Migration) => ((record: T) => T) | undefined
+): T {
+  return steps.reduce((upgraded, migration) => pick(migration)?.(upgraded) ?? upgraded, record);
+}
+
+/**
+ * Upgrades records saved at `fromVersion`, e.g. ones read from a backup file
+ */
+export function getRecordUpgrader(fromVersion: number) {
+  const pending = MIGRATIONS.filter((migration) => migration.version > fromVersion);
+  return {
+    medication: (medication: Medication) =>
+      applySteps(medication, pending, (migration) => migration.medication),
+    dose: (dose: DoseHistory) => applySteps(dose, pending, (migration) => migration.dose),
+    userProfile: (profile: StoredProfile) =>
+      applySteps(profile, pending, (migration) => migration.userProfile),
+    weeklyHealthData: (week: StoredWeeklyData) =>
+      applySteps(week, pending, (migration) => migration.weeklyHealthData),
+  };
+}
+
+/**
+ * Brings persisted medications, dose history, profiles and weekly health data
+ * up to CURRENT_SCHEMA_VERSION. Called when the database is opened, before
+ * anything reads from it. On failure records are left for the next launch.
+ */
+export async function runMigrations(db: SQLiteDatabase): Promise<void> {
+  try {
+    const fromVersion = await getSchemaVersion();
+    const pending = MIGRATIONS.filter((migration) => migration.version > fromVersion);
+    if (pending.length === 0) return;
+    const upgrade = getRecordUpgrader(fromVersion);
+
+    const medications = await db.getAllAsync<{
+      id: string;
+      person_id: string;
+      position: number;
+      data: string;
+    }>("SELECT id, person_id, position, data FROM medications");
+    const doses = await db.getAllAsync<{ id: string; data: string }>(
+      "SELECT id, data FROM doses"
+    );
+    const profileKeys = await Promise.all(
+      (await getPeople()).map((person) => getPersonKey(USER_PROFILE_KEY, person.id))
+    );
+    const profiles = await AsyncStorage.multiGet(profileKeys);
+    const [weeklyHealthData, historicalHealthData] = await Promise.all([
+      AsyncStorage.getItem(WEEKLY_DATA_KEY),
+      AsyncStorage.getItem(HISTORICAL_DATA_KEY),
+    ]);
+
+    // A run repeated after an interruption keeps the snapshot from the first attempt
+    const backupKey = `${BACKUP_KEY_PREFIX}${fromVersion}`;
+    if ((await AsyncStorage.getItem(backupKey)) === null) {
+      const backup: MigrationBackup = {
+        fromVersion,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        createdAt: new Date().toISOString(),
+        medications: medications.map(({ person_id, position, data }) => ({
+          personId: person_id,
+          position,
+          data,
+        })),
+        doses,
+        userProfiles: Object.fromEntries(profiles),
+        weeklyHealthData,
+        historicalHealthData,
+      };
+      await AsyncStorage.setItem(backupKey, JSON.stringify(backup));
+    }
+
+    await db.withTransactionAsync(async () => {
+      for (const row of medications) {
+        const upgraded = JSON.stringify(upgrade.medication(JSON.parse(row.data)));
+        if (upgraded !== row.data) {
+          await db.runAsync("UPDATE medications SET data = ? WHERE id = ?", upgraded, row.id);
+        }
+      }
+      for (const row of doses) {
+        const upgraded = JSON.stringify(upgrade.dose(JSON.parse(row.data)));
+        if (upgraded !== row.data) {
+          await db.runAsync("UPDATE doses SET data = ? WHERE id = ?", upgraded, row.id);
+        }
+      }
+    });
+
+    const upgradedProfiles: [string, string][] = profiles
+      .filter((entry): entry is [string, string] => entry[1] !== null)
+      .map(([key, value]) => [key, JSON.stringify(upgrade.userProfile(JSON.parse(value)))]);
+    if (upgradedProfiles.length > 0) {
+      await AsyncStorage.multiSet(upgradedProfiles);
+    }
+
+    if (weeklyHealthData) {
+      await AsyncStorage.setItem(
+        WEEKLY_DATA_KEY,
+        JSON.stringify(upgrade.weeklyHealthData(JSON.parse(weeklyHealthData)))
+      );
+    }
+    if (historicalHealthData) {
+      const weeks: StoredWeeklyData[] = JSON.parse(historicalHealthData);
+      await AsyncStorage.setItem(
+        HISTORICAL_DATA_KEY,
+        JSON.stringify(weeks.map(upgrade.weeklyHealthData))
+      );
+    }
+
+    await AsyncStorage.setItem(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION.toString());
+  } catch (error) {
+    console.error("Error migrating stored data:", error);
+  }
+}
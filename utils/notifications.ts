@@ -1,7 +1,63 @@
 import * as Notifications from "expo-notifications";
 import { Platform } from "react-native";
-import { Medication } from "./storage";
+import {
+  Medication,
+  MedicationSchedule,
+  getDoseHistory,
+  getMedicationOwner,
+  getMedications,
+  recordDose,
+} from "./storage";
+import { getSlotStatus, isSlotResolved } from "./doseStatus";
+import { getEscalationTimes, isEscalationEnabled } from "./escalation";
+import { getPeople } from "./people";
+import { queueWrite } from "./database";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  getCourseStatus,
+  getSchedule,
+  getDosageForDate,
+  getUpcomingDoseDates,
+  formatTime,
+  parseTime,
+  WEEKDAY_LABELS,
+} from "./schedule";
+import { formatFoodTiming, formatSupply } from "./dosage";
+import {
+  getHomeTimezone,
+  getTimezonePolicy,
+  isAwayFromHome,
+  toHomeTime,
+} from "./timezone";
+import {
+  forecastRunOut,
+  getRefillLeadDays,
+  getRefillReminderDate,
+} from "./refillForecast";
+
+// How far ahead one-off reminders are planned for schedules that can't repeat
+const REMINDER_WINDOW_DAYS = 7;
+// Escalations are one-offs for every dose, so only the next couple of days are planned
+const ESCALATION_WINDOW_DAYS = 2;
+// One-offs run out unless re-planned; a plan older than this is redone on resume
+// and from the background fetch task, well before the shorter window ends
+const REPLAN_AFTER_HOURS = 12;
+const LAST_REPLANNED_KEY = "reminders_last_replanned";
+const REMINDER_PLANNING = "reminder-planning";
+// Notification types replanAllReminders schedules from scratch
+const REPLANNED_TYPES = ["medication", "dose_escalation", "refill"];
+
+export const MEDICATION_REMINDER_CATEGORY = "medication-reminder";
+export const DOSE_ACTIONS = {
+  TAKE: "take-dose",
+  SNOOZE: "snooze-dose",
+  SKIP: "skip-dose",
+} as const;
+const SNOOZE_MINUTES = 10;
+// Responses already acted on; the same one can arrive from both the response
+// listener and getLastNotificationResponseAsync
+const HANDLED_ACTIONS_KEY = "handled_notification_actions";
+const HANDLED_ACTIONS_KEPT = 50;
 
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
@@ -44,15 +100,55 @@ export async function requestNotificationPermissions(): Promise<boolean> {
   }
 }
 
+function isDailyInterval(schedule: MedicationSchedule): boolean {
+  return (
+    schedule.type === "interval" &&
+    schedule.intervalHours > 0 &&
+    24 % schedule.intervalHours === 0
+  );
+}
+
+// Wall-clock times of an interval schedule that divides the day evenly
+function getDailyIntervalTimes(medication: Medication, intervalHours: number): string[] {
+  const { hours, minutes } = parseTime(medication.times[0]);
+  return Array.from({ length: 24 / intervalHours }, (_, i) =>
+    formatTime(new Date(2000, 0, 1, (hours + i * intervalHours) % 24, minutes))
+  ).sort();
+}
+
+/**
+ * Who a medication's notifications are for. The name is only shown once
+ * more than one person is managed on the phone.
+ */
+async function getNotificationRecipient(
+  medicationId: string
+): Promise<{ personId: string; name: string | null }> {
+  const [personId, people] = await Promise.all([
+    getMedicationOwner(medicationId),
+    getPeople(),
+  ]);
+  const person = people.find((p) => p.id === personId);
+  return { personId, name: people.length > 1 && person ? person.name : null };
+}
+
+function withRecipient(title: string, name: string | null): string {
+  return name ? `${title} · ${name}` : title;
+}
+
 export async function scheduleMedicationReminder(
   medication: Medication
 ): Promise<string[]> {
+  // CRITICAL: Always cancel existing reminders for this medication first to prevent
+  // duplicates, and so a paused or switched-off one stops firing
+  await cancelMedicationReminders(medication.id);
+
   if (!medication.reminderEnabled || medication.times.length === 0) {
     return [];
   }
-
-  // CRITICAL: Always cancel existing reminders for this medication first to prevent duplicates
-  await cancelMedicationReminders(medication.id);
+  // Paused and archived courses have nothing to remind about
+  if (getCourseStatus(medication) !== "active") {
+    return [];
+  }
 
   const identifiers: string[] = [];
 
@@ -63,37 +159,107 @@ export async function scheduleMedicationReminder(
       return [];
     }
 
-    for (const time of medication.times) {
-      const [hours, minutes] = time.split(":").map(Number);
-      
-      const triggerDate = new Date();
-      triggerDate.setHours(hours, minutes, 0, 0);
+    const schedule = getSchedule(medication);
+    // As-needed medications are taken on demand and never reminded
+    if (schedule.type === "prn") return [];
+
+    const recipient = await getNotificationRecipient(medication.id);
+    const foodNote = medication.foodTiming
+      ? `, ${formatFoodTiming(medication.foodTiming).toLowerCase()}`
+      : "";
+    // Repeating reminders have no fixed date; their slot is the day they're shown
+    const reminderContent = (
+      time: string,
+      dosage: string = medication.dosage,
+      doseDate?: Date
+    ) => ({
+      title: withRecipient("💊 Medication Reminder", recipient.name),
+      body: recipient.name
+        ? `Time for ${recipient.name} to take ${medication.name} (${dosage})${foodNote}`
+        : `Time to take ${medication.name} (${dosage})${foodNote}`,
+      categoryIdentifier: MEDICATION_REMINDER_CATEGORY,
+      data: {
+        medicationId: medication.id,
+        personId: recipient.personId,
+        type: "medication",
+        time: time,
+        ...(doseDate && { date: doseDate.toDateString() }),
+        url: "/(tabs)/home"
+      },
+      sound: "medicine.wav",
+    });
+
+    // Away from home, "keep home time" doses no longer fall on the local clock
+    // times, so they get one-off reminders at the home-zone moments instead
+    const homeTimezone =
+      getTimezonePolicy(medication) === "homeTimezone" ? await getHomeTimezone() : null;
+    const keepHomeTime = homeTimezone !== null && isAwayFromHome(homeTimezone);
+
+    if (!keepHomeTime && (schedule.type === "daily" || isDailyInterval(schedule))) {
+      // Same wall-clock times every day, so repeating daily triggers are enough
+      const times = schedule.type === "interval"
+        ? getDailyIntervalTimes(medication, schedule.intervalHours)
+        : medication.times;
+
+      for (const time of times) {
+        const { hours, minutes } = parseTime(time);
+        const identifier = await Notifications.scheduleNotificationAsync({
+          content: reminderContent(time),
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DAILY,
+            hour: hours,
+            minute: minutes,
+          },
+        });
 
-      if (triggerDate < new Date()) {
-        triggerDate.setDate(triggerDate.getDate() + 1);
+        identifiers.push(identifier);
+        console.log(`Scheduled reminder for ${medication.name} at ${time} with ID: ${identifier}`);
       }
-
-      const identifier = await Notifications.scheduleNotificationAsync({
-        content: {
-          title: "💊 Medication Reminder",
-          body: `Time to take ${medication.name} (${medication.dosage})`,
-          data: { 
-            medicationId: medication.id,
-            type: "medication",
-            time: time,
-            url: "/(tabs)/home"
+    } else if (!keepHomeTime && schedule.type === "weekdays") {
+      for (const weekday of schedule.weekdays) {
+        for (const time of medication.times) {
+          const { hours, minutes } = parseTime(time);
+          const identifier = await Notifications.scheduleNotificationAsync({
+            content: reminderContent(time),
+            trigger: {
+              type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+              weekday: weekday + 1, // expo-notifications counts Sunday as 1
+              hour: hours,
+              minute: minutes,
+            },
+          });
+
+          identifiers.push(identifier);
+          console.log(`Scheduled weekly reminder for ${medication.name} on ${WEEKDAY_LABELS[weekday]} at ${time} with ID: ${identifier}`);
+        }
+      }
+    } else {
+      // Cyclic, tapering and uneven intervals don't map onto a repeating trigger,
+      // so schedule one-off reminders for the coming days. They are topped up
+      // by replanAllReminders on launch, on resume and in the background.
+      for (const doseDate of getUpcomingDoseDates(medication, REMINDER_WINDOW_DAYS)) {
+        // `time` stays the scheduled slot so the dose is logged against it
+        const time = formatTime(doseDate);
+        const remindAt = keepHomeTime ? toHomeTime(doseDate, homeTimezone) : doseDate;
+        if (remindAt <= new Date()) continue;
+
+        const identifier = await Notifications.scheduleNotificationAsync({
+          content: reminderContent(time, getDosageForDate(medication, doseDate), doseDate),
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: remindAt,
           },
-          sound: "medicine.wav",
-        },
-        trigger: {
-          type: Notifications.SchedulableTriggerInputTypes.DAILY,
-          hour: hours,
-          minute: minutes,
-        },
-      });
+        });
 
-      identifiers.push(identifier);
-      console.log(`Scheduled reminder for ${medication.name} at ${time} with ID: ${identifier}`);
+        identifiers.push(identifier);
+        console.log(`Scheduled reminder for ${medication.name} at ${remindAt.toISOString()} with ID: ${identifier}`);
+      }
+    }
+
+    if (isEscalationEnabled(medication)) {
+      identifiers.push(
+        ...(await scheduleEscalations(medication, recipient, keepHomeTime ? homeTimezone : null))
+      );
     }
 
     console.log(`Total ${identifiers.length} reminders scheduled for ${medication.name}`);
@@ -104,10 +270,260 @@ export async function scheduleMedicationReminder(
   }
 }
 
+/**
+ * Follow-ups for doses that aren't logged in time: a repeat of the reminder
+ * after one escalation window, then a prompt to message the emergency contact.
+ * Logging the dose cancels them, see cancelSlotFollowUps.
+ */
+async function scheduleEscalations(
+  medication: Medication,
+  recipient: { personId: string; name: string | null },
+  homeTimezone: string | null
+): Promise<string[]> {
+  const rule = medication.escalation;
+  if (!rule) return [];
+
+  const identifiers: string[] = [];
+  const history = await getDoseHistory(recipient.personId);
+  const now = new Date();
+  // Start far enough back to cover doses whose follow-ups are still ahead
+  const from = new Date(now.getTime() - 2 * rule.windowMinutes * 60 * 1000);
+
+  for (const doseDate of getUpcomingDoseDates(medication, ESCALATION_WINDOW_DAYS, from)) {
+    const time = formatTime(doseDate);
+    if (isSlotResolved(getSlotStatus(history, medication.id, doseDate, time))) continue;
+
+    const remindAt = homeTimezone ? toHomeTime(doseDate, homeTimezone) : doseDate;
+    const { renotifyAt, contactAt } = getEscalationTimes(remindAt, rule);
+    const dosage = getDosageForDate(medication, doseDate);
+    const data = {
+      medicationId: medication.id,
+      personId: recipient.personId,
+      type: "dose_escalation",
+      time,
+      date: doseDate.toDateString(),
+      url: "/(tabs)/home",
+    };
+
+    if (renotifyAt > now) {
+      identifiers.push(
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: withRecipient("⏰ Dose Not Logged", recipient.name),
+            body: recipient.name
+              ? `${recipient.name} hasn't logged ${medication.name} (${dosage}) due at ${time}`
+              : `You haven't logged ${medication.name} (${dosage}) due at ${time}`,
+            categoryIdentifier: MEDICATION_REMINDER_CATEGORY,
+            data: { ...data, step: "renotify" },
+            sound: "medicine.wav",
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: renotifyAt,
+          },
+        })
+      );
+    }
+    if (contactAt > now) {
+      identifiers.push(
+        await Notifications.scheduleNotificationAsync({
+          content: {
+            title: withRecipient("⚠️ Dose Still Not Logged", recipient.name),
+            body: `${medication.name} due at ${time} still hasn't been logged. Tap to message the emergency contact.`,
+            data: { ...data, step: "contact" },
+            sound: "default",
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: contactAt,
+          },
+        })
+      );
+    }
+  }
+
+  console.log(`Scheduled ${identifiers.length} escalations for ${medication.name}`);
+  return identifiers;
+}
+
+// Take / Snooze / Skip buttons shown on medication reminders. Each one saves
+// something, and the app must be running for that, so they open it
+export async function registerNotificationCategories(): Promise<void> {
+  try {
+    await Notifications.setNotificationCategoryAsync(MEDICATION_REMINDER_CATEGORY, [
+      {
+        identifier: DOSE_ACTIONS.TAKE,
+        buttonTitle: "Take",
+        options: { opensAppToForeground: true },
+      },
+      {
+        identifier: DOSE_ACTIONS.SNOOZE,
+        buttonTitle: `Snooze ${SNOOZE_MINUTES} min`,
+        options: { opensAppToForeground: true },
+      },
+      {
+        identifier: DOSE_ACTIONS.SKIP,
+        buttonTitle: "Skip",
+        options: { opensAppToForeground: true, isDestructive: true },
+      },
+    ]);
+  } catch (error) {
+    console.error("Error registering notification categories:", error);
+  }
+}
+
+export async function scheduleSnoozedReminder(
+  content: Notifications.NotificationContent,
+  medicationId: string,
+  time: string,
+  slot: Date
+): Promise<string | undefined> {
+  try {
+    const identifier = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: content.title ?? "💊 Medication Reminder",
+        body: content.body ?? undefined,
+        categoryIdentifier: MEDICATION_REMINDER_CATEGORY,
+        data: {
+          medicationId,
+          type: "medication_snooze",
+          time,
+          date: slot.toDateString(),
+          url: "/(tabs)/home",
+        },
+        sound: "medicine.wav",
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000),
+      },
+    });
+
+    console.log(`Snoozed reminder for ${medicationId} at ${time} with ID: ${identifier}`);
+    return identifier;
+  } catch (error) {
+    console.error("Error scheduling snoozed reminder:", error);
+    return undefined;
+  }
+}
+
+// Drops pending snooze and escalation follow-ups once the dose on `date` has been logged
+export async function cancelSlotFollowUps(
+  medicationId: string,
+  time?: string,
+  date: Date = new Date()
+): Promise<void> {
+  try {
+    const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
+    for (const notification of scheduledNotifications) {
+      const data = notification.content.data as {
+        medicationId?: string;
+        type?: string;
+        time?: string;
+        date?: string;
+      } | null;
+      const isFollowUp =
+        data?.type === "medication_snooze" ||
+        (data?.type === "dose_escalation" && data.date === date.toDateString());
+      if (
+        isFollowUp &&
+        data.medicationId === medicationId &&
+        (!time || data.time === time)
+      ) {
+        await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+      }
+    }
+  } catch (error) {
+    console.error("Error cancelling dose follow-ups:", error);
+  }
+}
+
+/**
+ * When the dose a reminder was for was due: the `date` it carries, or for
+ * repeating reminders the day it was shown, at the slot's time
+ */
+function getNotificationSlot(notification: Notifications.Notification, time: string): Date {
+  const data = notification.request.content.data as { date?: string } | null;
+  const slot = data?.date ? new Date(data.date) : new Date(notification.date);
+  const { hours, minutes } = parseTime(time);
+  slot.setHours(hours, minutes, 0, 0);
+  return slot;
+}
+
+/**
+ * Handles the Take / Snooze / Skip buttons of a medication reminder, from the
+ * response listener or, after a cold start, getLastNotificationResponseAsync.
+ * Returns false for anything else (e.g. a plain tap) so the caller can fall
+ * back to opening the notification's url.
+ */
+export async function handleDoseNotificationAction(
+  response: Notifications.NotificationResponse
+): Promise<boolean> {
+  const { actionIdentifier, notification } = response;
+  const data = notification.request.content.data as {
+    medicationId?: string;
+    type?: string;
+    time?: string;
+  } | null;
+
+  const isDoseAction = (Object.values(DOSE_ACTIONS) as string[]).includes(actionIdentifier);
+  if (!isDoseAction || !data?.medicationId || !data.time) {
+    return false;
+  }
+  const { medicationId, time } = data;
+
+  try {
+    await queueWrite(HANDLED_ACTIONS_KEY, async () => {
+      const responseKey = `${notification.request.identifier}:${actionIdentifier}:${notification.date}`;
+      const stored = await AsyncStorage.getItem(HANDLED_ACTIONS_KEY);
+      const handled: string[] = stored ? JSON.parse(stored) : [];
+      if (handled.includes(responseKey)) return;
+
+      // Logged when the user acted, like in-app actions. recordDose finds the slot by
+      // its time and the day of the timestamp, so an action that lands on a later day
+      // (e.g. a 23:00 dose taken after midnight) is logged at the slot instead.
+      const slot = getNotificationSlot(notification, time);
+      const now = new Date();
+      const timestamp = (
+        now.toDateString() === slot.toDateString() ? now : slot
+      ).toISOString();
+      switch (actionIdentifier) {
+        case DOSE_ACTIONS.TAKE:
+          await recordDose(medicationId, "taken", timestamp, time);
+          await cancelSlotFollowUps(medicationId, time, slot);
+          break;
+        case DOSE_ACTIONS.SKIP:
+          await recordDose(medicationId, "skipped", timestamp, time, "Skipped from notification");
+          await cancelSlotFollowUps(medicationId, time, slot);
+          break;
+        case DOSE_ACTIONS.SNOOZE:
+          await recordDose(medicationId, "snoozed", timestamp, time);
+          await scheduleSnoozedReminder(notification.request.content, medicationId, time, slot);
+          break;
+      }
+
+      await AsyncStorage.setItem(
+        HANDLED_ACTIONS_KEY,
+        JSON.stringify([...handled, responseKey].slice(-HANDLED_ACTIONS_KEPT))
+      );
+      await Notifications.dismissNotificationAsync(notification.request.identifier);
+    });
+  } catch (error) {
+    console.error("Error handling notification action:", error);
+  }
+  return true;
+}
+
+/**
+ * Schedules the refill reminder for `leadDays` before the forecast run-out date.
+ * When that moment has already passed it is shown right away, unless `showIfDue`
+ * is false (used when re-planning on launch, so it doesn't repeat every time).
+ */
 export async function scheduleRefillReminder(
-  medication: Medication
+  medication: Medication,
+  showIfDue: boolean = true
 ): Promise<string | undefined> {
-  if (!medication.refillReminder) return;
+  if (!medication.refillReminder || getCourseStatus(medication) !== "active") return;
 
   try {
     // Cancel any existing refill reminders for this medication first
@@ -119,29 +535,48 @@ export async function scheduleRefillReminder(
       }
     }
 
-    // Only schedule if supply is actually low
-    if (medication.currentSupply <= medication.refillAt) {
-      const identifier = await Notifications.scheduleNotificationAsync({
-        content: {
-          title: "🔔 Refill Reminder",
-          body: `Your ${medication.name} supply is running low. Only ${medication.currentSupply} left!`,
-          data: { 
-            medicationId: medication.id, 
-            type: "refill",
-            currentSupply: medication.currentSupply,
-            refillAt: medication.refillAt,
-            url: "/refills"
-          },
-          sound: "default",
-        },
-        trigger: null, // Show immediately
-      });
+    const recipient = await getNotificationRecipient(medication.id);
+    const [history, leadDays] = await Promise.all([
+      getDoseHistory(recipient.personId),
+      getRefillLeadDays(),
+    ]);
+    const forecast = forecastRunOut(medication, history);
+    const remindAt = getRefillReminderDate(forecast, leadDays);
+    const isLow = medication.currentSupply <= medication.refillAt;
+    if (!remindAt && !isLow) return undefined;
 
-      console.log(`Scheduled refill reminder for ${medication.name} with ID: ${identifier}`);
-      return identifier;
-    }
+    const isDue = !remindAt || remindAt <= new Date();
+    if (isDue && !showIfDue) return undefined;
 
-    return undefined;
+    const body = forecast.runOutDate
+      ? `Your ${medication.name} will run out around ${forecast.runOutDate.toLocaleDateString()}. Only ${formatSupply(medication, medication.currentSupply)} left!`
+      : `Your ${medication.name} supply is running low. Only ${formatSupply(medication, medication.currentSupply)} left!`;
+
+    const identifier = await Notifications.scheduleNotificationAsync({
+      content: {
+        title: withRecipient("🔔 Refill Reminder", recipient.name),
+        body,
+        data: {
+          medicationId: medication.id,
+          personId: recipient.personId,
+          type: "refill",
+          currentSupply: medication.currentSupply,
+          refillAt: medication.refillAt,
+          runOutDate: forecast.runOutDate?.toISOString(),
+          url: "/refills"
+        },
+        sound: "default",
+      },
+      trigger: isDue
+        ? null // Show immediately
+        : {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: remindAt,
+          },
+    });
+
+    console.log(`Scheduled refill reminder for ${medication.name} ${isDue ? "now" : `on ${remindAt.toISOString()}`} with ID: ${identifier}`);
+    return identifier;
   } catch (error) {
     console.error("Error scheduling refill reminder:", error);
     return undefined;
@@ -170,6 +605,57 @@ export async function cancelMedicationReminders(
   }
 }
 
+/**
+ * Cancels and schedules again every medication, escalation and refill reminder
+ * for everyone on the phone. Pending snooze follow-ups are one-offs, so those
+ * are kept. Runs one at a time, as two overlapping runs would schedule everything twice.
+ */
+export async function replanAllReminders(): Promise<void> {
+  try {
+    await queueWrite(REMINDER_PLANNING, async () => {
+      // Cancel everything planned here first to prevent duplicates. Water reminders
+      // are set up once and never re-planned, so they are left alone.
+      const scheduledNotifications = await Notifications.getAllScheduledNotificationsAsync();
+      for (const notification of scheduledNotifications) {
+        const data = notification.content.data as { type?: string } | null;
+        if (data?.type && REPLANNED_TYPES.includes(data.type)) {
+          await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+        }
+      }
+
+      const medications = (
+        await Promise.all((await getPeople()).map((person) => getMedications(person.id)))
+      ).flat();
+      for (const medication of medications) {
+        if (medication.reminderEnabled) {
+          await scheduleMedicationReminder(medication);
+        }
+        // Re-plan from the latest forecast; overdue refill alerts were already shown
+        if (medication.refillReminder) {
+          await scheduleRefillReminder(medication, false);
+        }
+      }
+      await AsyncStorage.setItem(LAST_REPLANNED_KEY, new Date().toISOString());
+    });
+  } catch (error) {
+    console.error("Error re-planning reminders:", error);
+  }
+}
+
+// Whether the one-off reminders need topping up, see REPLAN_AFTER_HOURS
+export async function isReminderPlanStale(now: Date = new Date()): Promise<boolean> {
+  try {
+    const lastReplanned = await AsyncStorage.getItem(LAST_REPLANNED_KEY);
+    return (
+      !lastReplanned ||
+      now.getTime() - new Date(lastReplanned).getTime() > REPLAN_AFTER_HOURS * 60 * 60 * 1000
+    );
+  } catch (error) {
+    console.error("Error checking reminder plan:", error);
+    return true;
+  }
+}
+
 export async function updateMedicationReminders(
   medication: Medication
 ): Promise<void> {
@@ -0,0 +1,171 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { deletePersonRows, queueWrite, writeTransaction } from "./database";
+import { deletePrescriptionImages } from "./prescriptions";
+
+const PEOPLE_KEY = "@people";
+const ACTIVE_PERSON_KEY = "@active_person_id";
+
+// The phone's owner. Their data stays under the original, unscoped keys.
+export const SELF_PERSON_ID = "self";
+
+export const PERSON_COLORS = ["#1a8e2d", "#2196F3", "#FF9800", "#E91E63", "#9C27B0", "#009688"];
+
+export interface Person {
+  id: string;
+  name: string;
+  relationship?: string; // e.g. "Mother", "Son"
+  color: string;
+  createdAt: string;
+}
+
+const SELF_PERSON: Person = {
+  id: SELF_PERSON_ID,
+  name: "Me",
+  color: PERSON_COLORS[0],
+  createdAt: new Date(0).toISOString(),
+};
+
+/**
+ * Everyone whose medications are managed on this phone, the owner first
+ */
+export async function getPeople(): Promise<Person[]> {
+  try {
+    const data = await AsyncStorage.getItem(PEOPLE_KEY);
+    const people: Person[] = data ? JSON.parse(data) : [];
+    return people.some((person) => person.id === SELF_PERSON_ID)
+      ? people
+      : [SELF_PERSON, ...people];
+  } catch (error) {
+    console.error("Error getting people:", error);
+    return [SELF_PERSON];
+  }
+}
+
+// Read, change and save the list as one queued step, so overlapping changes
+// (e.g. a person added while a backup is restored) don't overwrite each other
+function updatePeople(change: (people: Person[]) => Person[]): Promise<Person[]> {
+  return queueWrite(PEOPLE_KEY, async () => {
+    const people = change(await getPeople());
+    await AsyncStorage.setItem(PEOPLE_KEY, JSON.stringify(people));
+    return people;
+  });
+}
+
+export async function addPerson(name: string, relationship?: string): Promise<Person> {
+  try {
+    const people = await updatePeople((current) => [
+      ...current,
+      {
+        id: Math.random().toString(36).substr(2, 9),
+        name,
+        relationship,
+        color: PERSON_COLORS[current.length % PERSON_COLORS.length],
+        createdAt: new Date().toISOString(),
+      },
+    ]);
+    return people[people.length - 1];
+  } catch (error) {
+    console.error("Error adding person:", error);
+    throw error;
+  }
+}
+
+export async function updatePerson(updatedPerson: Person): Promise<void> {
+  try {
+    await updatePeople((people) =>
+      people.map((person) => (person.id === updatedPerson.id ? updatedPerson : person))
+    );
+  } catch (error) {
+    console.error("Error updating person:", error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a person and everything stored for them. The owner can't be removed.
+ * Their scheduled notifications must be cancelled by the caller first.
+ */
+export async function removePerson(personId: string): Promise<void> {
+  if (personId === SELF_PERSON_ID) return;
+
+  try {
+    await updatePeople((people) => people.filter((person) => person.id !== personId));
+
+    await deletePrescriptionImages(personId);
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter((key) => key.endsWith(`:${personId}`)));
+    await writeTransaction((db) => deletePersonRows(db, personId));
+
+    if ((await getActivePersonId()) === personId) {
+      await setActivePersonId(SELF_PERSON_ID);
+    }
+  } catch (error) {
+    console.error("Error removing person:", error);
+    throw error;
+  }
+}
+
+/**
+ * Adds people restored from a backup. "replace" also takes the details of people
+ * already on the phone from the backup, and drops the ones it doesn't have
+ * (except the owner); their records must be removed by the caller.
+ */
+export async function importPeople(
+  incoming: Person[],
+  mode: "merge" | "replace"
+): Promise<void> {
+  try {
+    await updatePeople((people) => {
+      const updated = people
+        .filter(
+          (person) =>
+            mode === "merge" ||
+            person.id === SELF_PERSON_ID ||
+            incoming.some((restored) => restored.id === person.id)
+        )
+        .map(
+          (person) =>
+            (mode === "replace" && incoming.find((restored) => restored.id === person.id)) ||
+            person
+        );
+      const added = incoming.filter(
+        (restored) => !people.some((person) => person.id === restored.id)
+      );
+      return [...updated, ...added];
+    });
+  } catch (error) {
+    console.error("Error importing people:", error);
+    throw error;
+  }
+}
+
+export async function getActivePersonId(): Promise<string> {
+  try {
+    return (await AsyncStorage.getItem(ACTIVE_PERSON_KEY)) ?? SELF_PERSON_ID;
+  } catch (error) {
+    console.error("Error getting active person:", error);
+    return SELF_PERSON_ID;
+  }
+}
+
+export async function setActivePersonId(personId: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(ACTIVE_PERSON_KEY, personId);
+  } catch (error) {
+    console.error("Error setting active person:", error);
+  }
+}
+
+export async function getActivePerson(): Promise<Person> {
+  const [people, activeId] = await Promise.all([getPeople(), getActivePersonId()]);
+  return people.find((person) => person.id === activeId) ?? people[0];
+}
+
+/**
+ * Storage key holding `key` for the given person (the active one by default).
+ * Medications, dose history, refills, profile and vitals are all kept per person.
+ */
+export async function getPersonKey(key: string, personId?: string): Promise<string> {
+  const id = personId ?? (await getActivePersonId());
+  return id === SELF_PERSON_ID ? key : `${key}:${id}`;
+}
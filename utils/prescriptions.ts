@@ -0,0 +1,394 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import {
+  ContraindicationOverride,
+  DosageForm,
+  FoodTiming,
+  Medication,
+  MedicationSchedule,
+  addMedication,
+} from "./storage";
+import { scheduleMedicationReminder } from "./notifications";
+import { getActivePersonId, getPersonKey } from "./people";
+import { queueWrite } from "./database";
+import { DOSAGE_FORMS, getDefaultUnit } from "./dosage";
+import { DosagePattern, parseDosagePattern } from "./dosagePattern";
+import { DEFAULT_MAX_DOSES_PER_24H, DEFAULT_MIN_HOURS_BETWEEN } from "./asNeeded";
+
+const PRESCRIPTIONS_KEY = "@prescriptions";
+const IMAGE_DIRECTORY = `${FileSystem.documentDirectory}prescriptions/`;
+
+// As read from a prescription photo by app/prescription.tsx
+export interface DoctorInfo {
+  name: string;
+  degree: string;
+  specialization: string;
+  clinic_name: string;
+  clinic_address: string;
+  clinic_hours: string;
+  holiday: string;
+  phone: string[];
+}
+
+export interface PatientInfo {
+  name: string;
+  date: string;
+  age: string;
+  weight: string;
+  body_temperature: string;
+}
+
+export interface PrescriptionItem {
+  sl_no: number;
+  medicine: string;
+  dosage_pattern?: string;
+}
+
+export interface PrescriptionData {
+  doctor: DoctorInfo;
+  patient: PatientInfo;
+  prescription: PrescriptionItem[];
+  note: string;
+  signature_present: boolean;
+}
+
+export interface SavedPrescription {
+  id: string;
+  scannedAt: string;
+  imageUri?: string; // Our copy of the photo; missing if it couldn't be kept
+  data: PrescriptionData | null; // null when the reply couldn't be read as JSON
+  rawText: string; // The reply as received
+  medicationIds: string[]; // Medications added from it
+}
+
+export type PrescriptionGrouping = "date" | "doctor" | "patient";
+
+export interface PrescriptionGroup {
+  title: string;
+  prescriptions: SavedPrescription[];
+}
+
+// A prescription item turned into medication fields, for the user to review
+export interface MedicationDraft {
+  key: string;
+  source: PrescriptionItem;
+  include: boolean;
+  name: string;
+  dosage: string;
+  form: DosageForm;
+  amount: number;
+  times: string[];
+  asNeeded: boolean;
+  durationDays: number | null; // null for ongoing
+  foodTiming?: FoodTiming;
+  schedule?: MedicationSchedule; // When not every day, e.g. "q8h" or "alternate day"
+  flags: string[]; // Parts of the dosage pattern the user should check
+  contraindicationOverrides?: ContraindicationOverride[]; // Set when added past a warning
+}
+
+const FORM_PREFIXES: { pattern: RegExp; form: DosageForm }[] = [
+  { pattern: /^tab(?:let)?s?\b\.?/i, form: "tablet" },
+  { pattern: /^cap(?:sule)?s?\b\.?/i, form: "capsule" },
+  { pattern: /^(?:syp|syr(?:up)?|susp(?:ension)?|liq(?:uid)?)\b\.?/i, form: "liquid" },
+  { pattern: /^inj(?:ection)?\b\.?/i, form: "injection" },
+  { pattern: /^(?:drops?|gtt)\b\.?/i, form: "drops" },
+  { pattern: /^(?:inh(?:aler)?|puffs?)\b\.?/i, form: "inhaler" },
+];
+
+const STRENGTH_PATTERN = /\d+(?:\.\d+)?\s*(?:mg|mcg|g|ml|iu|%)(?:\s*\/\s*\d*\s*(?:mg|mcg|g|ml))?/i;
+
+const DRAFT_COLORS = ["#4CAF50", "#2196F3", "#FF9800", "#E91E63", "#9C27B0"];
+
+export async function getPrescriptions(personId?: string): Promise<SavedPrescription[]> {
+  try {
+    const data = await AsyncStorage.getItem(await getPersonKey(PRESCRIPTIONS_KEY, personId));
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error("Error getting prescriptions:", error);
+    return [];
+  }
+}
+
+export async function getPrescription(
+  id: string,
+  personId?: string
+): Promise<SavedPrescription | undefined> {
+  return (await getPrescriptions(personId)).find((prescription) => prescription.id === id);
+}
+
+async function updatePrescriptions(
+  ownerId: string,
+  update: (prescriptions: SavedPrescription[]) => SavedPrescription[]
+): Promise<void> {
+  const key = await getPersonKey(PRESCRIPTIONS_KEY, ownerId);
+  await queueWrite(key, async () => {
+    const data = await AsyncStorage.getItem(key);
+    const prescriptions: SavedPrescription[] = data ? JSON.parse(data) : [];
+    await AsyncStorage.setItem(key, JSON.stringify(update(prescriptions)));
+  });
+}
+
+/**
+ * Copies the photo into the app's documents, since picker and camera files
+ * are temporary and URLs can go away
+ */
+async function storeImage(id: string, sourceUri: string): Promise<string | undefined> {
+  try {
+    await FileSystem.makeDirectoryAsync(IMAGE_DIRECTORY, { intermediates: true });
+    const uri = `${IMAGE_DIRECTORY}${id}.jpg`;
+    if (sourceUri.startsWith("http")) {
+      await FileSystem.downloadAsync(sourceUri, uri);
+    } else {
+      await FileSystem.copyAsync({ from: sourceUri, to: uri });
+    }
+    return uri;
+  } catch (error) {
+    console.error("Error storing prescription image:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Keeps a scan with its photo and the reply it was read from, so it can be
+ * looked up later and medications added from it can point back to it
+ */
+export async function savePrescription(
+  scan: { imageUri: string; data: PrescriptionData | null; rawText: string },
+  personId?: string
+): Promise<SavedPrescription> {
+  try {
+    const ownerId = personId ?? (await getActivePersonId());
+    const id = Math.random().toString(36).substr(2, 9);
+    const prescription: SavedPrescription = {
+      id,
+      scannedAt: new Date().toISOString(),
+      imageUri: await storeImage(id, scan.imageUri),
+      data: scan.data,
+      rawText: scan.rawText,
+      medicationIds: [],
+    };
+    await updatePrescriptions(ownerId, (prescriptions) => [...prescriptions, prescription]);
+    return prescription;
+  } catch (error) {
+    console.error("Error saving prescription:", error);
+    throw error;
+  }
+}
+
+export async function deletePrescription(id: string, personId?: string): Promise<void> {
+  try {
+    const ownerId = personId ?? (await getActivePersonId());
+    const prescription = await getPrescription(id, ownerId);
+    await updatePrescriptions(ownerId, (prescriptions) =>
+      prescriptions.filter((saved) => saved.id !== id)
+    );
+    if (prescription?.imageUri) {
+      await FileSystem.deleteAsync(prescription.imageUri, { idempotent: true });
+    }
+  } catch (error) {
+    console.error("Error deleting prescription:", error);
+    throw error;
+  }
+}
+
+// The saved list itself goes with the person's other keys
+export async function deletePrescriptionImages(personId: string): Promise<void> {
+  for (const prescription of await getPrescriptions(personId)) {
+    if (prescription.imageUri) {
+      await FileSystem.deleteAsync(prescription.imageUri, { idempotent: true });
+    }
+  }
+}
+
+/**
+ * Prescriptions with a medicine whose name contains `query`, ignoring case
+ */
+export function searchPrescriptions(
+  prescriptions: SavedPrescription[],
+  query: string
+): SavedPrescription[] {
+  const term = query.trim().toLowerCase();
+  if (!term) return prescriptions;
+  return prescriptions.filter((prescription) =>
+    prescription.data?.prescription.some((item) => item.medicine.toLowerCase().includes(term))
+  );
+}
+
+function getGroupTitle(prescription: SavedPrescription, by: PrescriptionGrouping): string {
+  switch (by) {
+    case "date":
+      // The written date has no fixed format, so group by when it was scanned
+      return new Date(prescription.scannedAt).toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      });
+    case "doctor":
+      return prescription.data?.doctor.name.trim() || "Unknown doctor";
+    case "patient":
+      return prescription.data?.patient.name.trim() || "Unknown patient";
+  }
+}
+
+/**
+ * Newest first within each group; months newest first, names alphabetically
+ */
+export function groupPrescriptions(
+  prescriptions: SavedPrescription[],
+  by: PrescriptionGrouping
+): PrescriptionGroup[] {
+  const groups = new Map<string, SavedPrescription[]>();
+  const newestFirst = [...prescriptions].sort(
+    (a, b) => new Date(b.scannedAt).getTime() - new Date(a.scannedAt).getTime()
+  );
+  for (const prescription of newestFirst) {
+    const title = getGroupTitle(prescription, by);
+    groups.set(title, [...(groups.get(title) ?? []), prescription]);
+  }
+  const result = Array.from(groups.entries()).map(([title, grouped]) => ({
+    title,
+    prescriptions: grouped,
+  }));
+  return by === "date" ? result : result.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Splits a prescribed medicine such as "Tab. Dolo 650mg" into name, strength and form
+ */
+function parseMedicineName(medicine: string): { name: string; dosage: string; form?: DosageForm } {
+  let name = medicine.trim();
+  let form: DosageForm | undefined;
+  const prefix = FORM_PREFIXES.find(({ pattern }) => pattern.test(name));
+  if (prefix) {
+    form = prefix.form;
+    name = name.replace(prefix.pattern, "").trim();
+  }
+  const strength = name.match(STRENGTH_PATTERN);
+  return {
+    name: name || medicine.trim(),
+    dosage: strength ? strength[0].replace(/\s+/g, "") : "",
+    form,
+  };
+}
+
+// One line that can't be read shouldn't stop the rest of the prescription from loading
+function readDosagePattern(text: string | undefined): DosagePattern {
+  try {
+    return parseDosagePattern(text);
+  } catch (error) {
+    console.error("Error reading dosage pattern:", error);
+    return {
+      times: [],
+      amount: null,
+      asNeeded: false,
+      durationDays: null,
+      unrecognized: text?.trim() ? [text.trim()] : [],
+      warnings: [],
+    };
+  }
+}
+
+export function createMedicationDrafts(data: PrescriptionData): MedicationDraft[] {
+  return data.prescription.map((item, index) => {
+    const { name, dosage, form } = parseMedicineName(item.medicine);
+    const pattern = readDosagePattern(item.dosage_pattern);
+    const flags = [
+      ...pattern.warnings,
+      ...pattern.unrecognized.map((part) => `Not understood: "${part}"`),
+    ];
+    if (!pattern.asNeeded && pattern.times.length === 0) {
+      flags.push("No dose times given: add them or mark it as needed");
+    }
+    return {
+      key: `${index}`,
+      source: item,
+      include: true,
+      name,
+      dosage,
+      // "Tab." before the name wins over "5 ml" in the pattern
+      form:
+        form ??
+        DOSAGE_FORMS.find((option) => option.unit === pattern.unit)?.form ??
+        "tablet",
+      amount: pattern.amount ?? 1,
+      times: pattern.times,
+      asNeeded: pattern.asNeeded,
+      durationDays: pattern.durationDays,
+      foodTiming: pattern.foodTiming,
+      schedule: pattern.schedule,
+      flags,
+    };
+  });
+}
+
+export function draftToMedication(
+  draft: MedicationDraft,
+  prescriptionId: string,
+  startDate: Date = new Date()
+): Medication {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: draft.name.trim(),
+    dosage: draft.dosage.trim() || `${draft.amount} ${getDefaultUnit(draft.form)}`,
+    dose: { amount: draft.amount, unit: getDefaultUnit(draft.form), form: draft.form },
+    times: draft.asNeeded ? [] : draft.times,
+    schedule: draft.asNeeded
+      ? {
+          type: "prn",
+          maxDosesPer24h: DEFAULT_MAX_DOSES_PER_24H,
+          minHoursBetween: DEFAULT_MIN_HOURS_BETWEEN,
+        }
+      : draft.schedule ?? { type: "daily" },
+    startDate: startDate.toISOString(),
+    duration: draft.durationDays ? `${draft.durationDays} days` : "Ongoing",
+    color: DRAFT_COLORS[Math.floor(Math.random() * DRAFT_COLORS.length)],
+    reminderEnabled: !draft.asNeeded,
+    currentSupply: 0,
+    totalSupply: 0,
+    refillAt: 0,
+    refillReminder: false,
+    foodTiming: draft.foodTiming,
+    contraindicationOverrides: draft.contraindicationOverrides,
+    prescriptionId,
+  };
+}
+
+/**
+ * Adds the included drafts as medications with their reminders, and records
+ * them on the prescription. Returns the medications added.
+ */
+export async function addMedicationsFromDrafts(
+  drafts: MedicationDraft[],
+  prescriptionId: string,
+  personId?: string
+): Promise<Medication[]> {
+  try {
+    const ownerId = personId ?? (await getActivePersonId());
+    const added: Medication[] = [];
+    for (const draft of drafts.filter((draft) => draft.include)) {
+      const medication = draftToMedication(draft, prescriptionId);
+      await addMedication(medication, ownerId);
+      if (medication.reminderEnabled) {
+        await scheduleMedicationReminder(medication);
+      }
+      added.push(medication);
+    }
+
+    await updatePrescriptions(ownerId, (prescriptions) =>
+      prescriptions.map((prescription) =>
+        prescription.id === prescriptionId
+          ? {
+              ...prescription,
+              medicationIds: [
+                ...prescription.medicationIds,
+                ...added.map((medication) => medication.id),
+              ],
+            }
+          : prescription
+      )
+    );
+    return added;
+  } catch (error) {
+    console.error("Error adding medications from prescription:", error);
+    throw error;
+  }
+}
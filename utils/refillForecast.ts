@@ -0,0 +1,173 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { DoseHistory, Medication, getDoseStatus } from "./storage";
+import {
+  countScheduledDoses,
+  getCourseEndDate,
+  getDoseTimesForDate,
+  isAsNeeded,
+  parseTime,
+  startOfDay,
+} from "./schedule";
+import { getDoseAmountForDate } from "./dosage";
+
+const REFILL_LEAD_DAYS_KEY = "refill_lead_days";
+const CONSUMPTION_WINDOW_DAYS = 14;
+const MAX_FORECAST_DAYS = 365;
+// Below this many scheduled doses the observed rate is too noisy to trust
+const MIN_SLOTS_FOR_RATE = 7;
+
+export const DEFAULT_REFILL_LEAD_DAYS = 5;
+export const REFILL_LEAD_DAY_OPTIONS = [3, 5, 7, 14];
+
+export interface RunOutForecast {
+  runOutDate: Date | null; // null when supply outlasts the course or nothing is being used
+  daysRemaining: number | null;
+  coversCourse: boolean; // the course ends before the supply does
+  unitsPerDose: number; // share of scheduled doses actually taken recently, 1 when unknown
+}
+
+export async function getRefillLeadDays(): Promise<number> {
+  try {
+    const value = await AsyncStorage.getItem(REFILL_LEAD_DAYS_KEY);
+    return value ? parseInt(value) : DEFAULT_REFILL_LEAD_DAYS;
+  } catch (error) {
+    console.error("Error getting refill lead days:", error);
+    return DEFAULT_REFILL_LEAD_DAYS;
+  }
+}
+
+export async function setRefillLeadDays(days: number): Promise<void> {
+  try {
+    await AsyncStorage.setItem(REFILL_LEAD_DAYS_KEY, days.toString());
+  } catch (error) {
+    console.error("Error setting refill lead days:", error);
+  }
+}
+
+function getConsumptionWindowStart(medication: Medication, now: Date): Date {
+  const from = startOfDay(now);
+  from.setDate(from.getDate() - CONSUMPTION_WINDOW_DAYS);
+  const started = new Date(medication.startDate);
+  return started > from ? started : from;
+}
+
+function getTakenSince(
+  medication: Medication,
+  history: DoseHistory[],
+  from: Date,
+  now: Date
+): DoseHistory[] {
+  return history.filter(
+    (dose) =>
+      dose.medicationId === medication.id &&
+      getDoseStatus(dose) === "taken" &&
+      new Date(dose.timestamp) >= from &&
+      new Date(dose.timestamp) <= now
+  );
+}
+
+/**
+ * How much of each scheduled dose is really used, based on recent history.
+ * Someone who skips a fifth of their doses uses 0.8 per scheduled dose.
+ */
+function getUnitsPerScheduledDose(
+  medication: Medication,
+  history: DoseHistory[],
+  now: Date
+): number {
+  const from = getConsumptionWindowStart(medication, now);
+  const yesterday = startOfDay(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (from > yesterday) return 1;
+
+  // Whole days only, today's doses may still be to come
+  const scheduled = countScheduledDoses(medication, from, yesterday);
+  if (scheduled < MIN_SLOTS_FOR_RATE) return 1;
+
+  const taken = getTakenSince(medication, history, from, startOfDay(now)).length;
+  return Math.min(1, Math.max(0.25, taken / scheduled));
+}
+
+function getAsNeededForecast(
+  medication: Medication,
+  history: DoseHistory[],
+  now: Date
+): RunOutForecast {
+  const from = getConsumptionWindowStart(medication, now);
+  const days = Math.max(1, (now.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+  const used = getTakenSince(medication, history, from, now).reduce(
+    (total, dose) => total + (dose.amount ?? 1),
+    0
+  );
+  const perDay = used / days;
+  if (perDay <= 0) {
+    return { runOutDate: null, daysRemaining: null, coversCourse: false, unitsPerDose: 1 };
+  }
+
+  const daysRemaining = Math.floor(medication.currentSupply / perDay);
+  const runOutDate = startOfDay(now);
+  runOutDate.setDate(runOutDate.getDate() + daysRemaining);
+  return { runOutDate, daysRemaining, coversCourse: false, unitsPerDose: 1 };
+}
+
+/**
+ * Predicts when the current supply runs out by walking the upcoming schedule,
+ * scaled by how consistently doses were taken over the last two weeks.
+ * As-needed medications use their recent daily consumption instead.
+ */
+export function forecastRunOut(
+  medication: Medication,
+  history: DoseHistory[],
+  now: Date = new Date()
+): RunOutForecast {
+  if (isAsNeeded(medication)) {
+    return getAsNeededForecast(medication, history, now);
+  }
+
+  const unitsPerDose = getUnitsPerScheduledDose(medication, history, now);
+  let remaining = medication.currentSupply;
+  const day = startOfDay(now);
+
+  for (let i = 0; i <= MAX_FORECAST_DAYS; i++) {
+    for (const time of getDoseTimesForDate(medication, day)) {
+      const { hours, minutes } = parseTime(time);
+      const doseAt = new Date(day);
+      doseAt.setHours(hours, minutes, 0, 0);
+      if (doseAt <= now) continue;
+
+      const needed = unitsPerDose * getDoseAmountForDate(medication, day);
+      if (remaining < needed) {
+        return {
+          runOutDate: new Date(day),
+          daysRemaining: i,
+          coversCourse: false,
+          unitsPerDose,
+        };
+      }
+      remaining -= needed;
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  const courseEnd = getCourseEndDate(medication);
+  return {
+    runOutDate: null,
+    daysRemaining: null,
+    coversCourse: courseEnd !== null && courseEnd < day,
+    unitsPerDose,
+  };
+}
+
+/**
+ * Morning of the day a refill reminder should go out, `leadDays` before the run-out date
+ */
+export function getRefillReminderDate(
+  forecast: RunOutForecast,
+  leadDays: number
+): Date | null {
+  if (!forecast.runOutDate) return null;
+  const remindAt = startOfDay(forecast.runOutDate);
+  remindAt.setDate(remindAt.getDate() - leadDays);
+  remindAt.setHours(9, 0, 0, 0);
+  return remindAt;
+}
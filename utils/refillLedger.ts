@@ -0,0 +1,79 @@
+import { Medication, RefillEntry } from "./storage";
+
+export const SPEND_SUMMARY_MONTHS = 6;
+
+export interface MonthlySpend {
+  month: Date; // First day of the month
+  total: number;
+  refillCount: number;
+  perMedication: { medicationId: string; name: string; total: number }[];
+}
+
+export function formatCurrency(amount: number): string {
+  return `₹${amount.toFixed(amount % 1 === 0 ? 0 : 2)}`;
+}
+
+export function formatMonth(month: Date): string {
+  return month.toLocaleDateString(undefined, { month: "short", year: "numeric" });
+}
+
+/**
+ * Refills of one medication, newest first
+ */
+export function getRefillsForMedication(
+  medicationId: string,
+  log: RefillEntry[]
+): RefillEntry[] {
+  return log
+    .filter((entry) => entry.medicationId === medicationId && entry.type === "refill")
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+/**
+ * What was spent on refills in each of the last `months` months, newest first.
+ * Months without any priced refill are included with a total of zero.
+ */
+export function getMonthlySpend(
+  log: RefillEntry[],
+  medications: Medication[],
+  months: number = SPEND_SUMMARY_MONTHS,
+  now: Date = new Date()
+): MonthlySpend[] {
+  const summary: MonthlySpend[] = [];
+
+  for (let i = 0; i < months; i++) {
+    const month = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    const refills = log.filter((entry) => {
+      const date = new Date(entry.date);
+      return (
+        entry.type === "refill" &&
+        date.getFullYear() === month.getFullYear() &&
+        date.getMonth() === month.getMonth()
+      );
+    });
+
+    const totals = new Map<string, number>();
+    for (const refill of refills) {
+      totals.set(
+        refill.medicationId,
+        (totals.get(refill.medicationId) ?? 0) + (refill.price ?? 0)
+      );
+    }
+
+    summary.push({
+      month,
+      total: refills.reduce((total, refill) => total + (refill.price ?? 0), 0),
+      refillCount: refills.length,
+      perMedication: Array.from(totals, ([medicationId, total]) => ({
+        medicationId,
+        // Refills of deleted medications still count towards what was spent
+        name:
+          medications.find((med) => med.id === medicationId)?.name ??
+          "Deleted medication",
+        total,
+      })).sort((a, b) => b.total - a.total),
+    });
+  }
+
+  return summary;
+}
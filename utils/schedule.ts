@@ -0,0 +1,353 @@
+import { CourseStatus, Medication, MedicationSchedule } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function getSchedule(medication: Medication): MedicationSchedule {
+  return medication.schedule ?? { type: "daily" };
+}
+
+export function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * The medication as it was prescribed on the given day. Days before the
+ * latest edit take dosage, times and supply from the matching entry in
+ * `versions`.
+ */
+export function getRegimenForDate(medication: Medication, date: Date): Medication {
+  if (!medication.versions?.length || !medication.effectiveFrom) {
+    return medication;
+  }
+
+  const day = startOfDay(date);
+  if (day >= startOfDay(new Date(medication.effectiveFrom))) {
+    return medication;
+  }
+
+  const version = medication.versions.find(
+    (v) =>
+      day >= startOfDay(new Date(v.effectiveFrom)) &&
+      day < startOfDay(new Date(v.effectiveTo))
+  );
+  return version ? { ...medication, ...version } : medication;
+}
+
+/**
+ * Taken only when needed. Older medications saved as "daily" without any times are treated the same.
+ */
+export function isAsNeeded(medication: Medication): boolean {
+  const schedule = getSchedule(medication);
+  return (
+    schedule.type === "prn" ||
+    (schedule.type === "daily" && medication.times.length === 0)
+  );
+}
+
+/**
+ * Whether the given day falls under an earlier, since-edited regimen
+ */
+export function isPastRegimen(medication: Medication, date: Date): boolean {
+  return (
+    !!medication.effectiveFrom &&
+    !!medication.versions?.length &&
+    startOfDay(date) < startOfDay(new Date(medication.effectiveFrom))
+  );
+}
+
+/**
+ * Whole calendar days from `from` to `to` (negative when `to` is earlier)
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS
+  );
+}
+
+export function formatTime(date: Date): string {
+  return `${date.getHours().toString().padStart(2, "0")}:${date
+    .getMinutes()
+    .toString()
+    .padStart(2, "0")}`;
+}
+
+export function parseTime(time: string): { hours: number; minutes: number } {
+  const [hours, minutes] = time.split(":").map(Number);
+  return { hours, minutes };
+}
+
+/**
+ * Course length in days, or null for ongoing medications.
+ * Tapering courses last as long as their steps combined.
+ */
+export function getCourseLengthDays(medication: Medication): number | null {
+  const schedule = getSchedule(medication);
+  if (schedule.type === "taper") {
+    return schedule.steps.reduce((total, step) => total + step.days, 0);
+  }
+
+  const durationDays = parseInt(medication.duration.split(" ")[0]);
+  if (isNaN(durationDays) || durationDays <= 0) {
+    return null;
+  }
+  return durationDays;
+}
+
+/**
+ * Last day (inclusive) of the course, or null for ongoing medications
+ */
+export function getCourseEndDate(medication: Medication): Date | null {
+  const length = getCourseLengthDays(medication);
+  if (length === null) return null;
+
+  const end = startOfDay(new Date(medication.startDate));
+  end.setDate(end.getDate() + length - 1);
+  return end;
+}
+
+export function getCourseStatus(medication: Medication): CourseStatus {
+  return medication.status ?? "active";
+}
+
+// Completed and discontinued courses are archived: no doses, reminders or refills
+export function isCourseEnded(medication: Medication): boolean {
+  const status = getCourseStatus(medication);
+  return status === "completed" || status === "discontinued";
+}
+
+function isPausedOn(medication: Medication, day: Date): boolean {
+  return (medication.pauses ?? []).some(
+    (pause) =>
+      day >= startOfDay(new Date(pause.from)) &&
+      (!pause.to || day < startOfDay(new Date(pause.to)))
+  );
+}
+
+/**
+ * Whether the course runs on the given day. Days the course was paused, and
+ * days from the one it ended on, have no doses.
+ */
+export function isMedicationActiveOn(medication: Medication, date: Date): boolean {
+  const day = startOfDay(date);
+  if (isPausedOn(medication, day)) {
+    return false;
+  }
+  if (day < startOfDay(new Date(medication.startDate))) {
+    // Earlier runs of a restarted course
+    return (medication.pastCourses ?? []).some(
+      (course) =>
+        day >= startOfDay(new Date(course.startDate)) &&
+        day < startOfDay(new Date(course.endedAt))
+    );
+  }
+  if (medication.endedAt && day >= startOfDay(new Date(medication.endedAt))) {
+    return false;
+  }
+  const end = getCourseEndDate(medication);
+  return end === null || day <= end;
+}
+
+/**
+ * The medication as it ran on the given day. Days in an earlier run of a
+ * restarted course take that run's start and end, so cycles and tapering
+ * steps are counted from when it started.
+ */
+export function getCourseRunOn(medication: Medication, date: Date): Medication {
+  const day = startOfDay(date);
+  const past = (medication.pastCourses ?? []).find(
+    (course) =>
+      day >= startOfDay(new Date(course.startDate)) && day < startOfDay(new Date(course.endedAt))
+  );
+  return past && day < startOfDay(new Date(medication.startDate))
+    ? { ...medication, startDate: past.startDate, endedAt: past.endedAt }
+    : medication;
+}
+
+function getTaperStepIndex(
+  steps: { days: number }[],
+  dayIndex: number
+): number {
+  let elapsed = 0;
+  for (let i = 0; i < steps.length; i++) {
+    elapsed += steps[i].days;
+    if (dayIndex < elapsed) return i;
+  }
+  return -1;
+}
+
+function getIntervalTimes(
+  medication: Medication,
+  intervalHours: number,
+  date: Date
+): string[] {
+  if (!medication.times[0] || intervalHours <= 0) return [];
+
+  const { hours, minutes } = parseTime(medication.times[0]);
+  const anchor = startOfDay(new Date(medication.startDate));
+  anchor.setHours(hours, minutes, 0, 0);
+
+  const dayStart = startOfDay(date).getTime();
+  const dayEnd = dayStart + DAY_MS;
+  const intervalMs = intervalHours * 60 * 60 * 1000;
+
+  const times: string[] = [];
+  let occurrence =
+    anchor.getTime() +
+    Math.max(0, Math.ceil((dayStart - anchor.getTime()) / intervalMs)) *
+      intervalMs;
+  while (occurrence < dayEnd) {
+    if (occurrence >= dayStart) {
+      times.push(formatTime(new Date(occurrence)));
+    }
+    occurrence += intervalMs;
+  }
+  return times;
+}
+
+/**
+ * Whether the schedule calls for doses on this day at all
+ * (as-needed medications with no times count as due every active day)
+ */
+export function isDoseDay(medication: Medication, date: Date): boolean {
+  if (!isMedicationActiveOn(medication, date)) return false;
+
+  const schedule = getSchedule(medication);
+  const dayIndex = daysBetween(new Date(medication.startDate), date);
+
+  switch (schedule.type) {
+    case "weekdays":
+      return schedule.weekdays.includes(date.getDay());
+    case "cyclic": {
+      const cycleLength = schedule.daysOn + schedule.daysOff;
+      return cycleLength <= 0 || dayIndex % cycleLength < schedule.daysOn;
+    }
+    case "taper":
+      return getTaperStepIndex(schedule.steps, dayIndex) !== -1;
+    case "interval":
+      return (
+        medication.times.length === 0 ||
+        getIntervalTimes(medication, schedule.intervalHours, date).length > 0
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Scheduled dose times ("HH:MM") for the given day, sorted
+ */
+export function getDoseTimesForDate(medication: Medication, date: Date): string[] {
+  if (!isDoseDay(medication, date)) return [];
+
+  const schedule = getSchedule(medication);
+  if (schedule.type === "prn") return [];
+  if (schedule.type === "interval") {
+    return getIntervalTimes(medication, schedule.intervalHours, date);
+  }
+  return [...medication.times].sort();
+}
+
+/**
+ * Dosage to take on the given day; tapering courses change it per step
+ */
+export function getDosageForDate(medication: Medication, date: Date): string {
+  const schedule = getSchedule(medication);
+  if (schedule.type !== "taper") return medication.dosage;
+
+  const dayIndex = daysBetween(new Date(medication.startDate), date);
+  const stepIndex = getTaperStepIndex(schedule.steps, dayIndex);
+  return stepIndex === -1 ? medication.dosage : schedule.steps[stepIndex].dosage;
+}
+
+/**
+ * Average number of scheduled doses per day over a full schedule cycle
+ */
+export function getAverageDosesPerDay(medication: Medication): number {
+  const schedule = getSchedule(medication);
+  const timesPerDay = medication.times.length;
+
+  switch (schedule.type) {
+    case "interval":
+      return schedule.intervalHours > 0 ? 24 / schedule.intervalHours : 0;
+    case "weekdays":
+      return (timesPerDay * schedule.weekdays.length) / 7;
+    case "cyclic": {
+      const cycleLength = schedule.daysOn + schedule.daysOff;
+      return cycleLength > 0 ? (timesPerDay * schedule.daysOn) / cycleLength : timesPerDay;
+    }
+    default:
+      return timesPerDay;
+  }
+}
+
+/**
+ * Number of scheduled doses between two days (both inclusive)
+ */
+export function countScheduledDoses(
+  medication: Medication,
+  from: Date,
+  to: Date
+): number {
+  let count = 0;
+  const day = startOfDay(from);
+  const last = startOfDay(to);
+  while (day <= last) {
+    count += getDoseTimesForDate(medication, day).length;
+    day.setDate(day.getDate() + 1);
+  }
+  return count;
+}
+
+/**
+ * Exact dose moments within the next `days` days, starting now
+ */
+export function getUpcomingDoseDates(
+  medication: Medication,
+  days: number,
+  from: Date = new Date()
+): Date[] {
+  const doses: Date[] = [];
+  const day = startOfDay(from);
+  for (let i = 0; i < days; i++) {
+    for (const time of getDoseTimesForDate(medication, day)) {
+      const { hours, minutes } = parseTime(time);
+      const doseDate = new Date(day);
+      doseDate.setHours(hours, minutes, 0, 0);
+      if (doseDate > from) {
+        doses.push(doseDate);
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return doses;
+}
+
+export function describeSchedule(medication: Medication): string {
+  const schedule = getSchedule(medication);
+
+  switch (schedule.type) {
+    case "interval":
+      return `Every ${schedule.intervalHours} hours`;
+    case "weekdays":
+      return [...schedule.weekdays]
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAY_LABELS[day])
+        .join(", ");
+    case "cyclic":
+      return `${schedule.daysOn} days on, ${schedule.daysOff} days off`;
+    case "taper":
+      return schedule.steps
+        .map((step) => `${step.dosage} x ${step.days}d`)
+        .join(" → ");
+    case "prn":
+      return `As needed, up to ${schedule.maxDosesPer24h} per 24h`;
+    default:
+      return medication.times.length > 0
+        ? `${medication.times.length}x daily`
+        : "As needed";
+  }
+}
@@ -1,47 +1,258 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { getDoseAmountForDate } from "./dosage";
+import { getDeviceTimezone } from "./timezone";
+import { getActivePersonId, getPersonKey } from "./people";
+import type { SQLiteDatabase } from "expo-sqlite";
+import {
+  getDatabase,
+  parseRows,
+  queueWrite,
+  writeDose,
+  writeMedication,
+  writeRefillEntry,
+  writeTransaction,
+  writeTrashEntry,
+} from "./database";
 
-const MEDICATIONS_KEY = "@medications";
-const DOSE_HISTORY_KEY = "@dose_history";
+// Medications, dose history and refills live in the database, see utils/database.ts
+const ESCALATION_LOG_KEY = "@escalation_log";
+
+export type ScheduleType =
+  | "daily"
+  | "interval"
+  | "weekdays"
+  | "cyclic"
+  | "taper"
+  | "prn";
+
+export interface TaperStep {
+  days: number;
+  dosage: string;
+}
+
+// How the dose times in `Medication.times` repeat over the course.
+// Medications saved without a schedule are treated as "daily".
+export type MedicationSchedule =
+  | { type: "daily" }
+  // Every N hours, anchored at times[0] on the start date
+  | { type: "interval"; intervalHours: number }
+  // Only on the given weekdays (0 = Sunday ... 6 = Saturday)
+  | { type: "weekdays"; weekdays: number[] }
+  // `daysOn` days of doses followed by `daysOff` days of rest, repeating
+  | { type: "cyclic"; daysOn: number; daysOff: number }
+  // Consecutive steps with their own dosage, e.g. 40mg x 5 days then 20mg x 5 days
+  | { type: "taper"; steps: TaperStep[] }
+  // As needed: no reminders, only safety limits on how often doses are logged
+  | { type: "prn"; maxDosesPer24h: number; minHoursBetween: number };
+
+// What supply is counted in; each dose uses `amount` of it
+export type DosageUnit = "tablet" | "capsule" | "ml" | "puff" | "unit" | "drop" | "patch";
+
+export type DosageForm =
+  | "tablet"
+  | "capsule"
+  | "liquid"
+  | "inhaler"
+  | "injection"
+  | "drops"
+  | "patch";
+
+export interface StructuredDosage {
+  amount: number; // Per dose, in `unit`
+  unit: DosageUnit;
+  form: DosageForm;
+}
+
+// What reminders do when travelling: stay at the same local clock time, or
+// stay at the same moments as back home (keeping the gap between doses)
+export type TimezonePolicy = "wallClock" | "homeTimezone";
+
+// When to take a dose relative to meals, as prescriptions say it
+export type FoodTiming = "beforeFood" | "withFood" | "afterFood" | "emptyStomach";
+
+// Medications saved before courses had a status are "active"
+export type CourseStatus = "active" | "paused" | "completed" | "discontinued";
+
+export interface CoursePause {
+  from: string;
+  to?: string; // Missing while the course is still paused
+}
+
+// An earlier run of a medication whose course was restarted
+export interface PastCourse {
+  startDate: string;
+  endedAt: string;
+  status: "completed" | "discontinued";
+  reason?: string;
+}
+
+export type EscalationChannel = "sms" | "whatsapp";
+
+// What happens when a dose isn't logged `windowMinutes` after its reminder:
+// the reminder is repeated, and one window later the emergency contact is messaged
+export interface EscalationRule {
+  enabled: boolean;
+  windowMinutes: number;
+  channel: EscalationChannel;
+}
+
+// Snapshot of a regimen that was replaced by an edit
+export interface MedicationVersion {
+  effectiveFrom: string;
+  effectiveTo: string;
+  dosage: string;
+  dose?: StructuredDosage;
+  times: string[];
+  schedule?: MedicationSchedule;
+  duration: string;
+  currentSupply: number;
+  totalSupply: number;
+  refillAt: number;
+}
+
+export interface ContraindicationOverride {
+  source: "allergy" | "condition";
+  trigger: string; // The allergy or condition from the user profile
+  ingredient: string;
+  level: "block" | "warn";
+  reason: string;
+  overriddenAt: string;
+}
 
 export interface Medication {
   id: string;
   name: string;
-  dosage: string;
+  dosage: string; // Strength as written, e.g. "500mg"
+  dose?: StructuredDosage; // Missing on older medications, see getStructuredDosage
   times: string[];
+  schedule?: MedicationSchedule;
   startDate: string;
   duration: string;
   color: string;
   reminderEnabled: boolean;
-  currentSupply: number;
+  currentSupply: number; // In the dose unit, like totalSupply and refillAt
   totalSupply: number;
   refillAt: number;
   refillReminder: boolean;
   lastRefillDate?: string;
+  effectiveFrom?: string; // When the current regimen took effect, defaults to startDate
+  versions?: MedicationVersion[]; // Earlier regimens, oldest first
+  contraindicationOverrides?: ContraindicationOverride[]; // Conflicts the user chose to proceed past
+  timezonePolicy?: TimezonePolicy; // Defaults to "wallClock"
+  escalation?: EscalationRule; // For critical medications, off when missing
+  status?: CourseStatus; // See getCourseStatus
+  endedAt?: string; // When a completed or discontinued course stopped
+  discontinuedReason?: string;
+  pauses?: CoursePause[];
+  pastCourses?: PastCourse[]; // Oldest first
+  foodTiming?: FoodTiming;
+  prescriptionId?: string; // The scanned prescription it was added from, see utils/prescriptions.ts
 }
 
+export type DoseStatus = "taken" | "skipped" | "snoozed" | "missed";
+
 export interface DoseHistory {
   id: string;
   medicationId: string;
   timestamp: string;
-  taken: boolean;
+  taken: boolean; // Kept in sync with status for older readers
+  status?: DoseStatus; // Missing on older entries, see getDoseStatus
+  reason?: string; // Why a dose was skipped
   scheduledTime?: string; // Add this to track which scheduled time this dose was for
+  asNeeded?: boolean; // Taken as needed (PRN), outside any schedule
+  amount?: number; // Supply used by a taken dose, in the medication's unit; 1 on older entries
+  timezone?: string; // IANA zone the device was in when the entry was logged
+}
+
+export type RefillEntryType = "opening" | "refill" | "adjustment";
+
+// One line of a medication's supply ledger. The "opening" entry holds the
+// stock the ledger started from; only doses taken after it are subtracted.
+export interface RefillEntry {
+  id: string;
+  medicationId: string;
+  type: RefillEntryType;
+  date: string;
+  quantity: number; // Units added, negative for downward corrections
+  pharmacy?: string;
+  price?: number;
+  batchNumber?: string;
+  expiryDate?: string;
+}
+
+export type EscalationStep = "renotify" | "contact";
+
+export interface EscalationEntry {
+  id: string;
+  medicationId: string;
+  slot: string; // When the dose that wasn't logged was due
+  scheduledTime: string;
+  step: EscalationStep;
+  timestamp: string;
+  channel?: EscalationChannel; // How the emergency contact was messaged
+  contactName?: string;
+  dismissed?: boolean; // The message was offered but not sent
 }
 
-export async function getMedications(): Promise<Medication[]> {
+export type RefillDetails = Pick<
+  RefillEntry,
+  "date" | "quantity" | "pharmacy" | "price" | "batchNumber" | "expiryDate"
+>;
+
+// Lists below belong to one person; `personId` defaults to the active one.
+// Functions taking a medication id work on whoever that medication belongs to.
+// Every change goes through writeTransaction, so changes made at the same time
+// (e.g. a notification action and a tap) are applied one after the other.
+
+export async function getMedications(personId?: string): Promise<Medication[]> {
   try {
-    const data = await AsyncStorage.getItem(MEDICATIONS_KEY);
-    return data ? JSON.parse(data) : [];
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>(
+      "SELECT data FROM medications WHERE person_id = ? ORDER BY position",
+      personId ?? (await getActivePersonId())
+    );
+    return parseRows<Medication>(rows);
   } catch (error) {
     console.error("Error getting medications:", error);
     return [];
   }
 }
 
-export async function addMedication(medication: Medication): Promise<void> {
+async function findMedication(medicationId: string): Promise<Medication | undefined> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ data: string }>(
+    "SELECT data FROM medications WHERE id = ?",
+    medicationId
+  );
+  return row ? JSON.parse(row.data) : undefined;
+}
+
+/**
+ * Id of the person the medication belongs to, the active person when it isn't found
+ */
+export async function getMedicationOwner(medicationId: string): Promise<string> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ person_id: string }>(
+    "SELECT person_id FROM medications WHERE id = ?",
+    medicationId
+  );
+  return row?.person_id ?? (await getActivePersonId());
+}
+
+export async function addMedication(
+  medication: Medication,
+  personId?: string
+): Promise<void> {
   try {
-    const medications = await getMedications();
-    medications.push(medication);
-    await AsyncStorage.setItem(MEDICATIONS_KEY, JSON.stringify(medications));
+    const ownerId = personId ?? (await getActivePersonId());
+    await writeTransaction(async (db) => {
+      const last = await db.getFirstAsync<{ position: number | null }>(
+        "SELECT MAX(position) AS position FROM medications WHERE person_id = ?",
+        ownerId
+      );
+      await writeMedication(db, medication, ownerId, (last?.position ?? -1) + 1);
+      await writeRefillEntry(db, openingEntry(medication.id, medication.currentSupply), ownerId);
+    });
   } catch (error) {
     console.error("Error adding medication:", error);
     throw error;
@@ -52,94 +263,795 @@ export async function updateMedication(
   updatedMedication: Medication
 ): Promise<void> {
   try {
-    const medications = await getMedications();
-    const index = medications.findIndex(
-      (med) => med.id === updatedMedication.id
-    );
-    if (index !== -1) {
-      medications[index] = updatedMedication;
-      await AsyncStorage.setItem(MEDICATIONS_KEY, JSON.stringify(medications));
-    }
+    await writeTransaction((db) => saveMedication(db, updatedMedication));
   } catch (error) {
     console.error("Error updating medication:", error);
     throw error;
   }
 }
 
+// Only for use inside a write transaction; does nothing when the medication was deleted
+async function saveMedication(db: SQLiteDatabase, medication: Medication): Promise<void> {
+  await db.runAsync(
+    "UPDATE medications SET data = ? WHERE id = ?",
+    JSON.stringify(medication),
+    medication.id
+  );
+}
+
+function hasRegimenChanged(previous: Medication, updated: Medication): boolean {
+  return (
+    previous.dosage !== updated.dosage ||
+    JSON.stringify(previous.dose) !== JSON.stringify(updated.dose) ||
+    previous.duration !== updated.duration ||
+    previous.currentSupply !== updated.currentSupply ||
+    previous.totalSupply !== updated.totalSupply ||
+    previous.refillAt !== updated.refillAt ||
+    JSON.stringify(previous.times) !== JSON.stringify(updated.times) ||
+    JSON.stringify(previous.schedule) !== JSON.stringify(updated.schedule)
+  );
+}
+
+// Saves an edit, keeping the replaced regimen in `versions` when dosage,
+// times, schedule or supply changed. `effectiveFrom` is when the new regimen starts.
+export async function editMedication(
+  updatedMedication: Medication,
+  effectiveFrom: Date
+): Promise<Medication> {
+  try {
+    return await writeTransaction((db) => saveEdit(db, updatedMedication, effectiveFrom));
+  } catch (error) {
+    console.error("Error editing medication:", error);
+    throw error;
+  }
+}
+
+async function saveEdit(
+  db: SQLiteDatabase,
+  updatedMedication: Medication,
+  effectiveFrom: Date
+): Promise<Medication> {
+  const previous = await findMedication(updatedMedication.id);
+  if (!previous) {
+    throw new Error(`Medication ${updatedMedication.id} not found`);
+  }
+
+  if (!hasRegimenChanged(previous, updatedMedication)) {
+    const unchangedRegimen = {
+      ...updatedMedication,
+      effectiveFrom: previous.effectiveFrom,
+      versions: previous.versions,
+    };
+    await saveMedication(db, unchangedRegimen);
+    return unchangedRegimen;
+  }
+
+  const version: MedicationVersion = {
+    effectiveFrom: previous.effectiveFrom ?? previous.startDate,
+    effectiveTo: effectiveFrom.toISOString(),
+    dosage: previous.dosage,
+    dose: previous.dose,
+    times: previous.times,
+    schedule: previous.schedule,
+    duration: previous.duration,
+    currentSupply: previous.currentSupply,
+    totalSupply: previous.totalSupply,
+    refillAt: previous.refillAt,
+  };
+
+  const edited: Medication = {
+    ...updatedMedication,
+    effectiveFrom: effectiveFrom.toISOString(),
+    versions: [...(previous.versions ?? []), version],
+  };
+  await saveMedication(db, edited);
+  if (previous.currentSupply !== edited.currentSupply) {
+    await adjustSupply(db, edited.id, edited.currentSupply);
+  }
+  return edited;
+}
+
+/**
+ * Moves the medication and its dose history to the trash, see utils/trash.ts.
+ * Its refill entries stay in the log so a restored supply adds up. Reminders
+ * are left to the caller to cancel.
+ */
 export async function deleteMedication(id: string): Promise<void> {
   try {
-    const medications = await getMedications();
-    const updatedMedications = medications.filter((med) => med.id !== id);
-    await AsyncStorage.setItem(
-      MEDICATIONS_KEY,
-      JSON.stringify(updatedMedications)
-    );
+    await writeTransaction(async (db) => {
+      const row = await db.getFirstAsync<{ person_id: string; data: string }>(
+        "SELECT person_id, data FROM medications WHERE id = ?",
+        id
+      );
+      if (!row) return;
+
+      const medication: Medication = JSON.parse(row.data);
+      const doses = parseRows<DoseHistory>(
+        await db.getAllAsync<{ data: string }>(
+          "SELECT data FROM doses WHERE medication_id = ? ORDER BY rowid",
+          id
+        )
+      );
+      await writeTrashEntry(db, {
+        id: Math.random().toString(36).substr(2, 9),
+        kind: "medication",
+        personId: row.person_id,
+        deletedAt: new Date().toISOString(),
+        label: medication.name,
+        records: { medications: [medication], doses, refillLog: [] },
+      });
+      await db.runAsync("DELETE FROM doses WHERE medication_id = ?", id);
+      await db.runAsync("DELETE FROM medications WHERE id = ?", id);
+    });
   } catch (error) {
     console.error("Error deleting medication:", error);
     throw error;
   }
 }
 
-export async function getDoseHistory(): Promise<DoseHistory[]> {
+// In the order the entries were logged
+export async function getDoseHistory(personId?: string): Promise<DoseHistory[]> {
   try {
-    const data = await AsyncStorage.getItem(DOSE_HISTORY_KEY);
-    return data ? JSON.parse(data) : [];
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>(
+      "SELECT data FROM doses WHERE person_id = ? ORDER BY rowid",
+      personId ?? (await getActivePersonId())
+    );
+    return parseRows<DoseHistory>(rows);
   } catch (error) {
     console.error("Error getting dose history:", error);
     return [];
   }
 }
 
-export async function getTodaysDoses(): Promise<DoseHistory[]> {
+/**
+ * Entries logged from `from` up to (not including) `to`, oldest first
+ */
+export async function getDosesBetween(
+  from: Date,
+  to: Date,
+  personId?: string
+): Promise<DoseHistory[]> {
   try {
-    const history = await getDoseHistory();
-    const today = new Date().toDateString();
-    return history.filter(
-      (dose) => new Date(dose.timestamp).toDateString() === today
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>(
+      `SELECT data FROM doses
+       WHERE person_id = ? AND timestamp >= ? AND timestamp < ?
+       ORDER BY timestamp`,
+      personId ?? (await getActivePersonId()),
+      from.toISOString(),
+      to.toISOString()
     );
+    return parseRows<DoseHistory>(rows);
   } catch (error) {
-    console.error("Error getting today's doses:", error);
+    console.error("Error getting doses:", error);
     return [];
   }
 }
 
+export async function getTodaysDoses(personId?: string): Promise<DoseHistory[]> {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return getDosesBetween(start, end, personId);
+}
+
+async function findDose(doseId: string): Promise<DoseHistory | undefined> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ data: string }>(
+    "SELECT data FROM doses WHERE id = ?",
+    doseId
+  );
+  return row ? JSON.parse(row.data) : undefined;
+}
+
+export function getDoseStatus(dose: DoseHistory): DoseStatus {
+  return dose.status ?? (dose.taken ? "taken" : "missed");
+}
+
+function isSameSlot(
+  dose: DoseHistory,
+  medicationId: string,
+  timestamp: string,
+  scheduledTime: string
+): boolean {
+  return (
+    dose.medicationId === medicationId &&
+    dose.scheduledTime === scheduledTime &&
+    new Date(dose.timestamp).toDateString() ===
+      new Date(timestamp).toDateString()
+  );
+}
+
 export async function recordDose(
   medicationId: string,
-  taken: boolean,
+  status: DoseStatus,
   timestamp: string,
-  scheduledTime?: string
+  scheduledTime?: string,
+  reason?: string
 ): Promise<void> {
   try {
-    const history = await getDoseHistory();
-    const newDose: DoseHistory = {
-      id: Math.random().toString(36).substr(2, 9),
+    const ownerId = await getMedicationOwner(medicationId);
+
+    // The dose and the supply it uses are saved together or not at all
+    await writeTransaction(async (db) => {
+      const newDose: DoseHistory = {
+        id: Math.random().toString(36).substr(2, 9),
+        medicationId,
+        timestamp,
+        taken: status === "taken",
+        status,
+        reason,
+        scheduledTime,
+        timezone: getDeviceTimezone(),
+        ...(status === "taken" && {
+          amount: await getTakenAmount(medicationId, timestamp),
+        }),
+      };
+
+      // A snoozed or missed slot is superseded by whatever the user logs for it next
+      if (scheduledTime) {
+        const slotDoses = parseRows<DoseHistory>(
+          await db.getAllAsync<{ data: string }>(
+            "SELECT data FROM doses WHERE medication_id = ? AND scheduled_time = ?",
+            medicationId,
+            scheduledTime
+          )
+        );
+        for (const dose of slotDoses) {
+          if (
+            isSameSlot(dose, medicationId, timestamp, scheduledTime) &&
+            (getDoseStatus(dose) === "snoozed" || getDoseStatus(dose) === "missed")
+          ) {
+            await db.runAsync("DELETE FROM doses WHERE id = ?", dose.id);
+          }
+        }
+      }
+
+      await writeDose(db, newDose, ownerId);
+      if (newDose.amount !== undefined) {
+        await decrementSupply(db, medicationId, newDose.amount, ownerId);
+      }
+    });
+  } catch (error) {
+    console.error("Error recording dose:", error);
+    throw error;
+  }
+}
+
+async function getTakenAmount(medicationId: string, timestamp: string): Promise<number> {
+  const medication = await findMedication(medicationId);
+  return medication ? getDoseAmountForDate(medication, new Date(timestamp)) : 1;
+}
+
+// `amount` is negative when a taken dose is undone and its supply given back
+async function decrementSupply(
+  db: SQLiteDatabase,
+  medicationId: string,
+  amount: number,
+  ownerId: string
+): Promise<void> {
+  if ((await getLedger(db, medicationId)).length > 0) {
+    await syncSupply(db, medicationId);
+    return;
+  }
+
+  // Medications from before the ledger existed keep a plain counter
+  const medication = await findMedication(medicationId);
+  if (medication && amount !== 0 && (medication.currentSupply > 0 || amount < 0)) {
+    medication.currentSupply = Math.max(0, medication.currentSupply - amount);
+    await saveMedication(db, medication);
+  }
+}
+
+export type DoseChanges = Partial<Pick<DoseHistory, "status" | "timestamp" | "reason">>;
+
+/**
+ * Corrects a logged dose's status, time or reason. A dose that becomes taken
+ * uses up supply, and one that no longer is gives it back.
+ */
+export async function updateDose(
+  medicationId: string,
+  doseId: string,
+  changes: DoseChanges
+): Promise<DoseHistory> {
+  try {
+    const ownerId = await getMedicationOwner(medicationId);
+    return await writeTransaction(async (db) => {
+      const previous = await findDose(doseId);
+      if (!previous) {
+        throw new Error(`Dose ${doseId} not found`);
+      }
+
+      const wasTaken = getDoseStatus(previous) === "taken";
+      const status = changes.status ?? getDoseStatus(previous);
+      const timestamp = changes.timestamp ?? previous.timestamp;
+      const isTaken = status === "taken";
+
+      const updated: DoseHistory = {
+        ...previous,
+        ...changes,
+        status,
+        taken: isTaken,
+        amount: isTaken
+          ? wasTaken
+            ? previous.amount
+            : await getTakenAmount(medicationId, timestamp)
+          : undefined,
+      };
+      await db.runAsync(
+        "UPDATE doses SET timestamp = ?, data = ? WHERE id = ?",
+        updated.timestamp,
+        JSON.stringify(updated),
+        doseId
+      );
+
+      if (wasTaken || isTaken) {
+        const used = (isTaken ? updated.amount ?? 1 : 0) - (wasTaken ? previous.amount ?? 1 : 0);
+        await decrementSupply(db, medicationId, used, ownerId);
+      }
+      return updated;
+    });
+  } catch (error) {
+    console.error("Error updating dose:", error);
+    throw error;
+  }
+}
+
+/**
+ * Removes a logged dose, giving back the supply a taken dose used
+ */
+export async function deleteDose(medicationId: string, doseId: string): Promise<void> {
+  try {
+    const ownerId = await getMedicationOwner(medicationId);
+    await writeTransaction(async (db) => {
+      const dose = await findDose(doseId);
+      if (!dose) return;
+
+      await db.runAsync("DELETE FROM doses WHERE id = ?", doseId);
+      if (getDoseStatus(dose) === "taken") {
+        await decrementSupply(db, medicationId, -(dose.amount ?? 1), ownerId);
+      }
+    });
+  } catch (error) {
+    console.error("Error deleting dose:", error);
+    throw error;
+  }
+}
+
+/**
+ * Logs an as-needed (PRN) dose. These have no scheduled slot and don't count towards adherence.
+ */
+export async function recordAsNeededDose(
+  medicationId: string,
+  timestamp: string,
+  reason?: string
+): Promise<void> {
+  try {
+    const ownerId = await getMedicationOwner(medicationId);
+    await writeTransaction(async (db) => {
+      const amount = await getTakenAmount(medicationId, timestamp);
+      await writeDose(
+        db,
+        {
+          id: Math.random().toString(36).substr(2, 9),
+          medicationId,
+          timestamp,
+          taken: true,
+          status: "taken",
+          reason,
+          asNeeded: true,
+          amount,
+          timezone: getDeviceTimezone(),
+        },
+        ownerId
+      );
+      await decrementSupply(db, medicationId, amount, ownerId);
+    });
+  } catch (error) {
+    console.error("Error recording as-needed dose:", error);
+    throw error;
+  }
+}
+
+export async function getEscalationLog(personId?: string): Promise<EscalationEntry[]> {
+  try {
+    const data = await AsyncStorage.getItem(await getPersonKey(ESCALATION_LOG_KEY, personId));
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error("Error getting escalation log:", error);
+    return [];
+  }
+}
+
+export async function addEscalationEntries(
+  entries: EscalationEntry[],
+  personId?: string
+): Promise<void> {
+  if (entries.length === 0) return;
+  try {
+    const key = await getPersonKey(ESCALATION_LOG_KEY, personId);
+    await queueWrite(key, async () => {
+      const data = await AsyncStorage.getItem(key);
+      const log: EscalationEntry[] = data ? JSON.parse(data) : [];
+      // Entries restored from the trash may already be there
+      const logged = new Set(log.map((entry) => entry.id));
+      const added = entries.filter((entry) => !logged.has(entry.id));
+      await AsyncStorage.setItem(key, JSON.stringify([...log, ...added]));
+    });
+  } catch (error) {
+    console.error("Error adding escalation entries:", error);
+    throw error;
+  }
+}
+
+// Escalations refer to doses, so the log goes when the dose history does
+export async function clearEscalationLog(personId?: string): Promise<void> {
+  await AsyncStorage.removeItem(await getPersonKey(ESCALATION_LOG_KEY, personId));
+}
+
+// In the order the entries were logged
+export async function getRefillLog(personId?: string): Promise<RefillEntry[]> {
+  try {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>(
+      "SELECT data FROM refills WHERE person_id = ? ORDER BY rowid",
+      personId ?? (await getActivePersonId())
+    );
+    return parseRows<RefillEntry>(rows);
+  } catch (error) {
+    console.error("Error getting refill log:", error);
+    return [];
+  }
+}
+
+// One medication's ledger entries; inside a write transaction, so errors are left to roll it back
+async function getLedger(db: SQLiteDatabase, medicationId: string): Promise<RefillEntry[]> {
+  return parseRows<RefillEntry>(
+    await db.getAllAsync<{ data: string }>(
+      "SELECT data FROM refills WHERE medication_id = ? ORDER BY rowid",
+      medicationId
+    )
+  );
+}
+
+function openingEntry(medicationId: string, quantity: number): RefillEntry {
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    medicationId,
+    type: "opening",
+    date: new Date().toISOString(),
+    quantity,
+  };
+}
+
+/**
+ * Supply according to the ledger: everything added minus doses taken since
+ * the opening entry. Doses dated before the opening (backfilled, or edited to
+ * an earlier time) are left out, as the opening stock was counted after them.
+ * Null when the medication has no ledger yet.
+ */
+async function computeSupply(db: SQLiteDatabase, medicationId: string): Promise<number | null> {
+  const entries = await getLedger(db, medicationId);
+  const opening = entries.find((entry) => entry.type === "opening");
+  if (!opening) return null;
+
+  const added = entries.reduce((total, entry) => total + entry.quantity, 0);
+  // Only this medication's doses since the opening, read through doses_medication_timestamp
+  const doses = parseRows<DoseHistory>(
+    await db.getAllAsync<{ data: string }>(
+      "SELECT data FROM doses WHERE medication_id = ? AND timestamp >= ?",
       medicationId,
-      timestamp,
-      taken,
-      scheduledTime,
-    };
+      opening.date
+    )
+  );
+  const taken = doses
+    .filter((dose) => getDoseStatus(dose) === "taken")
+    .reduce((total, dose) => total + (dose.amount ?? 1), 0);
+  return Math.max(0, added - taken);
+}
 
-    history.push(newDose);
-    await AsyncStorage.setItem(DOSE_HISTORY_KEY, JSON.stringify(history));
+// Writes the ledger supply back to `currentSupply`, which the rest of the app reads
+async function syncSupply(
+  db: SQLiteDatabase,
+  medicationId: string,
+  changes: Partial<Medication> = {}
+): Promise<Medication | undefined> {
+  const medication = await findMedication(medicationId);
+  if (!medication) return undefined;
 
-    // Update medication supply if taken
-    if (taken) {
-      const medications = await getMedications();
-      const medication = medications.find((med) => med.id === medicationId);
-      if (medication && medication.currentSupply > 0) {
-        medication.currentSupply -= 1;
-        await updateMedication(medication);
+  const supply = await computeSupply(db, medicationId);
+  const synced: Medication = {
+    ...medication,
+    ...changes,
+    currentSupply: supply ?? medication.currentSupply,
+  };
+  synced.totalSupply = Math.max(synced.totalSupply, synced.currentSupply);
+  await saveMedication(db, synced);
+  return synced;
+}
+
+/**
+ * Adds a (possibly partial) refill to the ledger and returns the medication
+ * with its recomputed supply. Medications without a ledger get one opened
+ * from their current supply first.
+ */
+export async function recordRefill(
+  medicationId: string,
+  details: RefillDetails
+): Promise<Medication | undefined> {
+  try {
+    const ownerId = await getMedicationOwner(medicationId);
+    return await writeTransaction(async (db) => {
+      const medication = await findMedication(medicationId);
+      if (!medication) {
+        throw new Error(`Medication ${medicationId} not found`);
+      }
+
+      const existing = await getLedger(db, medicationId);
+      if (!existing.some((entry) => entry.type === "opening")) {
+        await writeRefillEntry(db, openingEntry(medicationId, medication.currentSupply), ownerId);
       }
+
+      await writeRefillEntry(
+        db,
+        {
+          ...details,
+          id: Math.random().toString(36).substr(2, 9),
+          medicationId,
+          type: "refill",
+        },
+        ownerId
+      );
+
+      const lastRefillDate =
+        medication.lastRefillDate && medication.lastRefillDate > details.date
+          ? medication.lastRefillDate
+          : details.date;
+      return await syncSupply(db, medicationId, { lastRefillDate });
+    });
+  } catch (error) {
+    console.error("Error recording refill:", error);
+    throw error;
+  }
+}
+
+// Records a manual supply correction (e.g. from the edit screen) as a ledger adjustment
+async function adjustSupply(
+  db: SQLiteDatabase,
+  medicationId: string,
+  supply: number
+): Promise<void> {
+  const computed = await computeSupply(db, medicationId);
+  if (computed === null || computed === supply) return;
+
+  await writeRefillEntry(
+    db,
+    {
+      id: Math.random().toString(36).substr(2, 9),
+      medicationId,
+      type: "adjustment",
+      date: new Date().toISOString(),
+      quantity: supply - computed,
+    },
+    await getMedicationOwner(medicationId)
+  );
+  await syncSupply(db, medicationId);
+}
+
+/**
+ * Brings `currentSupply` back between 0 and `totalSupply`: a negative supply
+ * is corrected to 0 (through the ledger when there is one), and a supply over
+ * the total raises the total, as syncSupply does
+ */
+export async function repairSupply(medicationId: string): Promise<void> {
+  try {
+    await writeTransaction(async (db) => {
+      const medication = await findMedication(medicationId);
+      if (!medication) return;
+      if (medication.currentSupply < 0) {
+        await adjustSupply(db, medicationId, 0);
+      }
+
+      const current = (await findMedication(medicationId)) ?? medication;
+      const supply = Math.max(0, current.currentSupply);
+      await saveMedication(db, {
+        ...current,
+        currentSupply: supply,
+        totalSupply: Math.max(current.totalSupply, supply),
+      });
+    });
+  } catch (error) {
+    console.error("Error repairing supply:", error);
+    throw error;
+  }
+}
+
+// Everything a backup holds for one person from this module
+export interface PersonRecords {
+  medications: Medication[];
+  doses: DoseHistory[];
+  refillLog: RefillEntry[];
+}
+
+export type TrashKind = "medication" | "doses" | "clearedData";
+
+// Records taken out by deleteMedication or clearAllData, restorable for a while
+export interface TrashEntry {
+  id: string;
+  kind: TrashKind;
+  personId: string;
+  deletedAt: string;
+  label: string;
+  records: PersonRecords;
+  escalationLog?: EscalationEntry[]; // Only for cleared data
+}
+
+export async function getPersonRecords(personId: string): Promise<PersonRecords> {
+  const [medications, doses, refillLog] = await Promise.all([
+    getMedications(personId),
+    getDoseHistory(personId),
+    getRefillLog(personId),
+  ]);
+  return { medications, doses, refillLog };
+}
+
+/**
+ * Saves records restored from a backup. "replace" drops what the person had
+ * first; "merge" keeps existing records and only adds ones with a new id.
+ */
+export async function importPersonRecords(
+  records: PersonRecords,
+  personId: string,
+  mode: "merge" | "replace"
+): Promise<void> {
+  try {
+    await writeTransaction((db) => writePersonRecords(db, records, personId, mode));
+    if (mode === "replace") {
+      await clearEscalationLog(personId);
     }
   } catch (error) {
-    console.error("Error recording dose:", error);
+    console.error("Error importing records:", error);
+    throw error;
+  }
+}
+
+/**
+ * The database part of importPersonRecords, for callers saving more in the same transaction
+ */
+export async function writePersonRecords(
+  db: SQLiteDatabase,
+  records: PersonRecords,
+  personId: string,
+  mode: "merge" | "replace"
+): Promise<void> {
+  if (mode === "replace") {
+    await db.runAsync("DELETE FROM medications WHERE person_id = ?", personId);
+    await db.runAsync("DELETE FROM doses WHERE person_id = ?", personId);
+    await db.runAsync("DELETE FROM refills WHERE person_id = ?", personId);
+  }
+
+  const medicationIds = new Set(
+    (await db.getAllAsync<{ id: string }>("SELECT id FROM medications")).map((row) => row.id)
+  );
+  const last = await db.getFirstAsync<{ position: number | null }>(
+    "SELECT MAX(position) AS position FROM medications WHERE person_id = ?",
+    personId
+  );
+  let position = (last?.position ?? -1) + 1;
+  for (const medication of records.medications) {
+    if (medicationIds.has(medication.id)) continue;
+    await writeMedication(db, medication, personId, position++);
+  }
+
+  const doseIds = new Set(
+    (await db.getAllAsync<{ id: string }>("SELECT id FROM doses")).map((row) => row.id)
+  );
+  for (const dose of records.doses) {
+    if (doseIds.has(dose.id)) continue;
+    await writeDose(db, dose, personId);
+  }
+
+  const entryIds = new Set(
+    (await db.getAllAsync<{ id: string }>("SELECT id FROM refills")).map((row) => row.id)
+  );
+  for (const entry of records.refillLog) {
+    if (entryIds.has(entry.id)) continue;
+    await writeRefillEntry(db, entry, personId);
+  }
+}
+
+/**
+ * Moves dose entries to the trash on their own, e.g. ones whose medication
+ * no longer exists
+ */
+export async function moveDosesToTrash(
+  doseIds: string[],
+  personId: string,
+  label: string
+): Promise<void> {
+  try {
+    await writeTransaction(async (db) => {
+      const doses: DoseHistory[] = [];
+      for (const id of doseIds) {
+        const dose = await findDose(id);
+        if (dose) doses.push(dose);
+      }
+      if (doses.length === 0) return;
+
+      await writeTrashEntry(db, {
+        id: Math.random().toString(36).substr(2, 9),
+        kind: "doses",
+        personId,
+        deletedAt: new Date().toISOString(),
+        label,
+        records: { medications: [], doses, refillLog: [] },
+      });
+      for (const dose of doses) {
+        await db.runAsync("DELETE FROM doses WHERE id = ?", dose.id);
+      }
+    });
+  } catch (error) {
+    console.error("Error moving doses to trash:", error);
     throw error;
   }
 }
 
+/**
+ * Clears the active person's medications, history, refills and escalation log.
+ * A snapshot of them goes to the trash first; reminders are left to the caller to cancel.
+ */
 export async function clearAllData(): Promise<void> {
   try {
-    await AsyncStorage.multiRemove([MEDICATIONS_KEY, DOSE_HISTORY_KEY]);
+    const personId = await getActivePersonId();
+    const escalationKey = await getPersonKey(ESCALATION_LOG_KEY, personId);
+    // Held for the whole clear, so an escalation logged meanwhile goes into the snapshot
+    await queueWrite(escalationKey, async () => {
+      const stored = await AsyncStorage.getItem(escalationKey);
+      const escalationLog: EscalationEntry[] = stored ? JSON.parse(stored) : [];
+      await writeTransaction(async (db) => {
+        const medications = parseRows<Medication>(
+          await db.getAllAsync<{ data: string }>(
+            "SELECT data FROM medications WHERE person_id = ? ORDER BY position",
+            personId
+          )
+        );
+        const doses = parseRows<DoseHistory>(
+          await db.getAllAsync<{ data: string }>(
+            "SELECT data FROM doses WHERE person_id = ? ORDER BY rowid",
+            personId
+          )
+        );
+        const refillLog = parseRows<RefillEntry>(
+          await db.getAllAsync<{ data: string }>(
+            "SELECT data FROM refills WHERE person_id = ? ORDER BY rowid",
+            personId
+          )
+        );
+        if (
+          medications.length > 0 ||
+          doses.length > 0 ||
+          refillLog.length > 0 ||
+          escalationLog.length > 0
+        ) {
+          await writeTrashEntry(db, {
+            id: Math.random().toString(36).substr(2, 9),
+            kind: "clearedData",
+            personId,
+            deletedAt: new Date().toISOString(),
+            label: "All medications and history",
+            records: { medications, doses, refillLog },
+            escalationLog,
+          });
+        }
+
+        await db.runAsync("DELETE FROM medications WHERE person_id = ?", personId);
+        await db.runAsync("DELETE FROM doses WHERE person_id = ?", personId);
+        await db.runAsync("DELETE FROM refills WHERE person_id = ?", personId);
+      });
+      await AsyncStorage.removeItem(escalationKey);
+    });
   } catch (error) {
     console.error("Error clearing data:", error);
     throw error;
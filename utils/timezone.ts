@@ -0,0 +1,149 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Medication, TimezonePolicy } from "./storage";
+
+const HOME_TIMEZONE_KEY = "home_timezone";
+const LAST_TIMEZONE_KEY = "last_seen_timezone";
+
+export const TIMEZONE_POLICIES: {
+  policy: TimezonePolicy;
+  label: string;
+  description: string;
+}[] = [
+  {
+    policy: "wallClock",
+    label: "Keep clock time",
+    description: "Take at the same local time wherever you are (e.g. 9 AM)",
+  },
+  {
+    policy: "homeTimezone",
+    label: "Keep home time",
+    description: "Keep the same gap between doses, timed in your home time zone",
+  },
+];
+
+export interface TimezoneChange {
+  previous: string;
+  current: string;
+}
+
+export function getDeviceTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+export function getTimezonePolicy(medication: Medication): TimezonePolicy {
+  return medication.timezonePolicy ?? "wallClock";
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given moment, e.g. 330 for Asia/Kolkata
+ */
+export function getTimezoneOffsetMinutes(timeZone: string, at: Date = new Date()): number {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).formatToParts(at);
+    const value = (type: string) =>
+      Number(parts.find((part) => part.type === type)?.value);
+    const asUtc = Date.UTC(
+      value("year"),
+      value("month") - 1,
+      value("day"),
+      value("hour"),
+      value("minute")
+    );
+    return Math.round((asUtc - Math.floor(at.getTime() / 60000) * 60000) / 60000);
+  } catch (error) {
+    console.error("Error reading time zone offset:", error);
+    return -at.getTimezoneOffset();
+  }
+}
+
+export async function getHomeTimezone(): Promise<string> {
+  try {
+    const saved = await AsyncStorage.getItem(HOME_TIMEZONE_KEY);
+    if (saved) return saved;
+
+    // The zone the app is first used in becomes home
+    const current = getDeviceTimezone();
+    await AsyncStorage.setItem(HOME_TIMEZONE_KEY, current);
+    return current;
+  } catch (error) {
+    console.error("Error getting home time zone:", error);
+    return getDeviceTimezone();
+  }
+}
+
+export async function setHomeTimezone(timeZone: string): Promise<void> {
+  try {
+    await AsyncStorage.setItem(HOME_TIMEZONE_KEY, timeZone);
+  } catch (error) {
+    console.error("Error setting home time zone:", error);
+  }
+}
+
+/**
+ * Moves a dose planned on the local clock to the same clock time in the home
+ * zone. Returns the date unchanged while the device is in its home zone.
+ */
+export function toHomeTime(date: Date, homeTimezone: string): Date {
+  const localOffset = -date.getTimezoneOffset();
+  const shiftMinutes = getTimezoneOffsetMinutes(homeTimezone, date) - localOffset;
+  return new Date(date.getTime() - shiftMinutes * 60 * 1000);
+}
+
+export function isAwayFromHome(homeTimezone: string, at: Date = new Date()): boolean {
+  return getTimezoneOffsetMinutes(homeTimezone, at) !== -at.getTimezoneOffset();
+}
+
+/**
+ * Compares the device zone with the one seen last time and remembers the new one.
+ * Returns the change, or null when the zone is the same (or on first run).
+ */
+export async function detectTimezoneChange(): Promise<TimezoneChange | null> {
+  try {
+    const current = getDeviceTimezone();
+    const previous = await AsyncStorage.getItem(LAST_TIMEZONE_KEY);
+    if (previous === current) return null;
+
+    await AsyncStorage.setItem(LAST_TIMEZONE_KEY, current);
+    return previous ? { previous, current } : null;
+  } catch (error) {
+    console.error("Error detecting time zone change:", error);
+    return null;
+  }
+}
+
+/**
+ * Body of the "time zone changed" prompt: which medications follow the new
+ * local clock and which stay on home time.
+ */
+export function describeTimezoneChange(
+  change: TimezoneChange,
+  medications: Medication[]
+): string {
+  const scheduled = medications.filter(
+    (med) => med.reminderEnabled && med.times.length > 0
+  );
+  const keepHome = scheduled.filter((med) => getTimezonePolicy(med) === "homeTimezone");
+  const keepClock = scheduled.filter((med) => getTimezonePolicy(med) === "wallClock");
+
+  const lines = [`Your phone moved from ${change.previous} to ${change.current}. Reminders have been re-planned.`];
+  if (keepClock.length > 0) {
+    lines.push(`Same local clock time: ${keepClock.map((med) => med.name).join(", ")}`);
+  }
+  if (keepHome.length > 0) {
+    lines.push(`Still on home time: ${keepHome.map((med) => med.name).join(", ")}`);
+  }
+  lines.push("Please review your schedule.");
+  return lines.join("\n\n");
+}
@@ -0,0 +1,120 @@
+import {
+  Medication,
+  TrashEntry,
+  addEscalationEntries,
+  getMedications,
+  importPersonRecords,
+} from "./storage";
+import { getDatabase, parseRows, writeTransaction } from "./database";
+import { getActivePersonId } from "./people";
+import { updateMedicationReminders } from "./notifications";
+
+// Deleted medications and cleared history can be restored for this long
+export const TRASH_RETENTION_DAYS = 30;
+
+function getExpiryCutoff(now: Date = new Date()): string {
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() - TRASH_RETENTION_DAYS);
+  return cutoff.toISOString();
+}
+
+// When the entry is deleted for good
+export function getPurgeDate(entry: TrashEntry): Date {
+  const date = new Date(entry.deletedAt);
+  date.setDate(date.getDate() + TRASH_RETENTION_DAYS);
+  return date;
+}
+
+// Newest first; entries past TRASH_RETENTION_DAYS are left out
+export async function getTrash(personId?: string): Promise<TrashEntry[]> {
+  try {
+    const db = await getDatabase();
+    const rows = await db.getAllAsync<{ data: string }>(
+      `SELECT data FROM trash
+       WHERE person_id = ? AND deleted_at >= ?
+       ORDER BY deleted_at DESC`,
+      personId ?? (await getActivePersonId()),
+      getExpiryCutoff()
+    );
+    return parseRows<TrashEntry>(rows);
+  } catch (error) {
+    console.error("Error getting trash:", error);
+    return [];
+  }
+}
+
+async function findTrashEntry(entryId: string): Promise<TrashEntry | undefined> {
+  const db = await getDatabase();
+  const row = await db.getFirstAsync<{ data: string }>(
+    "SELECT data FROM trash WHERE id = ?",
+    entryId
+  );
+  return row ? JSON.parse(row.data) : undefined;
+}
+
+/**
+ * Puts the entry's records back and re-plans reminders for its medications.
+ * Records that exist again (e.g. restored twice) are kept as they are.
+ * Returns the medications that were restored.
+ */
+export async function restoreFromTrash(entryId: string): Promise<Medication[]> {
+  try {
+    const entry = await findTrashEntry(entryId);
+    if (!entry) {
+      throw new Error(`Trash entry ${entryId} not found`);
+    }
+
+    await importPersonRecords(entry.records, entry.personId, "merge");
+    await addEscalationEntries(entry.escalationLog ?? [], entry.personId);
+    await writeTransaction((db) => db.runAsync("DELETE FROM trash WHERE id = ?", entryId));
+
+    const restoredIds = new Set(entry.records.medications.map((medication) => medication.id));
+    const restored = (await getMedications(entry.personId)).filter((medication) =>
+      restoredIds.has(medication.id)
+    );
+    for (const medication of restored) {
+      await updateMedicationReminders(medication);
+    }
+    return restored;
+  } catch (error) {
+    console.error("Error restoring from trash:", error);
+    throw error;
+  }
+}
+
+export async function deleteFromTrash(entryId: string): Promise<void> {
+  try {
+    await writeTransaction((db) => db.runAsync("DELETE FROM trash WHERE id = ?", entryId));
+  } catch (error) {
+    console.error("Error deleting from trash:", error);
+    throw error;
+  }
+}
+
+export async function emptyTrash(personId?: string): Promise<void> {
+  try {
+    const ownerId = personId ?? (await getActivePersonId());
+    await writeTransaction((db) =>
+      db.runAsync("DELETE FROM trash WHERE person_id = ?", ownerId)
+    );
+  } catch (error) {
+    console.error("Error emptying trash:", error);
+    throw error;
+  }
+}
+
+/**
+ * Deletes entries older than TRASH_RETENTION_DAYS, for everyone on this phone.
+ * Returns how many were deleted.
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  try {
+    const result = await writeTransaction((db) =>
+      db.runAsync("DELETE FROM trash WHERE deleted_at < ?", getExpiryCutoff(now))
+    );
+    return result.changes;
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return 0;
+  }
+}
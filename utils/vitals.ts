@@ -0,0 +1,113 @@
+import type { SQLiteDatabase } from "expo-sqlite";
+import { getDatabase, toDateKey, writeTransaction, writeVital } from "./database";
+import { getActivePersonId } from "./people";
+
+// One reading per person, type and day: water in ml, heart rate in bpm, temperature in °C
+export type VitalType = "water" | "heartRate" | "temperature";
+
+export interface VitalReading {
+  date: string; // Local day, see toDateKey
+  value: number;
+}
+
+export interface TypedVitalReading extends VitalReading {
+  type: VitalType;
+}
+
+export async function getVital(
+  type: VitalType,
+  date: Date = new Date(),
+  personId?: string
+): Promise<number | null> {
+  try {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<{ value: number }>(
+      "SELECT value FROM vitals WHERE person_id = ? AND type = ? AND date = ?",
+      personId ?? (await getActivePersonId()),
+      type,
+      toDateKey(date)
+    );
+    return row?.value ?? null;
+  } catch (error) {
+    console.error("Error getting vital:", error);
+    return null;
+  }
+}
+
+export async function saveVital(
+  type: VitalType,
+  value: number,
+  date: Date = new Date(),
+  personId?: string
+): Promise<void> {
+  try {
+    const ownerId = personId ?? (await getActivePersonId());
+    await writeTransaction((db) => writeVital(db, ownerId, type, toDateKey(date), value));
+  } catch (error) {
+    console.error("Error saving vital:", error);
+    throw error;
+  }
+}
+
+/**
+ * Readings from `from` to `to`, both days included, oldest first
+ */
+export async function getVitalsBetween(
+  type: VitalType,
+  from: Date,
+  to: Date,
+  personId?: string
+): Promise<VitalReading[]> {
+  try {
+    const db = await getDatabase();
+    return await db.getAllAsync<VitalReading>(
+      `SELECT date, value FROM vitals
+       WHERE person_id = ? AND type = ? AND date BETWEEN ? AND ?
+       ORDER BY date`,
+      personId ?? (await getActivePersonId()),
+      type,
+      toDateKey(from),
+      toDateKey(to)
+    );
+  } catch (error) {
+    console.error("Error getting vitals:", error);
+    return [];
+  }
+}
+
+export async function getAllVitals(personId: string): Promise<TypedVitalReading[]> {
+  try {
+    const db = await getDatabase();
+    return await db.getAllAsync<TypedVitalReading>(
+      "SELECT type, date, value FROM vitals WHERE person_id = ? ORDER BY date",
+      personId
+    );
+  } catch (error) {
+    console.error("Error getting vitals:", error);
+    return [];
+  }
+}
+
+/**
+ * Saves readings restored from a backup, in the caller's transaction. "replace"
+ * drops the person's readings first; "merge" keeps the reading already saved for a day.
+ */
+export async function importVitals(
+  db: SQLiteDatabase,
+  readings: TypedVitalReading[],
+  personId: string,
+  mode: "merge" | "replace"
+): Promise<void> {
+  if (mode === "replace") {
+    await db.runAsync("DELETE FROM vitals WHERE person_id = ?", personId);
+  }
+  for (const { type, date, value } of readings) {
+    await db.runAsync(
+      "INSERT OR IGNORE INTO vitals (person_id, type, date, value) VALUES (?, ?, ?, ?)",
+      personId,
+      type,
+      date,
+      value
+    );
+  }
+}